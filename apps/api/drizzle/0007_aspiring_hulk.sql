@@ -0,0 +1,6 @@
+/**
+ * Migration: Add priority flag to clips
+ * Date: 2026-10-19
+ * Priority clips (e.g. redeemed with channel points) play ahead of regular submissions
+ */
+ALTER TABLE `clips` ADD `priority` integer DEFAULT false NOT NULL;
\ No newline at end of file
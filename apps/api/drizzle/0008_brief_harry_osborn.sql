@@ -0,0 +1,7 @@
+/**
+ * Migration: Add view count and language to clips
+ * Date: 2026-10-19
+ * Used by the clip freshness, view count and language filters
+ */
+ALTER TABLE `clips` ADD `view_count` integer;--> statement-breakpoint
+ALTER TABLE `clips` ADD `language` text;
\ No newline at end of file
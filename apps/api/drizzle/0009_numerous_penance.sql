@@ -0,0 +1,20 @@
+/**
+ * Migration: Add submission attempts log
+ * Date: 2026-10-19
+ * Records every clip submission with its outcome, including rejected ones
+ */
+CREATE TABLE `submission_attempts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`submitter` text NOT NULL,
+	`url` text NOT NULL,
+	`source` text NOT NULL,
+	`outcome` text NOT NULL,
+	`reason` text,
+	`title` text,
+	`clip_id` text,
+	`attempted_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_submission_attempts_attempted_at` ON `submission_attempts` (`attempted_at`);--> statement-breakpoint
+CREATE INDEX `idx_submission_attempts_submitter` ON `submission_attempts` (`submitter`);--> statement-breakpoint
+CREATE INDEX `idx_submission_attempts_outcome` ON `submission_attempts` (`outcome`);
\ No newline at end of file
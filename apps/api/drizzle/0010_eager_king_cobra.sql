@@ -0,0 +1,18 @@
+/**
+ * Migration: Add moderator action audit log
+ * Date: 2026-10-19
+ * Records who changed the queue or settings, from the web app or chat
+ */
+CREATE TABLE `audit_log` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`actor` text NOT NULL,
+	`source` text NOT NULL,
+	`action` text NOT NULL,
+	`clip_ids` text NOT NULL,
+	`changes` text NOT NULL,
+	`details` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `idx_audit_log_created_at` ON `audit_log` (`created_at`);--> statement-breakpoint
+CREATE INDEX `idx_audit_log_actor` ON `audit_log` (`actor`);
\ No newline at end of file
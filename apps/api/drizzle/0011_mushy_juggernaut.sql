@@ -0,0 +1,6 @@
+/**
+ * Migration: Add named queue to clips
+ * Date: 2026-10-19
+ * Approved clips can be parked in a named queue besides the main one
+ */
+ALTER TABLE `clips` ADD `queue_id` text DEFAULT 'main' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,6 @@
+/**
+ * Migration: Add manual position to clips
+ * Date: 2026-10-19
+ * Pinned clips play before all others, in their manual order
+ */
+ALTER TABLE `clips` ADD `position` integer;
\ No newline at end of file
@@ -0,0 +1,14 @@
+/**
+ * Migration: Add persisted queue open state
+ * Date: 2026-10-19
+ * Keeps the open state, one-off timer and schedule tracking across restarts
+ */
+CREATE TABLE `queue_status` (
+	`id` integer PRIMARY KEY DEFAULT 1 NOT NULL,
+	`is_open` integer DEFAULT true NOT NULL,
+	`is_auto_closed` integer DEFAULT false NOT NULL,
+	`timer_action` text,
+	`timer_at` integer,
+	`is_in_schedule_window` integer,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
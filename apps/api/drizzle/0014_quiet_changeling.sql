@@ -0,0 +1,15 @@
+/**
+ * Migration: Add stream sessions
+ * Date: 2026-10-19
+ * Groups plays by the stream (or manually started session) they happened in
+ */
+CREATE TABLE `sessions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`source` text NOT NULL,
+	`started_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`ended_at` integer
+);
+--> statement-breakpoint
+CREATE INDEX `idx_sessions_started_at` ON `sessions` (`started_at`);--> statement-breakpoint
+ALTER TABLE `play_log` ADD `session_id` integer REFERENCES sessions(id) ON DELETE set null;--> statement-breakpoint
+CREATE INDEX `idx_play_log_session_id` ON `play_log` (`session_id`);
\ No newline at end of file
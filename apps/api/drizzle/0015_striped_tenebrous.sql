@@ -0,0 +1,117 @@
+/**
+ * Migration: Scope data to channels
+ * Date: 2026-10-19
+ * Adds the channels table (keyed by Twitch broadcaster ID) and a channel_id column to
+ * every table, so one server can host several channels. Settings and queue status get
+ * one row per channel, and clips are keyed by channel and clip UUID.
+ * Existing rows get an empty channel_id and are claimed by the first channel registered.
+ */
+CREATE TABLE `channels` (
+	`id` text PRIMARY KEY NOT NULL,
+	`login` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `idx_channels_login` ON `channels` (`login`);--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_clip_submitters` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`channel_id` text NOT NULL,
+	`clip_id` text NOT NULL,
+	`submitter` text NOT NULL,
+	`submitted_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`channel_id`,`clip_id`) REFERENCES `clips`(`channel_id`,`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_clip_submitters`("id", "channel_id", "clip_id", "submitter", "submitted_at") SELECT "id", '', "clip_id", "submitter", "submitted_at" FROM `clip_submitters`;--> statement-breakpoint
+DROP TABLE `clip_submitters`;--> statement-breakpoint
+ALTER TABLE `__new_clip_submitters` RENAME TO `clip_submitters`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `idx_submitters_clip_id` ON `clip_submitters` (`channel_id`,`clip_id`);--> statement-breakpoint
+CREATE UNIQUE INDEX `unique_clip_submitter` ON `clip_submitters` (`channel_id`,`clip_id`,`submitter`);--> statement-breakpoint
+CREATE TABLE `__new_play_log` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`channel_id` text NOT NULL,
+	`clip_id` text NOT NULL,
+	`played_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`played_for` integer,
+	`completed_at` integer,
+	`session_id` integer,
+	FOREIGN KEY (`session_id`) REFERENCES `sessions`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`channel_id`,`clip_id`) REFERENCES `clips`(`channel_id`,`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+INSERT INTO `__new_play_log`("id", "channel_id", "clip_id", "played_at", "played_for", "completed_at", "session_id") SELECT "id", '', "clip_id", "played_at", "played_for", "completed_at", "session_id" FROM `play_log`;--> statement-breakpoint
+DROP TABLE `play_log`;--> statement-breakpoint
+ALTER TABLE `__new_play_log` RENAME TO `play_log`;--> statement-breakpoint
+CREATE INDEX `idx_play_log_clip_id` ON `play_log` (`channel_id`,`clip_id`);--> statement-breakpoint
+CREATE INDEX `idx_play_log_played_at` ON `play_log` (`channel_id`,`played_at`);--> statement-breakpoint
+CREATE INDEX `idx_play_log_session_id` ON `play_log` (`session_id`);--> statement-breakpoint
+DROP INDEX `idx_audit_log_created_at`;--> statement-breakpoint
+ALTER TABLE `audit_log` ADD `channel_id` text DEFAULT '' NOT NULL;--> statement-breakpoint
+CREATE INDEX `idx_audit_log_created_at` ON `audit_log` (`channel_id`,`created_at`);--> statement-breakpoint
+CREATE TABLE `__new_clips` (
+	`channel_id` text NOT NULL,
+	`id` text NOT NULL,
+	`platform` text NOT NULL,
+	`content_type` text DEFAULT 'clip' NOT NULL,
+	`clip_id` text NOT NULL,
+	`url` text NOT NULL,
+	`embed_url` text NOT NULL,
+	`video_url` text,
+	`thumbnail_url` text,
+	`title` text NOT NULL,
+	`channel` text NOT NULL,
+	`creator` text NOT NULL,
+	`category` text,
+	`created_at` text,
+	`view_count` integer,
+	`language` text,
+	`duration` integer,
+	`timestamp` integer,
+	`status` text DEFAULT 'approved' NOT NULL,
+	`priority` integer DEFAULT false NOT NULL,
+	`queue_id` text DEFAULT 'main' NOT NULL,
+	`position` integer,
+	`submitted_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`channel_id`, `id`)
+);
+--> statement-breakpoint
+INSERT INTO `__new_clips`("channel_id", "id", "platform", "content_type", "clip_id", "url", "embed_url", "video_url", "thumbnail_url", "title", "channel", "creator", "category", "created_at", "view_count", "language", "duration", "timestamp", "status", "priority", "queue_id", "position", "submitted_at") SELECT '', "id", "platform", "content_type", "clip_id", "url", "embed_url", "video_url", "thumbnail_url", "title", "channel", "creator", "category", "created_at", "view_count", "language", "duration", "timestamp", "status", "priority", "queue_id", "position", "submitted_at" FROM `clips`;--> statement-breakpoint
+DROP TABLE `clips`;--> statement-breakpoint
+ALTER TABLE `__new_clips` RENAME TO `clips`;--> statement-breakpoint
+CREATE INDEX `idx_clips_platform` ON `clips` (`platform`);--> statement-breakpoint
+CREATE INDEX `idx_clips_status` ON `clips` (`channel_id`,`status`);--> statement-breakpoint
+CREATE INDEX `idx_clips_channel` ON `clips` (`channel`);--> statement-breakpoint
+CREATE INDEX `idx_clips_status_submitted` ON `clips` (`channel_id`,`status`,`submitted_at`);--> statement-breakpoint
+DROP INDEX `idx_sessions_started_at`;--> statement-breakpoint
+ALTER TABLE `sessions` ADD `channel_id` text DEFAULT '' NOT NULL;--> statement-breakpoint
+CREATE INDEX `idx_sessions_started_at` ON `sessions` (`channel_id`,`started_at`);--> statement-breakpoint
+DROP INDEX `idx_submission_attempts_attempted_at`;--> statement-breakpoint
+ALTER TABLE `submission_attempts` ADD `channel_id` text DEFAULT '' NOT NULL;--> statement-breakpoint
+CREATE INDEX `idx_submission_attempts_attempted_at` ON `submission_attempts` (`channel_id`,`attempted_at`);--> statement-breakpoint
+CREATE TABLE `__new_queue_status` (
+	`channel_id` text PRIMARY KEY NOT NULL,
+	`is_open` integer DEFAULT true NOT NULL,
+	`is_auto_closed` integer DEFAULT false NOT NULL,
+	`timer_action` text,
+	`timer_at` integer,
+	`is_in_schedule_window` integer,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_queue_status`("channel_id", "is_open", "is_auto_closed", "timer_action", "timer_at", "is_in_schedule_window", "updated_at") SELECT '', "is_open", "is_auto_closed", "timer_action", "timer_at", "is_in_schedule_window", "updated_at" FROM `queue_status`;--> statement-breakpoint
+DROP TABLE `queue_status`;--> statement-breakpoint
+ALTER TABLE `__new_queue_status` RENAME TO `queue_status`;--> statement-breakpoint
+CREATE TABLE `__new_settings` (
+	`channel_id` text PRIMARY KEY NOT NULL,
+	`version` integer DEFAULT 1 NOT NULL,
+	`commands` text NOT NULL,
+	`queue` text NOT NULL,
+	`logger` text NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO `__new_settings`("channel_id", "version", "commands", "queue", "logger", "updated_at") SELECT '', "version", "commands", "queue", "logger", "updated_at" FROM `settings`;--> statement-breakpoint
+DROP TABLE `settings`;--> statement-breakpoint
+ALTER TABLE `__new_settings` RENAME TO `settings`;
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+
+import { diffSettings } from '../audit-log'
+
+describe('audit-log.ts', () => {
+  describe('diffSettings', () => {
+    it('returns no changes for equal settings', () => {
+      const settings = { queue: { limit: 10, providers: ['twitch:clip'] } }
+
+      expect(diffSettings(settings, structuredClone(settings))).toEqual([])
+    })
+
+    it('lists changed values by dotted path', () => {
+      expect(
+        diffSettings(
+          { queue: { limit: 10, isOpen: true }, logger: { level: 'info' } },
+          { queue: { limit: 20, isOpen: true }, logger: { level: 'debug' } }
+        )
+      ).toEqual([
+        { path: 'queue.limit', from: 10, to: 20 },
+        { path: 'logger.level', from: 'info', to: 'debug' }
+      ])
+    })
+
+    it('compares arrays as a whole', () => {
+      expect(
+        diffSettings({ providers: ['twitch:clip'] }, { providers: ['twitch:clip', 'kick:clip'] })
+      ).toEqual([{ path: 'providers', from: ['twitch:clip'], to: ['twitch:clip', 'kick:clip'] }])
+    })
+
+    it('records added and removed keys as null', () => {
+      expect(diffSettings({ a: 1 }, { b: 2 })).toEqual([
+        { path: 'a', from: 1, to: null },
+        { path: 'b', from: null, to: 2 }
+      ])
+    })
+  })
+})
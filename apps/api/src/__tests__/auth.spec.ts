@@ -227,7 +227,8 @@ describe('auth.ts', () => {
 
     beforeEach(() => {
       req = {
-        cookies: {}
+        cookies: {},
+        broadcaster: { id: '99999', login: 'test_channel' }
       }
       res = {
         status: vi.fn().mockReturnThis(),
@@ -236,7 +237,6 @@ describe('auth.ts', () => {
       next = vi.fn()
 
       process.env.TWITCH_CLIENT_ID = 'test_client_id'
-      process.env.TWITCH_CHANNEL_NAME = 'test_channel'
     })
 
     it('rejects requests without token', () => {
@@ -0,0 +1,83 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import type { Clip } from '@cq/schemas/clip'
+import { ContentType, Platform } from '@cq/schemas/clip'
+
+import type { DbClient } from '../db'
+import {
+  getChannels,
+  getClip,
+  getClipsByStatus,
+  getPlayLogs,
+  initDatabase,
+  insertPlayLog,
+  registerChannel,
+  upsertClip
+} from '../db'
+
+function createClip(id: string, title = `Clip ${id}`): Clip {
+  return {
+    platform: Platform.TWITCH,
+    contentType: ContentType.CLIP,
+    id,
+    url: `https://clips.twitch.tv/${id}`,
+    embedUrl: `https://clips.twitch.tv/embed?clip=${id}`,
+    title,
+    channel: 'streamer',
+    creator: 'clipper',
+    submitters: ['viewer']
+  }
+}
+
+describe('channels', () => {
+  let dir: string
+  let db: DbClient
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cq-channels-'))
+    db = initDatabase(join(dir, 'clips.db'))
+
+    // Rows saved before channels existed have an empty channel ID
+    upsertClip(db, '', 'a', createClip('a'))
+    insertPlayLog(db, '', 'a')
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('gives rows saved before channels existed to the first channel', () => {
+    registerChannel(db, { id: '42', login: 'first' })
+
+    expect(getClip(db, '42', 'a')).not.toBeNull()
+    expect(getClip(db, '', 'a')).toBeNull()
+    expect(getPlayLogs(db, '42')).toHaveLength(1)
+  })
+
+  it('starts later channels empty', () => {
+    registerChannel(db, { id: '43', login: 'second' })
+
+    expect(getClipsByStatus(db, '43', 'approved')).toEqual([])
+    expect(getPlayLogs(db, '43')).toEqual([])
+  })
+
+  it('keeps the same clip apart in each channel', () => {
+    upsertClip(db, '43', 'a', createClip('a', 'Renamed'))
+
+    expect(getClip(db, '42', 'a')?.title).toBe('Clip a')
+    expect(getClip(db, '43', 'a')?.title).toBe('Renamed')
+  })
+
+  it('updates the login of a known channel', () => {
+    registerChannel(db, { id: '43', login: 'renamed' })
+
+    expect(getChannels(db)).toEqual([
+      { id: '42', login: 'first' },
+      { id: '43', login: 'renamed' }
+    ])
+  })
+})
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+
+import { DEFAULT_CHAT_REPLIES } from '@cq/schemas/settings'
+
+import { getSubmissionReply, renderReplyTemplate } from '../chat-replies'
+
+describe('chat-replies.ts', () => {
+  describe('renderReplyTemplate', () => {
+    it('replaces placeholders with values', () => {
+      expect(
+        renderReplyTemplate('@{user} {title} is #{limit}', {
+          user: 'viewer',
+          title: 'Clip',
+          limit: 3
+        })
+      ).toBe('@viewer Clip is #3')
+    })
+
+    it('leaves unknown and missing placeholders untouched', () => {
+      expect(renderReplyTemplate('{user} {nope}', {})).toBe('{user} {nope}')
+    })
+
+    it('truncates replies longer than the chat limit', () => {
+      const reply = renderReplyTemplate('{title}', { title: 'a'.repeat(600) })
+
+      expect(reply).toHaveLength(500)
+      expect(reply.endsWith('…')).toBe(true)
+    })
+  })
+
+  describe('getSubmissionReply', () => {
+    it('renders the template for enabled outcomes', () => {
+      expect(
+        getSubmissionReply(DEFAULT_CHAT_REPLIES, {
+          outcome: 'queueFull',
+          variables: { limit: 20 }
+        })
+      ).toBe('The queue is full (20 clips), try again later')
+    })
+
+    it('returns null for disabled outcomes', () => {
+      expect(
+        getSubmissionReply(
+          { ...DEFAULT_CHAT_REPLIES, queueClosed: { enabled: false, template: 'closed' } },
+          { outcome: 'queueClosed', variables: {} }
+        )
+      ).toBeNull()
+    })
+  })
+})
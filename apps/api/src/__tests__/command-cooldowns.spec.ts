@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { CommandCooldowns } from '../command-cooldowns'
+
+describe('command-cooldowns.ts', () => {
+  let cooldowns: CommandCooldowns
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    cooldowns = new CommandCooldowns()
+  })
+
+  afterEach(() => {
+    cooldowns.clear()
+    vi.useRealTimers()
+  })
+
+  it('allows commands without a cooldown', () => {
+    expect(cooldowns.use('open', 'mod', undefined)).toBe(0)
+    expect(cooldowns.use('open', 'mod', undefined)).toBe(0)
+    expect(cooldowns.use('open', 'mod', { global: 0, user: 0 })).toBe(0)
+  })
+
+  it('blocks everyone during a global cooldown', () => {
+    const cooldown = { global: 3, user: 0 }
+
+    expect(cooldowns.use('next', 'mod1', cooldown)).toBe(0)
+    expect(cooldowns.use('next', 'mod2', cooldown)).toBe(3)
+
+    vi.advanceTimersByTime(3000)
+    expect(cooldowns.use('next', 'mod2', cooldown)).toBe(0)
+  })
+
+  it('blocks only the same user during a user cooldown', () => {
+    const cooldown = { global: 0, user: 15 }
+
+    expect(cooldowns.use('mine', 'viewer1', cooldown)).toBe(0)
+    expect(cooldowns.use('mine', 'viewer2', cooldown)).toBe(0)
+
+    vi.advanceTimersByTime(5000)
+    expect(cooldowns.use('mine', 'Viewer1', cooldown)).toBe(10)
+  })
+
+  it('tracks commands separately', () => {
+    const cooldown = { global: 10, user: 0 }
+
+    expect(cooldowns.use('next', 'mod', cooldown)).toBe(0)
+    expect(cooldowns.use('prev', 'mod', cooldown)).toBe(0)
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest'
+
+import type { CommandSettings } from '@cq/schemas/settings'
+import { COMMAND_NAMES, DEFAULT_CHAT_REPLIES } from '@cq/schemas/settings'
+
+import type { ChatUserRoles } from '../command-permissions'
+import {
+  allowNewCommands,
+  canRunCommand,
+  getCommandRoles,
+  resolveCommandName
+} from '../command-permissions'
+
+const viewer: ChatUserRoles = {
+  isBroadcaster: false,
+  isModerator: false,
+  isVip: false,
+  isSubscriber: false
+}
+const moderator: ChatUserRoles = { ...viewer, isModerator: true }
+const broadcaster: ChatUserRoles = { ...viewer, isBroadcaster: true }
+const vip: ChatUserRoles = { ...viewer, isVip: true }
+
+function createSettings(overrides: Partial<CommandSettings> = {}): CommandSettings {
+  return {
+    prefix: '!cq',
+    allowed: [...COMMAND_NAMES],
+    known: [...COMMAND_NAMES],
+    permissions: {},
+    aliases: {},
+    cooldowns: {},
+    replies: DEFAULT_CHAT_REPLIES,
+    ...overrides
+  }
+}
+
+describe('command-permissions.ts', () => {
+  describe('resolveCommandName', () => {
+    it('resolves known commands case-insensitively', () => {
+      expect(resolveCommandName('NEXT')).toBe('next')
+      expect(resolveCommandName('previous')).toBe('prev')
+      expect(resolveCommandName('unknown')).toBeNull()
+    })
+
+    it('resolves user-defined aliases', () => {
+      const aliases = { skip: 'next', n: 'next', open: 'close' } as const
+
+      expect(resolveCommandName('Skip', aliases)).toBe('next')
+      expect(resolveCommandName('n', aliases)).toBe('next')
+      expect(resolveCommandName('open', aliases)).toBe('open')
+    })
+  })
+
+  describe('allowNewCommands', () => {
+    it('allows commands the settings do not know yet', () => {
+      const { settings, isChanged } = allowNewCommands(
+        createSettings({ allowed: ['open', 'close'], known: ['open', 'close', 'clear'] })
+      )
+      expect(isChanged).toBe(true)
+      expect(settings.allowed).toContain('position')
+      expect(settings.allowed).not.toContain('clear')
+      expect(settings.known).toEqual([...COMMAND_NAMES])
+    })
+
+    it('leaves up-to-date settings unchanged', () => {
+      const original = createSettings({ allowed: ['open'] })
+      const { settings, isChanged } = allowNewCommands(original)
+      expect(isChanged).toBe(false)
+      expect(settings).toBe(original)
+    })
+  })
+
+  describe('getCommandRoles', () => {
+    it('falls back to default roles for unset commands', () => {
+      const settings = createSettings()
+
+      expect(getCommandRoles(settings, 'clear')).toEqual(['broadcaster', 'moderator'])
+      expect(getCommandRoles(settings, 'position')).toEqual(['everyone'])
+    })
+  })
+
+  describe('canRunCommand', () => {
+    it('applies default permissions', () => {
+      const settings = createSettings()
+
+      expect(canRunCommand(settings, 'next', moderator)).toBe(true)
+      expect(canRunCommand(settings, 'next', broadcaster)).toBe(true)
+      expect(canRunCommand(settings, 'next', viewer)).toBe(false)
+      expect(canRunCommand(settings, 'current', viewer)).toBe(true)
+    })
+
+    it('rejects commands that are not allowed', () => {
+      const settings = createSettings({ allowed: ['open'] })
+
+      expect(canRunCommand(settings, 'clear', broadcaster)).toBe(false)
+      expect(canRunCommand(settings, 'open', broadcaster)).toBe(true)
+    })
+
+    it('restricts commands to configured roles', () => {
+      const settings = createSettings({
+        permissions: { purgehistory: ['broadcaster'], next: ['moderator', 'vip'] }
+      })
+
+      expect(canRunCommand(settings, 'purgehistory', moderator)).toBe(false)
+      expect(canRunCommand(settings, 'purgehistory', broadcaster)).toBe(true)
+      expect(canRunCommand(settings, 'next', vip)).toBe(true)
+      expect(canRunCommand(settings, 'next', broadcaster)).toBe(false)
+    })
+
+    it('denies commands with no roles', () => {
+      const settings = createSettings({ permissions: { size: [] } })
+
+      expect(canRunCommand(settings, 'size', broadcaster)).toBe(false)
+    })
+  })
+})
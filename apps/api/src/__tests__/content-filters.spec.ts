@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Clip } from '@cq/schemas/clip'
+import type { ContentFilters } from '@cq/schemas/settings'
+import { ContentType, Platform } from '@cq/schemas/clip'
+import { DEFAULT_CONTENT_FILTERS } from '@cq/schemas/settings'
+
+import { blockName, getBlockedClipField, isSubmitterAllowed, unblockName } from '../content-filters'
+
+const clip: Clip = {
+  platform: Platform.TWITCH,
+  contentType: ContentType.CLIP,
+  id: 'clip',
+  url: 'https://clips.twitch.tv/clip',
+  embedUrl: 'https://clips.twitch.tv/embed?clip=clip',
+  title: 'Great play',
+  channel: 'Streamer',
+  creator: 'Clipper',
+  category: 'Just Chatting',
+  submitters: ['viewer']
+}
+
+function createFilters(overrides: Partial<ContentFilters> = {}): ContentFilters {
+  return { ...DEFAULT_CONTENT_FILTERS, ...overrides }
+}
+
+describe('content-filters.ts', () => {
+  describe('isSubmitterAllowed', () => {
+    it('allows everyone by default', () => {
+      expect(isSubmitterAllowed(createFilters(), 'viewer')).toBe(true)
+    })
+
+    it('rejects blocked submitters case-insensitively', () => {
+      const filters = createFilters({ submitters: { allowed: [], blocked: ['troll'] } })
+
+      expect(isSubmitterAllowed(filters, 'Troll')).toBe(false)
+      expect(isSubmitterAllowed(filters, 'viewer')).toBe(true)
+    })
+
+    it('only allows listed submitters when the allowlist is set', () => {
+      const filters = createFilters({ submitters: { allowed: ['regular'], blocked: [] } })
+
+      expect(isSubmitterAllowed(filters, 'Regular')).toBe(true)
+      expect(isSubmitterAllowed(filters, 'viewer')).toBe(false)
+    })
+  })
+
+  describe('getBlockedClipField', () => {
+    it('allows clips by default', () => {
+      expect(getBlockedClipField(createFilters(), clip)).toBeNull()
+    })
+
+    it('reports the first blocked field', () => {
+      expect(
+        getBlockedClipField(
+          createFilters({ channels: { allowed: [], blocked: ['streamer'] } }),
+          clip
+        )
+      ).toBe('channel')
+      expect(
+        getBlockedClipField(
+          createFilters({ creators: { allowed: ['someone'], blocked: [] } }),
+          clip
+        )
+      ).toBe('creator')
+      expect(
+        getBlockedClipField(
+          createFilters({ categories: { allowed: [], blocked: ['just chatting'] } }),
+          clip
+        )
+      ).toBe('category')
+    })
+
+    it('prefers the blocklist over the allowlist', () => {
+      const filters = createFilters({ channels: { allowed: ['streamer'], blocked: ['streamer'] } })
+
+      expect(getBlockedClipField(filters, clip)).toBe('channel')
+    })
+
+    it('lets clips without a category past the category allowlist', () => {
+      const filters = createFilters({ categories: { allowed: ['valorant'], blocked: [] } })
+
+      expect(getBlockedClipField(filters, { ...clip, category: undefined })).toBeNull()
+      expect(getBlockedClipField(filters, clip)).toBe('category')
+    })
+  })
+
+  describe('blockName / unblockName', () => {
+    it('blocks a name and drops it from the allowlist', () => {
+      const list = { allowed: ['troll', 'regular'], blocked: [] }
+
+      expect(blockName(list, 'Troll')).toEqual({ allowed: ['regular'], blocked: ['troll'] })
+      expect(blockName({ allowed: [], blocked: ['troll'] }, 'troll')).toBeNull()
+    })
+
+    it('unblocks a name', () => {
+      expect(unblockName({ allowed: [], blocked: ['troll'] }, 'TROLL')).toEqual({
+        allowed: [],
+        blocked: []
+      })
+      expect(unblockName({ allowed: [], blocked: [] }, 'troll')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+
+import type { Clip } from '@cq/schemas/clip'
+import type { NamedQueue } from '@cq/schemas/settings'
+import { ClipList, toClipUUID } from '@cq/platforms'
+import { ContentType, Platform } from '@cq/schemas/clip'
+
+import { NamedQueues } from '../named-queues'
+
+function createClip(id: string): Clip {
+  return {
+    platform: Platform.TWITCH,
+    contentType: ContentType.CLIP,
+    id,
+    url: `https://clips.twitch.tv/${id}`,
+    embedUrl: `https://clips.twitch.tv/embed?clip=${id}`,
+    title: `Clip ${id}`,
+    channel: 'streamer',
+    creator: 'clipper',
+    submitters: ['viewer']
+  }
+}
+
+function createQueue(id: string, overrides: Partial<NamedQueue> = {}): NamedQueue {
+  return { id, name: id, isOpen: true, limit: null, ...overrides }
+}
+
+const ids = (clips: Clip[]) => clips.map((c) => c.id)
+
+describe('named-queues.ts', () => {
+  let main: ClipList
+  let queues: NamedQueues
+
+  beforeEach(() => {
+    main = new ClipList(createClip('a'), createClip('b'))
+    queues = new NamedQueues(main)
+    queues.sync([createQueue('later')], 'fifo')
+  })
+
+  it('finds clips in any queue', () => {
+    const b = queues.find(toClipUUID(createClip('b')))!
+    queues.move(b, 'later')
+
+    expect(queues.find(toClipUUID(createClip('a')))?.queueId).toBe('main')
+    expect(queues.find(toClipUUID(createClip('b')))?.queueId).toBe('later')
+    expect(queues.find('twitch:clip:missing')).toBeNull()
+    expect(ids(queues.allClips())).toEqual(['a', 'b'])
+  })
+
+  it('moves clips between queues', () => {
+    queues.move(queues.find(toClipUUID(createClip('a')))!, 'later')
+
+    expect(ids(main.toArray())).toEqual(['b'])
+    expect(queues.toState()).toEqual([
+      { id: 'later', name: 'later', isOpen: true, limit: null, clips: [createClip('a')] }
+    ])
+  })
+
+  it('moves clips with several submitters as a whole', () => {
+    main.add({ ...createClip('a'), submitters: ['other'] })
+    queues.move(queues.find(toClipUUID(createClip('a')))!, 'later')
+
+    expect(ids(main.toArray())).toEqual(['b'])
+    expect(queues.get('later')?.toArray()[0]?.submitters).toEqual(['viewer', 'other'])
+  })
+
+  it('unpins clips moved to another queue', () => {
+    main.pin(createClip('b'))
+    queues.move(queues.find(toClipUUID(createClip('b')))!, 'later')
+
+    expect(queues.get('later')?.toArray()[0]?.position).toBeUndefined()
+  })
+
+  it('refuses moves into closed, full or unknown queues', () => {
+    queues.sync(
+      [createQueue('closed', { isOpen: false }), createQueue('small', { limit: 1 })],
+      'fifo'
+    )
+    queues.move(queues.find(toClipUUID(createClip('a')))!, 'small')
+
+    expect(queues.canMoveTo('closed')).toBe('closed')
+    expect(queues.canMoveTo('small')).toBe('full')
+    expect(queues.canMoveTo('missing')).toBe('notFound')
+    expect(queues.canMoveTo('main')).toBeNull()
+  })
+
+  it('moves clips of deleted queues back to the main queue', () => {
+    queues.move(queues.find(toClipUUID(createClip('a')))!, 'later')
+    queues.setActive('later')
+
+    const moved = queues.sync([], 'fifo')
+
+    expect(ids(moved)).toEqual(['a'])
+    expect(ids(main.toArray())).toEqual(['b', 'a'])
+    expect(queues.get('later')).toBeUndefined()
+    expect(queues.activeQueueId).toBe('main')
+  })
+
+  it('plays from the active queue until it is empty', () => {
+    queues.move(queues.find(toClipUUID(createClip('b')))!, 'later')
+
+    expect(queues.setActive('missing')).toBe(false)
+    expect(queues.setActive('later')).toBe(true)
+    expect(queues.nextPlaybackQueue()).toBe(queues.get('later'))
+
+    queues.get('later')!.shift()
+    expect(queues.nextPlaybackQueue()).toBe(main)
+    expect(queues.activeQueueId).toBe('main')
+  })
+
+  it('applies the ordering to every queue', () => {
+    expect(queues.setOrdering('popularity')).toBe(true)
+    expect(main.ordering).toBe('popularity')
+    expect(queues.get('later')?.ordering).toBe('popularity')
+    expect(queues.setOrdering('popularity')).toBe(false)
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+
+import { toPublicSettings } from '../public-settings'
+import { DEFAULT_SETTINGS } from '../schema'
+
+describe('public-settings.ts', () => {
+  describe('toPublicSettings', () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      queue: {
+        ...DEFAULT_SETTINGS.queue,
+        channelPoints: { ...DEFAULT_SETTINGS.queue.channelPoints, rewardId: 'secret-reward' },
+        filters: {
+          ...DEFAULT_SETTINGS.queue.filters,
+          submitters: { allowed: [], blocked: ['troll'] }
+        },
+        titleFilters: [
+          {
+            pattern: 'spoiler',
+            isRegex: false,
+            isCaseSensitive: false,
+            isWholeWord: true,
+            action: 'reject' as const
+          }
+        ]
+      }
+    }
+
+    it('leaves out channel point redemption settings', () => {
+      expect(toPublicSettings(settings).queue).not.toHaveProperty('channelPoints')
+    })
+
+    it('leaves out submitter, channel, creator and category lists', () => {
+      expect(toPublicSettings(settings).queue).not.toHaveProperty('filters')
+    })
+
+    it('leaves out title word and regex filters', () => {
+      expect(toPublicSettings(settings).queue).not.toHaveProperty('titleFilters')
+    })
+
+    it('keeps the settings clients display', () => {
+      const publicSettings = toPublicSettings(settings)
+      expect(publicSettings.commands).toEqual(settings.commands)
+      expect(publicSettings.logger).toEqual(settings.logger)
+      expect(publicSettings.queue.limit).toBe(settings.queue.limit)
+      expect(publicSettings.queue.ordering).toBe(settings.queue.ordering)
+    })
+
+    it('does not change the original settings', () => {
+      toPublicSettings(settings)
+      expect(settings.queue.channelPoints.rewardId).toBe('secret-reward')
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+
+import type { AutoClose, QueueSchedule } from '@cq/schemas/settings'
+
+import { getAutoCloseChange, isWithinSchedule, parseDuration } from '../queue-schedule'
+
+function createSchedule(overrides: Partial<QueueSchedule> = {}): QueueSchedule {
+  return {
+    enabled: true,
+    timezone: 'UTC',
+    windows: [{ days: [1, 3], start: '18:00', end: '22:00' }],
+    ...overrides
+  }
+}
+
+const enabled: AutoClose = { enabled: true, reopenBelow: 5 }
+
+describe('queue-schedule.ts', () => {
+  describe('isWithinSchedule', () => {
+    it('matches windows on their days only', () => {
+      const schedule = createSchedule()
+
+      // 2026-10-19 is a Monday
+      expect(isWithinSchedule(schedule, new Date('2026-10-19T18:00:00Z'))).toBe(true)
+      expect(isWithinSchedule(schedule, new Date('2026-10-19T21:59:00Z'))).toBe(true)
+      expect(isWithinSchedule(schedule, new Date('2026-10-19T22:00:00Z'))).toBe(false)
+      expect(isWithinSchedule(schedule, new Date('2026-10-20T19:00:00Z'))).toBe(false)
+    })
+
+    it('uses the schedule timezone', () => {
+      const schedule = createSchedule({ timezone: 'America/New_York' })
+
+      // 18:30 in New York is 22:30 UTC (daylight saving time)
+      expect(isWithinSchedule(schedule, new Date('2026-10-19T22:30:00Z'))).toBe(true)
+      expect(isWithinSchedule(schedule, new Date('2026-10-19T18:30:00Z'))).toBe(false)
+    })
+
+    it('continues windows past midnight into the next day', () => {
+      const schedule = createSchedule({ windows: [{ days: [6], start: '22:00', end: '02:00' }] })
+
+      // Saturday 23:00 and Sunday 01:00, but not Sunday 23:00
+      expect(isWithinSchedule(schedule, new Date('2026-10-24T23:00:00Z'))).toBe(true)
+      expect(isWithinSchedule(schedule, new Date('2026-10-25T01:00:00Z'))).toBe(true)
+      expect(isWithinSchedule(schedule, new Date('2026-10-25T23:00:00Z'))).toBe(false)
+    })
+  })
+
+  describe('parseDuration', () => {
+    it('parses seconds, minutes and hours', () => {
+      expect(parseDuration('90s')).toBe(90 * 1000)
+      expect(parseDuration('30m')).toBe(30 * 60 * 1000)
+      expect(parseDuration('30')).toBe(30 * 60 * 1000)
+      expect(parseDuration('2H')).toBe(2 * 60 * 60 * 1000)
+    })
+
+    it('rejects invalid, zero and too long durations', () => {
+      expect(parseDuration('soon')).toBeNull()
+      expect(parseDuration('0m')).toBeNull()
+      expect(parseDuration('25h')).toBeNull()
+    })
+  })
+
+  describe('getAutoCloseChange', () => {
+    it('closes the queue at its limit', () => {
+      const status = { isOpen: true, isAutoClosed: false }
+
+      expect(getAutoCloseChange(enabled, 10, 9, status)).toBeNull()
+      expect(getAutoCloseChange(enabled, 10, 10, status)).toBe('close')
+      expect(getAutoCloseChange(enabled, null, 50, status)).toBeNull()
+    })
+
+    it('reopens once the queue drains below the threshold', () => {
+      const status = { isOpen: false, isAutoClosed: true }
+
+      expect(getAutoCloseChange(enabled, 10, 5, status)).toBeNull()
+      expect(getAutoCloseChange(enabled, 10, 4, status)).toBe('open')
+      expect(getAutoCloseChange({ ...enabled, reopenBelow: null }, 10, 9, status)).toBe('open')
+    })
+
+    it('only reopens queues it closed itself', () => {
+      expect(getAutoCloseChange(enabled, 10, 0, { isOpen: false, isAutoClosed: false })).toBeNull()
+      expect(
+        getAutoCloseChange({ ...enabled, enabled: false }, 10, 10, {
+          isOpen: false,
+          isAutoClosed: true
+        })
+      ).toBe('open')
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { EventEmitter } from 'events'
+
+import type { Request, Response } from 'express'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { QueueStream } from '../queue-stream'
+
+function createMockClient() {
+  const req = new EventEmitter() as unknown as Request
+  const res = {
+    writeHead: vi.fn(),
+    write: vi.fn(),
+    end: vi.fn()
+  }
+  return { req, res: res as unknown as Response & typeof res }
+}
+
+describe('queue-stream.ts', () => {
+  let stream: QueueStream
+
+  afterEach(() => {
+    stream?.closeAll()
+  })
+
+  it('sends event-stream headers and initial state on connect', () => {
+    stream = new QueueStream()
+    const { req, res } = createMockClient()
+
+    stream.connect(req, res, 'etag-1', { isOpen: true })
+
+    expect(res.writeHead).toHaveBeenCalledWith(
+      200,
+      expect.objectContaining({ 'Content-Type': 'text/event-stream' })
+    )
+    expect(res.write).toHaveBeenCalledWith('event: state\nid: etag-1\ndata: {"isOpen":true}\n\n')
+    expect(stream.size).toBe(1)
+  })
+
+  it('broadcasts events to all connected clients', () => {
+    stream = new QueueStream()
+    const a = createMockClient()
+    const b = createMockClient()
+    stream.connect(a.req, a.res, 'etag-1', {})
+    stream.connect(b.req, b.res, 'etag-1', {})
+
+    stream.broadcast('state', 'etag-2', { isOpen: false })
+
+    const expected = 'event: state\nid: etag-2\ndata: {"isOpen":false}\n\n'
+    expect(a.res.write).toHaveBeenLastCalledWith(expected)
+    expect(b.res.write).toHaveBeenLastCalledWith(expected)
+  })
+
+  it('removes clients when their request closes', () => {
+    stream = new QueueStream()
+    const { req, res } = createMockClient()
+    stream.connect(req, res, 'etag-1', {})
+
+    req.emit('close')
+
+    expect(stream.size).toBe(0)
+    stream.broadcast('state', 'etag-2', {})
+    expect(res.write).not.toHaveBeenCalledWith(expect.stringContaining('etag-2'))
+  })
+
+  it('drops clients that fail to write', () => {
+    stream = new QueueStream()
+    const { req, res } = createMockClient()
+    stream.connect(req, res, 'etag-1', {})
+    res.write.mockImplementation(() => {
+      throw new Error('socket closed')
+    })
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    stream.broadcast('state', 'etag-2', {})
+
+    expect(stream.size).toBe(0)
+  })
+
+  it('ends all connections on closeAll', () => {
+    stream = new QueueStream()
+    const { req, res } = createMockClient()
+    stream.connect(req, res, 'etag-1', {})
+
+    stream.closeAll()
+
+    expect(res.end).toHaveBeenCalled()
+    expect(stream.size).toBe(0)
+  })
+})
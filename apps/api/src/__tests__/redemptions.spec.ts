@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+
+import { getRedemptionStatus, PendingRedemptions } from '../redemptions'
+
+describe('redemptions.ts', () => {
+  describe('getRedemptionStatus', () => {
+    it('fulfills redemptions for queued clips', () => {
+      expect(getRedemptionStatus('added')).toBe('FULFILLED')
+    })
+
+    it('leaves redemptions open while the clip is pending', () => {
+      expect(getRedemptionStatus('pending')).toBeNull()
+    })
+
+    it('cancels redemptions for rejected or invalid clips', () => {
+      expect(getRedemptionStatus('queueClosed')).toBe('CANCELED')
+      expect(getRedemptionStatus('providerDisabled')).toBe('CANCELED')
+      expect(getRedemptionStatus(null)).toBe('CANCELED')
+    })
+  })
+
+  describe('PendingRedemptions', () => {
+    it('returns redemptions for a clip once', () => {
+      const pending = new PendingRedemptions()
+      pending.add('twitch:clip:a', { rewardId: 'reward', redemptionId: '1' })
+      pending.add('twitch:clip:a', { rewardId: 'reward', redemptionId: '2' })
+      pending.add('twitch:clip:b', { rewardId: 'reward', redemptionId: '3' })
+
+      expect(pending.take('twitch:clip:a').map((r) => r.redemptionId)).toEqual(['1', '2'])
+      expect(pending.take('twitch:clip:a')).toEqual([])
+      expect(pending.size()).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import type { Clip } from '@cq/schemas/clip'
+import { ContentType, Platform } from '@cq/schemas/clip'
+
+import type { DbClient } from '../db'
+import {
+  endSession,
+  getSessionsWindowStart,
+  initDatabase,
+  insertPlayLog,
+  startSession,
+  upsertClip
+} from '../db'
+
+const HOUR = 60 * 60 * 1000
+const GAP_SECONDS = 4 * 60 * 60
+
+// The database stores whole seconds
+const now = Math.floor(Date.now() / 1000) * 1000
+
+function createClip(id: string): Clip {
+  return {
+    platform: Platform.TWITCH,
+    contentType: ContentType.CLIP,
+    id,
+    url: `https://clips.twitch.tv/${id}`,
+    embedUrl: `https://clips.twitch.tv/embed?clip=${id}`,
+    title: `Clip ${id}`,
+    channel: 'streamer',
+    creator: 'clipper',
+    submitters: ['viewer']
+  }
+}
+
+function hoursAgo(hours: number): Date {
+  return new Date(now - hours * HOUR)
+}
+
+describe('replay cooldown sessions', () => {
+  let dir: string
+  let db: DbClient
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cq-replay-'))
+    db = initDatabase(join(dir, 'clips.db'))
+    for (const channelId of ['3', '4', '5', '6']) {
+      for (const id of ['a', 'b', 'c', 'd']) {
+        upsertClip(db, channelId, id, createClip(id))
+      }
+    }
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('starts the window at the Nth most recent recorded session', () => {
+    startSession(db, '1', 'stream', hoursAgo(50))
+    endSession(db, '1', hoursAgo(48))
+    startSession(db, '1', 'stream', hoursAgo(26))
+    endSession(db, '1', hoursAgo(24))
+    startSession(db, '1', 'manual', hoursAgo(2))
+
+    expect(getSessionsWindowStart(db, '1', 1, GAP_SECONDS)).toEqual(hoursAgo(2))
+    expect(getSessionsWindowStart(db, '1', 2, GAP_SECONDS)).toEqual(hoursAgo(26))
+    expect(getSessionsWindowStart(db, '1', 3, GAP_SECONDS)).toEqual(hoursAgo(50))
+  })
+
+  it('covers everything when fewer sessions were recorded', () => {
+    startSession(db, '2', 'stream', hoursAgo(2))
+
+    expect(getSessionsWindowStart(db, '2', 2, GAP_SECONDS)).toBeNull()
+  })
+
+  it('ignores play gaps when sessions were recorded', () => {
+    // A short break inside one recorded session is not a new session
+    startSession(db, '3', 'stream', hoursAgo(12))
+    insertPlayLog(db, '3', 'a', hoursAgo(11))
+    insertPlayLog(db, '3', 'b', hoursAgo(1))
+
+    expect(getSessionsWindowStart(db, '3', 1, GAP_SECONDS)).toEqual(hoursAgo(12))
+  })
+
+  it('only uses sessions of the same channel', () => {
+    startSession(db, '7', 'stream', hoursAgo(1))
+    insertPlayLog(db, '4', 'a', hoursAgo(30))
+    insertPlayLog(db, '4', 'b', hoursAgo(3))
+
+    expect(getSessionsWindowStart(db, '4', 1, GAP_SECONDS)).toEqual(hoursAgo(3))
+  })
+
+  it('guesses sessions from gaps in the play log when none were recorded', () => {
+    insertPlayLog(db, '5', 'a', hoursAgo(30))
+    insertPlayLog(db, '5', 'b', hoursAgo(29))
+    insertPlayLog(db, '5', 'c', hoursAgo(3))
+    insertPlayLog(db, '5', 'd', hoursAgo(2))
+
+    expect(getSessionsWindowStart(db, '5', 1, GAP_SECONDS)).toEqual(hoursAgo(3))
+    expect(getSessionsWindowStart(db, '5', 2, GAP_SECONDS)).toBeNull()
+  })
+
+  it('starts a new guessed session when the last play was long ago', () => {
+    insertPlayLog(db, '6', 'a', hoursAgo(10))
+
+    const windowStart = getSessionsWindowStart(db, '6', 1, GAP_SECONDS)
+    expect(windowStart!.getTime()).toBeGreaterThan(hoursAgo(10).getTime())
+  })
+})
@@ -0,0 +1,85 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+
+import { eq } from 'drizzle-orm'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+import { COMMAND_NAMES, LEGACY_COMMAND_NAMES } from '@cq/schemas/settings'
+
+import type { DbClient } from '../db'
+import { initDatabase, initSettings, updateSettings } from '../db'
+import { settings } from '../schema'
+
+const CHANNEL_ID = '42'
+
+// Settings row as saved before commands were tracked, with purgecache turned off
+const BASELINE_ROW = {
+  channelId: CHANNEL_ID,
+  version: 1,
+  commands: {
+    prefix: '!cq',
+    allowed: LEGACY_COMMAND_NAMES.filter((command) => command !== 'purgecache')
+  },
+  queue: {
+    hasAutoModerationEnabled: true,
+    limit: null,
+    providers: ['twitch:clip', 'kick:clip'],
+    sora: { allowedCameos: [] }
+  },
+  logger: { level: 'WARN', limit: 100 }
+}
+
+describe('settings upgrade', () => {
+  let dir: string
+  let db: DbClient
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cq-settings-'))
+    db = initDatabase(join(dir, 'clips.db'))
+    db.insert(settings).values(BASELINE_ROW).run()
+  })
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('allows commands added since a baseline settings row was saved', () => {
+    const loaded = initSettings(db, CHANNEL_ID)
+    const newCommands = COMMAND_NAMES.filter(
+      (command) => !(LEGACY_COMMAND_NAMES as readonly string[]).includes(command)
+    )
+
+    expect(loaded.commands.allowed).toEqual(expect.arrayContaining(newCommands))
+    expect(loaded.commands.allowed).toContain('session')
+    expect(loaded.commands.known).toEqual([...COMMAND_NAMES])
+  })
+
+  it('keeps commands the broadcaster turned off', () => {
+    expect(initSettings(db, CHANNEL_ID).commands.allowed).not.toContain('purgecache')
+  })
+
+  it('persists the merged list', () => {
+    const row = db.select().from(settings).where(eq(settings.channelId, CHANNEL_ID)).get()
+    expect((row?.commands as { allowed: string[] }).allowed).toContain('position')
+  })
+
+  it('does not re-allow new commands turned off after the upgrade', () => {
+    const loaded = initSettings(db, CHANNEL_ID)
+    updateSettings(db, CHANNEL_ID, {
+      ...loaded,
+      commands: {
+        ...loaded.commands,
+        allowed: loaded.commands.allowed.filter((command) => command !== 'eta')
+      }
+    })
+
+    expect(initSettings(db, CHANNEL_ID).commands.allowed).not.toContain('eta')
+  })
+
+  it('leaves other channels on the defaults', () => {
+    const other = initSettings(db, '43')
+    expect(other.commands.allowed).toContain('purgecache')
+    expect(other.commands.allowed).toContain('eta')
+  })
+})
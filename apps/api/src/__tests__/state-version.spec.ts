@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+
+import { applyPatch } from '@cq/utils'
+
+import { VersionedState } from '../state-version'
+
+describe('state-version.ts', () => {
+  it('bumps the version only when the state changes', () => {
+    const state = new VersionedState(10, 100)
+
+    expect(state.update({ isOpen: true })).toBe(true)
+    expect(state.version).toBe(101)
+
+    expect(state.update({ isOpen: true })).toBe(false)
+    expect(state.version).toBe(101)
+  })
+
+  it('returns an empty delta when the client is current', () => {
+    const state = new VersionedState(10, 100)
+    state.update({ isOpen: true })
+
+    expect(state.changesSince(101)).toEqual({ from: 101, version: 101, ops: [] })
+  })
+
+  it('returns deltas that bring an old state up to date', () => {
+    const state = new VersionedState(10, 100)
+    const first = { upcoming: [{ id: 'a' }], isOpen: true }
+    const last = { upcoming: [{ id: 'b' }, { id: 'c' }], isOpen: false }
+    state.update(first)
+    state.update({ upcoming: [{ id: 'a' }, { id: 'b' }], isOpen: true })
+    state.update(last)
+
+    const delta = state.changesSince(101)
+
+    expect(delta).toMatchObject({ from: 101, version: 103 })
+    expect(applyPatch(first, delta!.ops)).toEqual(last)
+  })
+
+  it('serializes dates the way clients receive them', () => {
+    const state = new VersionedState(10, 100)
+    state.update({ playedAt: null })
+    state.update({ playedAt: new Date('2025-01-01T00:00:00Z') })
+
+    expect(state.changesSince(101)!.ops).toEqual([
+      { op: 'replace', path: '/playedAt', value: '2025-01-01T00:00:00.000Z' }
+    ])
+  })
+
+  it('returns null when the client is too far behind', () => {
+    const state = new VersionedState(2, 100)
+    state.update({ count: 1 })
+    state.update({ count: 2 })
+    state.update({ count: 3 })
+
+    expect(state.changesSince(100)).toBeNull()
+    expect(state.changesSince(101)).not.toBeNull()
+  })
+
+  it('returns null for unknown future versions', () => {
+    const state = new VersionedState(10, 100)
+    state.update({ count: 1 })
+
+    expect(state.changesSince(500)).toBeNull()
+  })
+})
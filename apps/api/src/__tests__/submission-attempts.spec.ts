@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+
+import { getAttemptReason, isSubmissionFailure } from '../submission-attempts'
+
+describe('submission-attempts.ts', () => {
+  describe('isSubmissionFailure', () => {
+    it('tells failures apart from reply outcomes', () => {
+      expect(isSubmissionFailure({ outcome: 'fetchFailed', reason: 'Clip not found' })).toBe(true)
+      expect(isSubmissionFailure({ outcome: 'queueClosed', variables: { user: 'viewer' } })).toBe(
+        false
+      )
+    })
+  })
+
+  describe('getAttemptReason', () => {
+    it('uses the failure reason', () => {
+      expect(getAttemptReason({ outcome: 'invalidUrl', reason: 'Unsupported URL' })).toBe(
+        'Unsupported URL'
+      )
+    })
+
+    it('lists the variables that explain an outcome', () => {
+      expect(
+        getAttemptReason({
+          outcome: 'providerDisabled',
+          variables: { user: 'viewer', title: 'Clip', provider: 'twitch:vod' }
+        })
+      ).toBe('provider: twitch:vod')
+      expect(
+        getAttemptReason({
+          outcome: 'rateLimited',
+          variables: { user: 'viewer', seconds: 5 }
+        })
+      ).toBe('seconds: 5')
+    })
+
+    it('returns null when there is nothing to add', () => {
+      expect(
+        getAttemptReason({ outcome: 'added', variables: { user: 'viewer', title: 'Clip' } })
+      ).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,89 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { RateLimitSettings } from '@cq/schemas/settings'
+
+import type { ChatUserRoles } from '../command-permissions'
+import { getUserRateLimitSeconds, SubmissionRateLimits } from '../submission-rate-limits'
+
+const viewer: ChatUserRoles = {
+  isBroadcaster: false,
+  isModerator: false,
+  isVip: false,
+  isSubscriber: false
+}
+
+describe('submission-rate-limits.ts', () => {
+  describe('getUserRateLimitSeconds', () => {
+    const settings: RateLimitSettings = {
+      userSeconds: 10,
+      duplicateUrlSeconds: 5,
+      roleOverrides: { moderator: 0, subscriber: 5, vip: 3 }
+    }
+
+    it('uses the default window without a matching role', () => {
+      expect(getUserRateLimitSeconds(settings, viewer)).toBe(10)
+      expect(getUserRateLimitSeconds(settings, { ...viewer, isBroadcaster: true })).toBe(10)
+    })
+
+    it('uses the most lenient matching role override', () => {
+      expect(getUserRateLimitSeconds(settings, { ...viewer, isSubscriber: true })).toBe(5)
+      expect(
+        getUserRateLimitSeconds(settings, { ...viewer, isSubscriber: true, isVip: true })
+      ).toBe(3)
+      expect(getUserRateLimitSeconds(settings, { ...viewer, isModerator: true })).toBe(0)
+    })
+
+    it('allows overrides stricter than the default', () => {
+      expect(
+        getUserRateLimitSeconds(
+          { ...settings, userSeconds: 0, roleOverrides: { subscriber: 30 } },
+          { ...viewer, isSubscriber: true }
+        )
+      ).toBe(30)
+    })
+  })
+
+  describe('SubmissionRateLimits', () => {
+    let limits: SubmissionRateLimits
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+      limits = new SubmissionRateLimits()
+    })
+
+    afterEach(() => {
+      limits.clear()
+      vi.useRealTimers()
+    })
+
+    it('limits each user separately', () => {
+      expect(limits.useUser('Viewer1', 10)).toBe(0)
+      expect(limits.useUser('viewer1', 10)).toBe(10)
+      expect(limits.useUser('viewer2', 10)).toBe(0)
+
+      vi.advanceTimersByTime(4000)
+      expect(limits.useUser('viewer1', 10)).toBe(6)
+
+      vi.advanceTimersByTime(6000)
+      expect(limits.useUser('viewer1', 10)).toBe(0)
+    })
+
+    it('ignores duplicate URLs within the window', () => {
+      const url = 'https://clips.twitch.tv/abc'
+
+      expect(limits.isDuplicateUrl(url, 5)).toBe(false)
+      expect(limits.isDuplicateUrl(url, 5)).toBe(true)
+
+      vi.advanceTimersByTime(5000)
+      expect(limits.isDuplicateUrl(url, 5)).toBe(false)
+    })
+
+    it('never limits with a zero window', () => {
+      expect(limits.useUser('viewer', 0)).toBe(0)
+      expect(limits.useUser('viewer', 0)).toBe(0)
+      expect(limits.isDuplicateUrl('https://clips.twitch.tv/abc', 0)).toBe(false)
+      expect(limits.isDuplicateUrl('https://clips.twitch.tv/abc', 0)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+
+import type { UndoEntry } from '../undo-stack'
+import { UndoStack } from '../undo-stack'
+
+function createEntry(clipId: string): UndoEntry {
+  return { action: 'remove', changes: [], clipIds: [clipId] }
+}
+
+describe('undo-stack.ts', () => {
+  it('undoes the most recent operation first', () => {
+    const stack = new UndoStack()
+    stack.push(createEntry('a'))
+    stack.push(createEntry('b'))
+
+    expect(stack.peek()?.clipIds).toEqual(['b'])
+    expect(stack.pop()?.clipIds).toEqual(['b'])
+    expect(stack.pop()?.clipIds).toEqual(['a'])
+    expect(stack.pop()).toBeUndefined()
+  })
+
+  it('drops the oldest operations when full', () => {
+    const stack = new UndoStack(2)
+    stack.push(createEntry('a'))
+    stack.push(createEntry('b'))
+    stack.push(createEntry('c'))
+
+    expect(stack.size()).toBe(2)
+    expect(stack.pop()?.clipIds).toEqual(['c'])
+    expect(stack.pop()?.clipIds).toEqual(['b'])
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Clip } from '@cq/schemas/clip'
+import { Command } from '@cq/constants'
+import { ClipList, toClipUUID } from '@cq/platforms'
+import { ContentType, Platform } from '@cq/schemas/clip'
+
+import type { ViewerQueueState } from '../viewer-commands'
+import { NamedQueues } from '../named-queues'
+import { getViewerCommandReply, getViewerQueues } from '../viewer-commands'
+
+function createClip(id: string, submitters: string[], overrides: Partial<Clip> = {}): Clip {
+  return {
+    platform: Platform.TWITCH,
+    contentType: ContentType.CLIP,
+    id,
+    url: `https://clips.twitch.tv/${id}`,
+    embedUrl: `https://clips.twitch.tv/embed?clip=${id}`,
+    title: `Clip ${id}`,
+    channel: 'streamer',
+    creator: 'clipper',
+    submitters,
+    ...overrides
+  }
+}
+
+function createState(overrides: Partial<ViewerQueueState> = {}): ViewerQueueState {
+  return {
+    current: null,
+    upcoming: [
+      createClip('a', ['alice']),
+      createClip('b', ['bob']),
+      createClip('c', ['Viewer', 'bob'])
+    ],
+    parked: [],
+    isOpen: true,
+    limit: null,
+    ...overrides
+  }
+}
+
+describe('viewer-commands.ts', () => {
+  describe('getViewerCommandReply', () => {
+    it('reports queue positions of the viewer clips', () => {
+      const state = createState()
+
+      expect(getViewerCommandReply(Command.POSITION, 'viewer', state)).toBe('Your clip is #3 of 3')
+      expect(getViewerCommandReply(Command.POSITION, 'bob', state)).toBe(
+        'Your clips are #2, #3 of 3'
+      )
+      expect(getViewerCommandReply(Command.POSITION, 'nobody', state)).toBe(
+        'You have no clips in the queue'
+      )
+    })
+
+    it('lists the viewer clips', () => {
+      expect(getViewerCommandReply(Command.MINE, 'bob', createState())).toBe(
+        'You have 2 clips in the queue: #2 Clip b, #3 Clip c'
+      )
+    })
+
+    it('limits the number of listed clips', () => {
+      const upcoming = Array.from({ length: 7 }, (_, i) => createClip(`${i}`, ['bob']))
+
+      expect(getViewerCommandReply(Command.MINE, 'bob', createState({ upcoming }))).toMatch(
+        /^You have 7 clips in the queue: .*#5 Clip 4 \(\+2 more\)$/
+      )
+    })
+
+    it('reports the current clip', () => {
+      const current = createClip('now', ['alice'], { title: 'Big Play' })
+
+      expect(getViewerCommandReply(Command.CURRENT, 'viewer', createState({ current }))).toBe(
+        'Now playing: Big Play from streamer (submitted by alice)'
+      )
+      expect(getViewerCommandReply(Command.CURRENT, 'viewer', createState())).toBe(
+        'Nothing is playing right now'
+      )
+    })
+
+    it('reports queue size, limit and status', () => {
+      expect(
+        getViewerCommandReply(Command.SIZE, 'viewer', createState({ limit: 10, isOpen: false }))
+      ).toBe('3 clips in the queue (limit 10), submissions are closed')
+    })
+
+    it('estimates the wait from clip durations', () => {
+      const state = createState({
+        upcoming: [
+          createClip('a', ['alice'], { duration: 300 }),
+          createClip('b', ['bob']),
+          createClip('c', ['viewer'])
+        ]
+      })
+
+      expect(getViewerCommandReply(Command.ETA, 'viewer', state)).toBe(
+        'Your next clip (#3) should play in about 6 minutes'
+      )
+      expect(getViewerCommandReply(Command.ETA, 'alice', state)).toBe('Your clip is up next')
+    })
+
+    describe('with named queues', () => {
+      const later = { id: 'later', name: 'later', isOpen: true, limit: null }
+
+      function createQueues(): NamedQueues {
+        const queues = new NamedQueues(
+          new ClipList(
+            createClip('a', ['alice'], { duration: 120 }),
+            createClip('b', ['bob']),
+            createClip('c', ['viewer'])
+          )
+        )
+        queues.sync([later], 'fifo')
+        queues.move(queues.find(toClipUUID(createClip('c', [])))!, 'later')
+        return queues
+      }
+
+      function createQueueState(queues: NamedQueues): ViewerQueueState {
+        return { ...createState(), ...getViewerQueues(queues) }
+      }
+
+      it('names the queue a moved clip waits in', () => {
+        const state = createQueueState(createQueues())
+
+        expect(getViewerCommandReply(Command.MINE, 'viewer', state)).toBe(
+          'You have 1 clip in the queue: Clip c (#1 in later)'
+        )
+        expect(getViewerCommandReply(Command.POSITION, 'viewer', state)).toBe(
+          'Your clip is #1 in later'
+        )
+        expect(getViewerCommandReply(Command.ETA, 'viewer', state)).toBe(
+          'Your clip is waiting in later, it has no play time yet'
+        )
+        expect(getViewerCommandReply(Command.SIZE, 'viewer', state)).toBe(
+          '2 clips in the queue, submissions are open'
+        )
+      })
+
+      it('describes the queue advancing pulls from', () => {
+        const queues = createQueues()
+        queues.setActive('later')
+        const state = createQueueState(queues)
+
+        expect(getViewerCommandReply(Command.ETA, 'viewer', state)).toBe('Your clip is up next')
+        expect(getViewerCommandReply(Command.POSITION, 'bob', state)).toBe('Your clip is #3 of 3')
+        expect(getViewerCommandReply(Command.ETA, 'bob', state)).toBe(
+          'Your next clip (#3) should play in about 3 minutes'
+        )
+        expect(getViewerCommandReply(Command.SIZE, 'viewer', state)).toBe(
+          '3 clips in the queue, submissions are open'
+        )
+      })
+    })
+  })
+})
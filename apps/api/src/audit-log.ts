@@ -0,0 +1,29 @@
+/**
+ * Audit Log
+ *
+ * Helpers for recording moderator actions, such as the settings diff stored
+ * with each entry.
+ */
+
+import type { SettingsChange } from '@cq/schemas/audit'
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * List the settings that differ between two versions
+ * Objects are compared key by key; arrays and other values are compared as a whole
+ * @param path - Dotted path of the values being compared (empty at the root)
+ */
+export function diffSettings(before: unknown, after: unknown, path = ''): SettingsChange[] {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    return [...keys].flatMap((key) =>
+      diffSettings(before[key], after[key], path ? `${path}.${key}` : key)
+    )
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) return []
+  return [{ path, from: before ?? null, to: after ?? null }]
+}
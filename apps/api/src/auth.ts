@@ -17,6 +17,8 @@ import { TTLCache } from '@cq/utils'
 
 export interface AuthenticatedRequest extends Request {
   user?: AuthenticatedUser
+  /** Hosted channel the request is scoped to (/api/c/:channel), roles are checked against it */
+  broadcaster?: { id: string; login: string }
 }
 
 export type { AuthenticatedUser }
@@ -315,9 +317,13 @@ async function fetchUserData(
   }
 }
 
+// Outside a channel's routes nobody holds a role
+const NO_CHANNEL_ROLES = { isBroadcaster: false, isModerator: false }
+
 /**
  * Middleware: Authenticate user via Twitch OAuth token
  * Reads token from httpOnly cookie set by OAuth flow
+ * Roles are those in the channel of the request (req.broadcaster)
  */
 export function authenticate(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
   // Read token from httpOnly cookie
@@ -332,9 +338,9 @@ export function authenticate(req: AuthenticatedRequest, res: Response, next: Nex
   }
 
   const clientId = process.env.TWITCH_CLIENT_ID
-  const channelName = process.env.TWITCH_CHANNEL_NAME
+  const channelName = req.broadcaster?.login
 
-  if (!clientId || !channelName) {
+  if (!clientId) {
     res.status(500).json({ error: 'Server misconfiguration' })
     return
   }
@@ -352,7 +358,9 @@ export function authenticate(req: AuthenticatedRequest, res: Response, next: Nex
 
       // Fetch role and user data in parallel
       return Promise.all([
-        checkChannelRole(clientId, userData.user_id, channelName, token),
+        channelName
+          ? checkChannelRole(clientId, userData.user_id, channelName, token)
+          : NO_CHANNEL_ROLES,
         fetchUserData(clientId, userData.user_id, token)
       ]).then(([roles, userInfo]) => ({
         ...userData,
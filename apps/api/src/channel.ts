@@ -0,0 +1,3034 @@
+/**
+ * Hosted Channel
+ *
+ * Queue, settings, play log and chat handling of one Twitch channel, with the routes
+ * the server mounts at /api/c/:channel. Every channel keeps its own state, keyed in
+ * the database by broadcaster ID.
+ */
+
+import { createHash } from 'crypto'
+
+import { and, eq } from 'drizzle-orm'
+import express from 'express'
+import { z } from 'zod'
+
+import type { ViewerCommand } from '@cq/constants'
+import type { AuditAction, AuditSource, SettingsChange } from '@cq/schemas/audit'
+import type { CommandName, ReplayCooldown } from '@cq/schemas/settings'
+import type { SubmissionSource } from '@cq/schemas/submissions'
+import { isViewerCommand } from '@cq/constants'
+import {
+  ClipList,
+  KickPlatform,
+  matchTitleFilter,
+  PlayHistory,
+  SoraPlatform,
+  StreamablePlatform,
+  toClipUUID,
+  TwitchPlatform
+} from '@cq/platforms'
+import {
+  advanceQueue,
+  canUndo,
+  clearQueue,
+  jumpToHistoryClip,
+  playClip,
+  previousClip,
+  snapshotClip,
+  undoOperation
+} from '@cq/queue-ops'
+import { AuditLogQuerySchema } from '@cq/schemas/audit'
+import { SessionsQuerySchema } from '@cq/schemas/sessions'
+import { MAIN_QUEUE_ID, REPLAY_SESSION_GAP_HOURS } from '@cq/schemas/settings'
+import { StatsQuerySchema } from '@cq/schemas/stats'
+import { SubmissionAttemptsQuerySchema } from '@cq/schemas/submissions'
+import kick from '@cq/services/kick'
+import sora from '@cq/services/sora'
+import streamable from '@cq/services/streamable'
+import twitch from '@cq/services/twitch'
+
+import type { AuthenticatedRequest } from './auth.js'
+import type { SubmissionResult } from './chat-replies.js'
+import type { ChatUserRoles } from './command-permissions.js'
+import type { AppSettings, Channel, Clip, DbClient, Provider } from './db.js'
+import type {
+  EventSubMessage,
+  EventSubRedemption,
+  EventSubStreamStatus,
+  RedemptionStatus,
+  TwitchEventSubClient
+} from './eventsub.js'
+import type { QueueTimer } from './queue-schedule.js'
+import type { PendingRedemption } from './redemptions.js'
+import type { SubmissionAttemptResult } from './submission-attempts.js'
+import type { UndoEntry } from './undo-stack.js'
+import { diffSettings } from './audit-log.js'
+import {
+  authenticate,
+  clearAllCaches,
+  getCacheStats,
+  requireBroadcaster,
+  requireModerator
+} from './auth.js'
+import { getSubmissionReply } from './chat-replies.js'
+import { CommandCooldowns } from './command-cooldowns.js'
+import { canRunCommand, resolveCommandName } from './command-permissions.js'
+import {
+  blockName,
+  getBlockedClipField,
+  isSubmitterAllowed,
+  unblockName
+} from './content-filters.js'
+import {
+  clips,
+  deleteClip,
+  deleteClipsByStatus,
+  deletePlayLog,
+  deletePlayLogsByClipStatus,
+  deleteSubmissionAttemptsBefore,
+  endSession,
+  getAuditLog,
+  getClip,
+  getClipQueueIds,
+  getClipsByStatus,
+  getLastPlayedAt,
+  getPlayLogs,
+  getQueueStatus,
+  getSessions,
+  getSessionsWindowStart,
+  getStats,
+  getSubmissionAttempts,
+  initSettings,
+  insertAuditLogEntry,
+  insertPlayLog,
+  insertSubmissionAttempt,
+  playLog,
+  PROVIDERS,
+  startSession,
+  updateClipPositions,
+  updateClipQueue,
+  updateClipStatus,
+  updateQueueStatus,
+  updateSettings,
+  upsertClip
+} from './db.js'
+import {
+  asyncHandler,
+  authenticatedLimiter,
+  authFailureLimiter,
+  publicReadLimiter
+} from './middleware.js'
+import { NamedQueues } from './named-queues.js'
+import { toPublicSettings } from './public-settings.js'
+import { getAutoCloseChange, isWithinSchedule, parseDuration } from './queue-schedule.js'
+import { QueueStream } from './queue-stream.js'
+import { getRedemptionStatus, PendingRedemptions } from './redemptions.js'
+import { VersionedState } from './state-version.js'
+import { getAttemptReason, isSubmissionFailure } from './submission-attempts.js'
+import { getUserRateLimitSeconds, SubmissionRateLimits } from './submission-rate-limits.js'
+import { UndoStack } from './undo-stack.js'
+import { getViewerCommandReply, getViewerQueues } from './viewer-commands.js'
+
+/**
+ * Simple async mutex for preventing race conditions
+ */
+class Mutex {
+  private queue: (() => void)[] = []
+  private locked = false
+
+  async acquire(): Promise<() => void> {
+    return new Promise((resolve) => {
+      if (!this.locked) {
+        this.locked = true
+        resolve(() => this.release())
+      } else {
+        this.queue.push(() => resolve(() => this.release()))
+      }
+    })
+  }
+
+  private release(): void {
+    const next = this.queue.shift()
+    if (next) {
+      next()
+    } else {
+      this.locked = false
+    }
+  }
+}
+
+/**
+ * Input validation schemas for API endpoints
+ */
+const SubmitClipSchema = z.object({
+  url: z.string().url().min(1).max(500),
+  submitter: z.string().min(1).max(100)
+})
+
+const ClipIdSchema = z.object({
+  clipId: z.string().min(1).max(200)
+})
+
+const BatchClipIdsSchema = z.object({
+  clipIds: z.array(z.string().min(1).max(200)).min(1).max(100)
+})
+
+const QueueIdSchema = z.object({
+  queueId: z.string().min(1).max(20)
+})
+
+const MoveClipSchema = ClipIdSchema.extend(QueueIdSchema.shape)
+
+const PinClipSchema = ClipIdSchema.extend({
+  pinned: z.boolean().default(true)
+})
+
+const QueueToggleSchema = z.object({
+  // Undo the open or close after this many minutes
+  minutes: z
+    .number()
+    .int()
+    .positive()
+    .max(24 * 60)
+    .optional()
+})
+
+// Responses for refused moves into a named queue
+const MOVE_REFUSALS = {
+  notFound: { status: 404, error: 'QUEUE_NOT_FOUND', message: 'Queue not found' },
+  closed: { status: 409, error: 'QUEUE_CLOSED', message: 'Queue is closed' },
+  full: { status: 409, error: 'QUEUE_FULL', message: 'Queue is full' }
+} as const
+
+const platforms = {
+  twitch: new TwitchPlatform(() => ({
+    id: process.env.TWITCH_CLIENT_ID!,
+    token: process.env.TWITCH_BOT_TOKEN
+  })),
+  kick: new KickPlatform(),
+  sora: new SoraPlatform(),
+  streamable: new StreamablePlatform()
+}
+
+// Keep the submission attempt log to the last few weeks
+const SUBMISSION_ATTEMPT_RETENTION_DAYS = 30
+
+// How often the one-off timer and schedule windows are checked
+const QUEUE_SCHEDULE_INTERVAL_MS = 15 * 1000
+
+/**
+ * What a moderator action affected
+ */
+interface AuditDetails {
+  clipIds?: string[]
+  changes?: SettingsChange[]
+  details?: string | null
+}
+
+/**
+ * Fetch clip from platform with retry logic and exponential backoff
+ * @throws The last error once all attempts failed
+ */
+async function fetchClipWithRetry(
+  platformInstance: { getClip: (url: string) => Promise<Clip> },
+  url: string,
+  maxRetries = 3
+): Promise<Clip> {
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    const timeout = 10000 * (attempt + 1) // 10s, 20s, 30s
+    const backoffDelay = attempt > 0 ? 1000 * Math.pow(2, attempt - 1) : 0 // 0ms, 1s, 2s
+
+    // Wait before retry (except first attempt)
+    if (backoffDelay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, backoffDelay))
+    }
+
+    try {
+      const clip = await Promise.race([
+        platformInstance.getClip(url),
+        new Promise<null>((_, reject) =>
+          setTimeout(() => reject(new Error('Platform API timeout')), timeout)
+        )
+      ])
+
+      if (clip) return clip
+    } catch (error) {
+      const isLastAttempt = attempt === maxRetries - 1
+      const errorMessage = error instanceof Error ? error.message : 'unknown error'
+
+      if (isLastAttempt) {
+        console.log(
+          `[Queue] Failed to fetch clip after ${maxRetries} attempts (${errorMessage}): ${url}`
+        )
+        throw error
+      }
+
+      console.log(
+        `[Queue] Attempt ${attempt + 1}/${maxRetries} failed (${errorMessage}), retrying...`
+      )
+    }
+  }
+
+  throw new Error('Platform returned no clip')
+}
+
+// Submitters without any chat badge (API and redemption submissions)
+const NO_CHAT_ROLES: ChatUserRoles = {
+  isBroadcaster: false,
+  isModerator: false,
+  isVip: false,
+  isSubscriber: false
+}
+
+/**
+ * Options for a clip submission
+ */
+interface SubmissionOptions {
+  /** Where the submission came from (recorded in the attempt log) */
+  source: SubmissionSource
+  /** Chat roles of the submitter, for role rate limit overrides (none by default) */
+  roles?: ChatUserRoles
+  /** Skip moderation and accept while the queue is closed (mods/broadcaster) */
+  autoApprove?: boolean
+  /** Play ahead of regular submissions */
+  priority?: boolean
+  /** Ignore the per-submitter queue limit */
+  isSubmitterLimitExempt?: boolean
+}
+
+/**
+ * A channel hosted by this server
+ */
+export interface HostedChannel {
+  id: string
+  login: string
+  /** Routes of the channel, mounted at /api/c/:channel */
+  router: express.Router
+  handleMessage: (message: EventSubMessage) => Promise<void>
+  handleRedemption: (redemption: EventSubRedemption) => Promise<void>
+  handleStreamStatus: (status: EventSubStreamStatus) => Promise<void>
+  /** Record the stream status without acting on it (the next transition does) */
+  setStreamStatus: (status: EventSubStreamStatus) => void
+  getHealth: () => {
+    stream: { isLive: boolean; startedAt: number | null } | null
+    streamClients: number
+    queueSize: number
+  }
+  /** Stop timers and close stream clients */
+  close: () => void
+}
+
+/**
+ * Load a channel's settings, queue and play history and set up its routes
+ * @param getChatClient - The connected EventSub client, if any (replies and redemptions)
+ */
+export function createChannel(
+  db: DbClient,
+  channel: Channel,
+  getChatClient: () => TwitchEventSubClient | null
+): HostedChannel {
+  // Mutexes for preventing race conditions
+  const clipSubmissionMutex = new Mutex()
+  const queueOperationMutex = new Mutex()
+
+  // Initialize settings from database
+  let settings: AppSettings = initSettings(db, channel.id)
+  console.log(`[Settings] Loaded for ${channel.login}:`, settings)
+
+  // Initialize queue and platform
+  const queue = new ClipList()
+  // Main queue plus the named queues clips can be parked in
+  const namedQueues = new NamedQueues(queue)
+  namedQueues.sync(settings.queue.namedQueues, settings.queue.ordering)
+  const playHistory = new PlayHistory()
+  let currentClip: Clip | null = null
+  let historyPosition = -1 // -1 = at end (queue mode), >= 0 = index in history
+  // Open state is kept in the database so it survives restarts
+  const savedQueueStatus = getQueueStatus(db, channel.id)
+  let isQueueOpen = savedQueueStatus.isOpen
+  let isQueueAutoClosed = savedQueueStatus.isAutoClosed // Closed at the limit, reopens when it drains
+  let isInScheduleWindow = savedQueueStatus.isInScheduleWindow // null = schedule not checked yet
+  let queueTimer: QueueTimer | null =
+    savedQueueStatus.timerAction && savedQueueStatus.timerAt
+      ? { action: savedQueueStatus.timerAction, at: savedQueueStatus.timerAt }
+      : null
+
+  /**
+   * Generate ETag hash from queue state
+   * Used for efficient HTTP caching (304 Not Modified responses)
+   * Includes clip IDs, submitter counts, queue status, and settings for accurate change detection
+   */
+  // Cached ETag for state hash optimization
+  let cachedETag: string | null = null
+
+  // Connected SSE clients (GET /api/c/:channel/queue/stream)
+  const queueStream = new QueueStream()
+  let isBroadcastScheduled = false
+
+  // State version and recent deltas (GET /api/c/:channel/queue?since=<version>)
+  const stateVersion = new VersionedState()
+  let isStateDirty = true
+  let lastBroadcastVersion = stateVersion.version
+
+  /**
+   * Invalidate cached ETag when state changes
+   * Must be called after any state mutation
+   */
+  function invalidateETag() {
+    cachedETag = null
+    isStateDirty = true
+    scheduleStateBroadcast()
+  }
+
+  /**
+   * Record pending state changes as a new version
+   * Lazy so a burst of mutations is diffed once
+   */
+  function syncStateVersion() {
+    if (!isStateDirty) return
+    isStateDirty = false
+    stateVersion.update(buildQueueState())
+  }
+
+  /**
+   * Push new state to stream clients
+   * Deferred so several mutations in the same tick produce a single event
+   * Sends a `patch` event when possible, falling back to a full `state` event
+   */
+  function scheduleStateBroadcast() {
+    if (isBroadcastScheduled) return
+    isBroadcastScheduled = true
+
+    setImmediate(() => {
+      // Opening or closing at the limit lands in this same broadcast
+      checkQueueLimit()
+      isBroadcastScheduled = false
+      syncStateVersion()
+      if (stateVersion.version === lastBroadcastVersion) return
+
+      const id = String(stateVersion.version)
+      const delta = stateVersion.changesSince(lastBroadcastVersion)
+      if (delta) {
+        queueStream.broadcast('patch', id, delta)
+      } else {
+        queueStream.broadcast('state', id, getQueueState())
+      }
+      lastBroadcastVersion = stateVersion.version
+    })
+  }
+
+  function generateStateHash(): string {
+    // Return cached ETag if available
+    if (cachedETag) return cachedETag
+
+    const state = {
+      current: currentClip?.id || null,
+      currentSubmitters: currentClip?.submitters.length || 0,
+      upcoming: queue.toArray().map((c) => ({
+        id: c.id,
+        submitters: c.submitters.length,
+        position: c.position
+      })),
+      queues: namedQueues.toState().map((q) => ({
+        ...q,
+        clips: q.clips.map((c) => ({
+          id: c.id,
+          submitters: c.submitters.length,
+          position: c.position
+        }))
+      })),
+      activeQueueId: namedQueues.activeQueueId,
+      playHistory: playHistory
+        .toArray()
+        .map((e) => ({ id: e.id, clipId: e.clip.id, playedAt: e.playedAt.getTime() })),
+      isOpen: isQueueOpen,
+      openTimer: getOpenTimerState(),
+      stream: getStreamState(),
+      settings: toPublicSettings(settings) // Include settings in hash for change detection
+    }
+    // Use full SHA256 hash (64 hex chars) to minimize collision risk
+    cachedETag = createHash('sha256').update(JSON.stringify(state)).digest('hex')
+    return cachedETag
+  }
+
+  /**
+   * Get current queue state with its version
+   * Used for API responses to avoid race conditions
+   */
+  function getQueueState() {
+    syncStateVersion()
+    return { ...buildQueueState(), version: stateVersion.version }
+  }
+
+  function buildQueueState() {
+    return {
+      current: currentClip,
+      upcoming: queue.toArray(),
+      queues: namedQueues.toState(),
+      activeQueueId: namedQueues.activeQueueId, // Queue advancing pulls from
+      playHistory: playHistory.toArray(),
+      historyPosition, // Navigation state
+      isOpen: isQueueOpen,
+      openTimer: getOpenTimerState(), // Pending one-off open or close
+      stream: getStreamState(), // Whether the channel is live
+      settings: toPublicSettings(settings) // Public part of the settings for client synchronization
+    }
+  }
+
+  // Per-user and duplicate URL submission windows
+  const submissionRateLimits = new SubmissionRateLimits()
+  const commandCooldowns = new CommandCooldowns()
+  const undoStack = new UndoStack()
+  const pendingRedemptions = new PendingRedemptions()
+
+  // Restore queue and play history from database
+  function restoreQueueFromDatabase() {
+    const approvedClips = getClipsByStatus(db, channel.id, 'approved')
+    const playLogs = getPlayLogs(db, channel.id, { limit: 50, order: 'asc' }) as Array<{
+      id: number
+      clip: Clip
+      playedAt: Date
+    }>
+
+    // Clips of named queues that no longer exist go back to the main queue
+    const queueIds = getClipQueueIds(db, channel.id)
+    for (const clip of approvedClips) {
+      const clipId = toClipUUID(clip)
+      const namedQueue = namedQueues.get(queueIds.get(clipId) ?? MAIN_QUEUE_ID)
+      if (namedQueue) {
+        namedQueue.add(clip)
+      } else {
+        delete clip.position
+        queue.add(clip)
+        updateClipQueue(db, channel.id, clipId, MAIN_QUEUE_ID)
+      }
+    }
+
+    for (const entry of playLogs) {
+      playHistory.add(entry)
+    }
+
+    console.log(`[Queue] Restored ${approvedClips.length} clips for ${channel.login}`)
+    console.log(`[PlayHistory] Restored ${playLogs.length} play log entries for ${channel.login}`)
+
+    // Invalidate ETag after restoring state
+    invalidateETag()
+  }
+
+  restoreQueueFromDatabase()
+
+  /**
+   * Save the manual positions of every clip waiting in a queue
+   */
+  function saveClipPositions(list: ClipList) {
+    updateClipPositions(
+      db,
+      channel.id,
+      new Map(list.toArray().map((clip) => [toClipUUID(clip), clip.position ?? null]))
+    )
+  }
+
+  /**
+   * Undo the most recent destructive queue operation
+   * Refunded channel points of rejected clips stay refunded
+   * @returns The undone operation, 'empty' if there is none, or 'stale' if another
+   * clip plays since it advanced (the operation is dropped)
+   */
+  async function undoLastOperation(): Promise<UndoEntry | 'empty' | 'stale'> {
+    const entry = undoStack.pop()
+    if (!entry) return 'empty'
+
+    // Clips of deleted named queues go back to the main queue
+    const changes = entry.changes.map(({ queueId, rollback }) => {
+      const list = namedQueues.get(queueId)
+      return list ? { queueId, rollback, list } : { queueId: MAIN_QUEUE_ID, rollback, list: queue }
+    })
+    const isStale = changes.some(
+      ({ rollback, list }) =>
+        !canUndo(
+          { current: currentClip, queue: list, playHistory, historyPosition },
+          rollback,
+          toClipUUID
+        )
+    )
+    if (isStale) return 'stale'
+
+    for (const { queueId, rollback, list } of changes) {
+      const state = { current: currentClip, queue: list, playHistory, historyPosition }
+      await undoOperation(
+        state,
+        {
+          updateClipStatus: (clipId, status) => updateClipStatus(db, channel.id, clipId, status),
+          restoreClip: (clip) => {
+            const clipId = toClipUUID(clip)
+            upsertClip(db, channel.id, clipId, clip)
+            updateClipStatus(db, channel.id, clipId, 'approved')
+            if (queueId !== MAIN_QUEUE_ID) updateClipQueue(db, channel.id, clipId, queueId)
+          },
+          deletePlayLog: (playLogId) => deletePlayLog(db, channel.id, playLogId)
+        },
+        rollback,
+        toClipUUID
+      )
+      currentClip = state.current
+      historyPosition = state.historyPosition
+      saveClipPositions(list)
+    }
+
+    invalidateETag()
+    return entry
+  }
+
+  function pruneSubmissionAttempts() {
+    const cutoff = new Date(Date.now() - SUBMISSION_ATTEMPT_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    const deleted = deleteSubmissionAttemptsBefore(db, channel.id, cutoff)
+    if (deleted > 0) {
+      console.log(
+        `[Submissions] Pruned ${deleted} attempts older than ${SUBMISSION_ATTEMPT_RETENTION_DAYS} days`
+      )
+    }
+  }
+
+  pruneSubmissionAttempts()
+  const pruneInterval = setInterval(pruneSubmissionAttempts, 24 * 60 * 60 * 1000).unref()
+
+  /**
+   * Open or close the queue and save it to the database
+   * @param options.timer - Replaces the pending one-off timer (undefined keeps it)
+   * @param options.isAutoClosed - Whether the limit closed the queue, so draining may reopen it
+   */
+  function setQueueOpen(
+    isOpen: boolean,
+    options: { timer?: QueueTimer | null; isAutoClosed?: boolean } = {}
+  ) {
+    isQueueOpen = isOpen
+    isQueueAutoClosed = options.isAutoClosed ?? false
+    if (options.timer !== undefined) {
+      queueTimer = options.timer
+    }
+    updateQueueStatus(db, channel.id, {
+      isOpen,
+      isAutoClosed: isQueueAutoClosed,
+      timerAction: queueTimer?.action ?? null,
+      timerAt: queueTimer?.at ?? null
+    })
+    invalidateETag()
+  }
+
+  /**
+   * Timer that undoes opening or closing the queue by hand
+   * @param isOpen - Whether the queue was opened
+   * @param durationMs - How long until it is undone (null = no timer)
+   */
+  function createQueueTimer(isOpen: boolean, durationMs: number | null): QueueTimer | null {
+    if (durationMs === null) return null
+    return { action: isOpen ? 'close' : 'open', at: new Date(Date.now() + durationMs) }
+  }
+
+  function getOpenTimerState() {
+    return queueTimer && { action: queueTimer.action, at: queueTimer.at.getTime() }
+  }
+
+  /**
+   * Close the queue at its limit and reopen it once it drains (see autoClose settings)
+   */
+  function checkQueueLimit() {
+    const change = getAutoCloseChange(
+      settings.queue.autoClose,
+      settings.queue.limit,
+      queue.size(),
+      {
+        isOpen: isQueueOpen,
+        isAutoClosed: isQueueAutoClosed
+      }
+    )
+    if (change === 'close') {
+      setQueueOpen(false, { isAutoClosed: true })
+      console.log(`[Queue] Queue closed at its limit (${settings.queue.limit})`)
+    } else if (change === 'open') {
+      setQueueOpen(true)
+      console.log('[Queue] Queue reopened below its limit')
+    }
+  }
+
+  /**
+   * Fire a due one-off timer, then open or close the queue as schedule windows
+   * start and end. Windows only act when they start or end, so opening or closing
+   * by hand in between holds until the next one.
+   */
+  function checkQueueSchedule() {
+    const now = new Date()
+    if (queueTimer && queueTimer.at <= now) {
+      const isOpen = queueTimer.action === 'open'
+      setQueueOpen(isOpen, { timer: null })
+      console.log(`[Queue] Queue ${isOpen ? 'opened' : 'closed'} by timer`)
+    }
+
+    const { schedule } = settings.queue
+    const isInWindow = schedule.enabled ? isWithinSchedule(schedule, now) : null
+    if (isInWindow === isInScheduleWindow) return
+
+    isInScheduleWindow = isInWindow
+    updateQueueStatus(db, channel.id, { isInScheduleWindow })
+    if (isInWindow !== null && isInWindow !== isQueueOpen) {
+      setQueueOpen(isInWindow, { timer: null })
+      console.log(`[Queue] Queue ${isInWindow ? 'opened' : 'closed'} by schedule`)
+    }
+  }
+
+  checkQueueSchedule()
+  const scheduleInterval = setInterval(checkQueueSchedule, QUEUE_SCHEDULE_INTERVAL_MS).unref()
+
+  /**
+   * Clear the main queue (clips parked in named queues are kept), so it can be undone
+   * @returns UUIDs of the cleared clips
+   */
+  async function clearMainQueue(): Promise<string[]> {
+    const clearedClipIds = queue.toArray().map(toClipUUID)
+    const rollback = await clearQueue(
+      { current: currentClip, queue, playHistory, historyPosition },
+      {
+        updateClipStatus: (clipId, status) => updateClipStatus(db, channel.id, clipId, status),
+        deleteClipsByStatus: (status) => deleteClipsByStatus(db, channel.id, status, MAIN_QUEUE_ID),
+        insertPlayLog: (clipId, playedAt) => insertPlayLog(db, channel.id, clipId, playedAt),
+        deletePlayLogsByClipStatus: (status) => deletePlayLogsByClipStatus(db, channel.id, status)
+      }
+    )
+
+    if (clearedClipIds.length > 0) {
+      undoStack.push({
+        action: 'clear',
+        changes: [{ queueId: MAIN_QUEUE_ID, rollback }],
+        clipIds: clearedClipIds
+      })
+    }
+    invalidateETag()
+    return clearedClipIds
+  }
+
+  // Whether the channel is streaming (null = not known yet)
+  let streamStatus: EventSubStreamStatus | null = null
+
+  function getStreamState() {
+    return (
+      streamStatus && {
+        isLive: streamStatus.isLive,
+        startedAt: streamStatus.startedAt?.getTime() ?? null
+      }
+    )
+  }
+
+  /**
+   * Follow the stream going live or offline, opening, closing or clearing the queue
+   * as configured (see streamEvents settings)
+   */
+  async function handleStreamStatus(status: EventSubStreamStatus): Promise<void> {
+    const wasLive = streamStatus?.isLive
+    streamStatus = status
+    invalidateETag()
+    if (status.isLive === wasLive) return
+
+    console.log(`[Stream] Stream went ${status.isLive ? 'live' : 'offline'}`)
+    if (status.isLive) {
+      startSession(db, channel.id, 'stream', status.startedAt ?? new Date())
+    } else {
+      endSession(db, channel.id)
+    }
+
+    const { streamEvents } = settings.queue
+    if (status.isLive && streamEvents.openOnOnline && !isQueueOpen) {
+      setQueueOpen(true, { timer: null })
+      console.log('[Stream] Queue opened for the stream')
+    }
+    if (!status.isLive && streamEvents.closeOnOffline && isQueueOpen) {
+      setQueueOpen(false, { timer: null })
+      console.log('[Stream] Queue closed after the stream')
+    }
+    if (!status.isLive && streamEvents.clearOnOffline) {
+      const clearedClipIds = await clearMainQueue()
+      console.log(`[Stream] Cleared ${clearedClipIds.length} clips after the stream`)
+    }
+  }
+
+  /**
+   * Record a moderator action in the audit log, never failing the action itself
+   */
+  function recordAudit(
+    actor: string,
+    source: AuditSource,
+    action: AuditAction,
+    { clipIds = [], changes = [], details = null }: AuditDetails = {}
+  ): void {
+    try {
+      insertAuditLogEntry(db, channel.id, { actor, source, action, clipIds, changes, details })
+    } catch {
+      // Already logged by the database layer
+    }
+  }
+
+  /**
+   * Record an action taken from the web app by the authenticated user
+   */
+  function auditRequest(req: AuthenticatedRequest, action: AuditAction, details?: AuditDetails) {
+    recordAudit(req.user?.username ?? 'unknown', 'web', action, details)
+  }
+
+  /**
+   * Handle chat command
+   */
+  async function handleChatCommand(
+    message: { username: string },
+    command: CommandName,
+    args: string[]
+  ): Promise<void> {
+    console.log(`[Command] ${message.username} executed: ${command} ${args.join(' ')}`)
+
+    // Clips the command affected and settings before it ran, for the audit log
+    const clipIds: string[] = []
+    const settingsBefore = structuredClone(settings)
+
+    switch (command) {
+      case 'open':
+      case 'close': {
+        // Optional duration, e.g. "!cq open 30m" closes the queue again after 30 minutes
+        const durationMs = args[0] ? parseDuration(args[0]) : null
+        if (args[0] && durationMs === null) {
+          console.log(`[Command] Invalid duration: ${args[0]}`)
+          break
+        }
+        const isOpen = command === 'open'
+        setQueueOpen(isOpen, { timer: createQueueTimer(isOpen, durationMs) })
+        console.log(
+          `[Command] Queue ${isOpen ? 'opened' : 'closed'} by ${message.username}` +
+            (args[0] ? ` for ${args[0]}` : '')
+        )
+        break
+      }
+
+      case 'clear': {
+        try {
+          clipIds.push(...(await clearMainQueue()))
+          console.log(`[Command] Queue cleared by ${message.username}`)
+        } catch (error) {
+          console.error(`[Command] Failed to clear queue: ${error}`)
+        }
+        break
+      }
+
+      case 'setlimit': {
+        if (!args[0]) {
+          console.log(`[Command] No limit specified`)
+          break
+        }
+        const limit = parseInt(args[0], 10)
+        if (isNaN(limit) || limit < 1) {
+          console.log(`[Command] Invalid limit: ${args[0]}`)
+          break
+        }
+        settings.queue.limit = limit
+        updateSettings(db, channel.id, settings)
+        console.log(`[Command] Queue limit set to ${limit} by ${message.username}`)
+        invalidateETag()
+        break
+      }
+
+      case 'removelimit':
+        settings.queue.limit = null
+        updateSettings(db, channel.id, settings)
+        console.log(`[Command] Queue limit removed by ${message.username}`)
+        invalidateETag()
+        break
+
+      case 'setuserlimit': {
+        if (!args[0]) {
+          console.log(`[Command] No user limit specified`)
+          break
+        }
+        // 0 removes the limit
+        const userLimit = parseInt(args[0], 10)
+        if (isNaN(userLimit) || userLimit < 0) {
+          console.log(`[Command] Invalid user limit: ${args[0]}`)
+          break
+        }
+        settings.queue.maxPerSubmitter = userLimit === 0 ? null : userLimit
+        updateSettings(db, channel.id, settings)
+        console.log(
+          userLimit === 0
+            ? `[Command] Per-submitter limit removed by ${message.username}`
+            : `[Command] Per-submitter limit set to ${userLimit} by ${message.username}`
+        )
+        invalidateETag()
+        break
+      }
+
+      case 'next': {
+        try {
+          if (currentClip) clipIds.push(toClipUUID(currentClip))
+          const state = {
+            current: currentClip,
+            queue: namedQueues.nextPlaybackQueue(),
+            playHistory,
+            historyPosition
+          }
+          const queueId = namedQueues.activeQueueId
+          const rollback = await advanceQueue(
+            state,
+            {
+              updateClipStatus: (clipId, status) =>
+                updateClipStatus(db, channel.id, clipId, status),
+              deleteClipsByStatus: (status) => deleteClipsByStatus(db, channel.id, status),
+              insertPlayLog: (clipId, playedAt) => insertPlayLog(db, channel.id, clipId, playedAt),
+              deletePlayLogsByClipStatus: (status) =>
+                deletePlayLogsByClipStatus(db, channel.id, status)
+            },
+            toClipUUID
+          )
+          currentClip = state.current
+          historyPosition = state.historyPosition
+          if (rollback) {
+            undoStack.push({
+              action: 'next',
+              changes: [{ queueId, rollback }],
+              clipIds: [...clipIds]
+            })
+          }
+
+          // Broadcast change
+          console.log(`[Command] Advanced to next clip by ${message.username}`)
+          invalidateETag()
+        } catch (error) {
+          console.error(`[Command] Failed to advance to next clip: ${error}`)
+        }
+        break
+      }
+
+      case 'prev': {
+        if (currentClip) clipIds.push(toClipUUID(currentClip))
+        const state = { current: currentClip, queue, playHistory, historyPosition }
+        await previousClip(state)
+        currentClip = state.current
+        historyPosition = state.historyPosition
+
+        // Broadcast change
+        console.log(`[Command] Went to previous clip by ${message.username}`)
+        invalidateETag()
+        break
+      }
+
+      case 'undo': {
+        try {
+          const result = await undoLastOperation()
+          if (typeof result === 'string') {
+            console.log(`[Command] Nothing to undo for ${message.username} (${result})`)
+            break
+          }
+          clipIds.push(...result.clipIds)
+          console.log(`[Command] Undid ${result.action} by ${message.username}`)
+        } catch (error) {
+          console.error(`[Command] Failed to undo: ${error}`)
+        }
+        break
+      }
+
+      case 'removebysubmitter': {
+        const submitter = args[0]?.toLowerCase()
+        if (!submitter) {
+          console.log(`[Command] No submitter specified`)
+          break
+        }
+
+        const clips = namedQueues.allClips()
+        let removedCount = 0
+
+        for (const clip of clips) {
+          if (clip.submitters.some((s) => s.toLowerCase() === submitter)) {
+            namedQueues.find(toClipUUID(clip))?.list.remove(clip)
+            updateClipStatus(db, channel.id, toClipUUID(clip), 'rejected')
+            clipIds.push(toClipUUID(clip))
+            removedCount++
+          }
+        }
+
+        console.log(
+          `[Command] Removed ${removedCount} clips by ${submitter} (requested by ${message.username})`
+        )
+        if (removedCount > 0) invalidateETag()
+        break
+      }
+
+      case 'ban':
+      case 'unban': {
+        const username = args[0]?.replace(/^@/, '').toLowerCase()
+        if (!username) {
+          console.log(`[Command] No user specified`)
+          break
+        }
+
+        const submitters =
+          command === 'ban'
+            ? blockName(settings.queue.filters.submitters, username)
+            : unblockName(settings.queue.filters.submitters, username)
+        if (!submitters) {
+          console.log(
+            `[Command] ${username} is already ${command === 'ban' ? 'banned' : 'unbanned'}`
+          )
+          break
+        }
+
+        settings.queue.filters.submitters = submitters
+        updateSettings(db, channel.id, settings)
+        console.log(
+          `[Command] ${username} ${command === 'ban' ? 'banned' : 'unbanned'} from submitting clips by ${message.username}`
+        )
+        invalidateETag()
+        break
+      }
+
+      case 'removebyplatform': {
+        const platformArg = args[0]?.toLowerCase()
+        if (!platformArg || (platformArg !== 'twitch' && platformArg !== 'kick')) {
+          console.log(`[Command] Invalid platform: ${args[0]}`)
+          break
+        }
+
+        const clips = namedQueues.allClips()
+        let removedCount = 0
+
+        for (const clip of clips) {
+          if (clip.platform.toLowerCase() === platformArg) {
+            namedQueues.find(toClipUUID(clip))?.list.remove(clip)
+            updateClipStatus(db, channel.id, toClipUUID(clip), 'rejected')
+            clipIds.push(toClipUUID(clip))
+            removedCount++
+          }
+        }
+
+        console.log(
+          `[Command] Removed ${removedCount} ${platformArg} clips (requested by ${message.username})`
+        )
+        if (removedCount > 0) invalidateETag()
+        break
+      }
+
+      case 'enableplatform': {
+        const arg = args[0]?.toLowerCase()
+        if (!arg) {
+          console.log(`[Command] Missing provider argument`)
+          break
+        }
+
+        // Check if it's a provider (platform:contentType) or just a platform
+        const allProviders = PROVIDERS as readonly string[]
+        if (arg.includes(':')) {
+          // Single provider
+          if (!allProviders.includes(arg)) {
+            console.log(`[Command] Invalid provider: ${arg}`)
+            break
+          }
+          if (!settings.queue.providers.includes(arg as Provider)) {
+            settings.queue.providers.push(arg as Provider)
+            updateSettings(db, channel.id, settings)
+            console.log(`[Command] Enabled ${arg} provider (requested by ${message.username})`)
+            invalidateETag()
+          } else {
+            console.log(`[Command] ${arg} provider already enabled`)
+          }
+        } else {
+          // Platform - enable all providers for this platform
+          const platformProviders = allProviders.filter((p) => p.startsWith(`${arg}:`))
+          if (platformProviders.length === 0) {
+            console.log(`[Command] Invalid platform: ${arg}`)
+            break
+          }
+          let enabled = 0
+          for (const provider of platformProviders) {
+            if (!settings.queue.providers.includes(provider as Provider)) {
+              settings.queue.providers.push(provider as Provider)
+              enabled++
+            }
+          }
+          if (enabled > 0) {
+            updateSettings(db, channel.id, settings)
+            console.log(
+              `[Command] Enabled ${enabled} ${arg} providers (requested by ${message.username})`
+            )
+            invalidateETag()
+          } else {
+            console.log(`[Command] All ${arg} providers already enabled`)
+          }
+        }
+        break
+      }
+
+      case 'disableplatform': {
+        const arg = args[0]?.toLowerCase()
+        if (!arg) {
+          console.log(`[Command] Missing provider argument`)
+          break
+        }
+
+        // Check if it's a provider (platform:contentType) or just a platform
+        const allProviders = PROVIDERS as readonly string[]
+        if (arg.includes(':')) {
+          // Single provider
+          if (!allProviders.includes(arg)) {
+            console.log(`[Command] Invalid provider: ${arg}`)
+            break
+          }
+          const index = settings.queue.providers.indexOf(arg as Provider)
+          if (index !== -1) {
+            settings.queue.providers.splice(index, 1)
+            updateSettings(db, channel.id, settings)
+            console.log(`[Command] Disabled ${arg} provider (requested by ${message.username})`)
+            invalidateETag()
+          } else {
+            console.log(`[Command] ${arg} provider already disabled`)
+          }
+        } else {
+          // Platform - disable all providers for this platform
+          const platformProviders = allProviders.filter((p) => p.startsWith(`${arg}:`))
+          if (platformProviders.length === 0) {
+            console.log(`[Command] Invalid platform: ${arg}`)
+            break
+          }
+          let disabled = 0
+          for (const provider of platformProviders) {
+            const index = settings.queue.providers.indexOf(provider as Provider)
+            if (index !== -1) {
+              settings.queue.providers.splice(index, 1)
+              disabled++
+            }
+          }
+          if (disabled > 0) {
+            updateSettings(db, channel.id, settings)
+            console.log(
+              `[Command] Disabled ${disabled} ${arg} providers (requested by ${message.username})`
+            )
+            invalidateETag()
+          } else {
+            console.log(`[Command] All ${arg} providers already disabled`)
+          }
+        }
+        break
+      }
+
+      case 'enableautomod':
+        settings.queue.hasAutoModerationEnabled = true
+        updateSettings(db, channel.id, settings)
+        console.log(`[Command] Auto-moderation enabled by ${message.username}`)
+        invalidateETag()
+        break
+
+      case 'disableautomod':
+        settings.queue.hasAutoModerationEnabled = false
+        updateSettings(db, channel.id, settings)
+        console.log(`[Command] Auto-moderation disabled by ${message.username}`)
+        invalidateETag()
+        break
+
+      case 'purgecache':
+        clearAllCaches()
+        console.log(`[Command] Authentication caches purged by ${message.username}`)
+        break
+
+      case 'purgehistory':
+        playHistory.clear()
+        historyPosition = -1
+        deletePlayLogsByClipStatus(db, channel.id, 'played')
+        deleteClipsByStatus(db, channel.id, 'played')
+        console.log(`[Command] Play history purged by ${message.username}`)
+        invalidateETag()
+        break
+
+      case 'session': {
+        const action = args[0]?.toLowerCase()
+        if (action === 'start') {
+          const sessionId = startSession(db, channel.id, 'manual')
+          console.log(`[Command] Session ${sessionId} started by ${message.username}`)
+        } else if (action === 'end') {
+          const sessionId = endSession(db, channel.id)
+          console.log(
+            sessionId === null
+              ? '[Command] No session to end'
+              : `[Command] Session ${sessionId} ended by ${message.username}`
+          )
+        } else {
+          console.log(`[Command] Invalid session action: ${args[0] ?? ''}`)
+        }
+        break
+      }
+
+      default:
+        console.log(`[Command] Unknown command: ${command}`)
+        break
+    }
+
+    recordAudit(message.username, 'chat', command, {
+      clipIds,
+      changes: diffSettings(settingsBefore, settings),
+      details: args.join(' ') || null
+    })
+  }
+
+  /**
+   * Handle a viewer command by replying in chat
+   */
+  async function handleViewerCommand(message: EventSubMessage, command: ViewerCommand) {
+    const reply = getViewerCommandReply(command, message.username, {
+      current: currentClip,
+      ...getViewerQueues(namedQueues),
+      isOpen: isQueueOpen,
+      limit: settings.queue.limit
+    })
+
+    console.log(`[Command] ${message.username} executed viewer command: ${command}`)
+    await getChatClient()?.sendChatMessage(channel.id, reply, message.messageId || undefined)
+  }
+
+  /**
+   * Check whether a clip was played within the replay cooldown window
+   */
+  function wasPlayedRecently(clipId: string, cooldown: ReplayCooldown): boolean {
+    if (cooldown.mode === 'off') return false
+
+    const lastPlayedAt = getLastPlayedAt(db, channel.id, clipId)
+    if (!lastPlayedAt) return false
+
+    if (cooldown.mode === 'hours') {
+      return Date.now() - lastPlayedAt.getTime() < cooldown.length * 60 * 60 * 1000
+    }
+    const windowStart = getSessionsWindowStart(
+      db,
+      channel.id,
+      cooldown.length,
+      REPLAY_SESSION_GAP_HOURS * 60 * 60
+    )
+    return !windowStart || lastPlayedAt >= windowStart
+  }
+
+  /**
+   * Handle clip submission from chat, redemptions or the API
+   * Every attempt is recorded in the submission attempt log
+   * @returns Outcome to reply with, or null if the submission failed (invalid URL, fetch error, ...)
+   */
+  async function handleClipSubmission(
+    url: string,
+    submitter: string,
+    options: SubmissionOptions
+  ): Promise<SubmissionResult | null> {
+    const result = await processClipSubmission(url, submitter, options)
+    recordSubmissionAttempt(url, submitter, options.source, result)
+    return isSubmissionFailure(result) ? null : result
+  }
+
+  /**
+   * Record a submission attempt, never failing the submission itself
+   */
+  function recordSubmissionAttempt(
+    url: string,
+    submitter: string,
+    source: SubmissionSource,
+    result: SubmissionAttemptResult
+  ): void {
+    try {
+      const isFailure = isSubmissionFailure(result)
+      insertSubmissionAttempt(db, channel.id, {
+        submitter,
+        url,
+        source,
+        outcome: result.outcome,
+        reason: getAttemptReason(result),
+        title: isFailure ? null : (result.variables.title ?? null),
+        clipId: isFailure ? null : (result.clipId ?? null)
+      })
+    } catch {
+      // Already logged by the database layer
+    }
+  }
+
+  /**
+   * Check and queue a submitted clip
+   * Uses mutex to prevent race conditions on duplicate submissions
+   */
+  async function processClipSubmission(
+    url: string,
+    submitter: string,
+    {
+      roles = NO_CHAT_ROLES,
+      autoApprove = false,
+      priority = false,
+      isSubmitterLimitExempt = false
+    }: SubmissionOptions
+  ): Promise<SubmissionAttemptResult> {
+    const release = await clipSubmissionMutex.acquire()
+    try {
+      const { rateLimits, filters } = settings.queue
+
+      // Submitter allow/deny lists
+      if (!isSubmitterAllowed(filters, submitter)) {
+        console.log(`[Queue] Submitter ${submitter} is blocked, ignoring clip`)
+        return { outcome: 'submitterBlocked', variables: { user: submitter } }
+      }
+
+      // Duplicate URL protection (prevent processing same URL multiple times within the window)
+      if (submissionRateLimits.isDuplicateUrl(url, rateLimits.duplicateUrlSeconds)) {
+        console.log(
+          `[Queue] Duplicate URL submitted within ${rateLimits.duplicateUrlSeconds}s window, ignoring: ${url}`
+        )
+        return {
+          outcome: 'duplicateUrl',
+          reason: `Same URL submitted within ${rateLimits.duplicateUrlSeconds}s`
+        }
+      }
+
+      // Per-user rate limiting (prevent spam)
+      const seconds = submissionRateLimits.useUser(
+        submitter,
+        getUserRateLimitSeconds(rateLimits, roles)
+      )
+      if (seconds > 0) {
+        console.log(`[Queue] Rate limit: ${submitter} submitted too recently`)
+        return { outcome: 'rateLimited', variables: { user: submitter, seconds } }
+      }
+
+      // Check if queue is open
+      if (!isQueueOpen && !autoApprove) {
+        console.log(`[Queue] Queue closed, ignoring clip from ${submitter}`)
+        return { outcome: 'queueClosed', variables: { user: submitter } }
+      }
+
+      // Detect platform and fetch clip data with timeout (use platform validators)
+      let platformInstance
+      if (kick.getClipIdFromUrl(url)) {
+        platformInstance = platforms.kick
+      } else if (sora.getPostIdFromUrl(url)) {
+        platformInstance = platforms.sora
+      } else if (streamable.getVideoIdFromUrl(url)) {
+        platformInstance = platforms.streamable
+      } else if (twitch.getContentTypeFromUrl(url)) {
+        platformInstance = platforms.twitch
+      } else {
+        console.log(`[Queue] Invalid URL format: ${url}`)
+        return { outcome: 'invalidUrl', reason: 'Unsupported URL' }
+      }
+      // Fetch clip with retry logic (3 attempts with exponential backoff)
+      let clip: Clip
+      try {
+        clip = await fetchClipWithRetry(platformInstance, url)
+      } catch (error) {
+        return {
+          outcome: 'fetchFailed',
+          reason: error instanceof Error ? error.message : 'Unknown error'
+        }
+      }
+
+      const variables = { user: submitter, title: clip.title }
+      const clipId = toClipUUID(clip)
+
+      // Check if provider (platform:contentType) is enabled in settings
+      const provider = `${clip.platform}:${clip.contentType}` as Provider
+      if (!settings.queue.providers.includes(provider)) {
+        console.log(`[Queue] Provider ${provider} is disabled, ignoring clip from ${submitter}`)
+        return { outcome: 'providerDisabled', variables: { ...variables, provider } }
+      }
+
+      // Sora cameo filtering: check allowed cameos list (case-insensitive)
+      if (provider === 'sora:cameo' && settings.queue.sora.allowedCameos.length > 0) {
+        const clipCameos = clip.cameos || []
+        const allowedCameos = settings.queue.sora.allowedCameos.map((c) => c.toLowerCase())
+        const hasMatchingCameo = clipCameos.some((cameo) => allowedCameos.includes(cameo))
+
+        if (!hasMatchingCameo) {
+          console.log(
+            `[Queue] Sora cameo not in allowed list, ignoring clip from ${submitter} (cameos: ${clipCameos.join(', ')})`
+          )
+          return { outcome: 'cameoNotAllowed', variables }
+        }
+      }
+
+      // Per-provider duration limits (playable length after the start timestamp)
+      const durationLimit = settings.queue.durationLimits[provider]
+      if (durationLimit && clip.duration !== undefined) {
+        const playableSeconds = clip.duration - (clip.timestamp ?? 0)
+        if (durationLimit.min !== null && playableSeconds < durationLimit.min) {
+          console.log(
+            `[Queue] Clip is too short (${playableSeconds}s < ${durationLimit.min}s), ignoring clip from ${submitter}`
+          )
+          return { outcome: 'tooShort', variables: { ...variables, limit: durationLimit.min } }
+        }
+        if (durationLimit.max !== null && playableSeconds > durationLimit.max) {
+          console.log(
+            `[Queue] Clip is too long (${playableSeconds}s > ${durationLimit.max}s), ignoring clip from ${submitter}`
+          )
+          return { outcome: 'tooLong', variables: { ...variables, limit: durationLimit.max } }
+        }
+      }
+
+      // Clip age, view count and language thresholds (unknown values pass)
+      const { maxClipAgeDays, minViewCount, allowedLanguages } = settings.queue
+      if (maxClipAgeDays !== null && clip.createdAt) {
+        const ageDays = (Date.now() - new Date(clip.createdAt).getTime()) / (24 * 60 * 60 * 1000)
+        if (ageDays > maxClipAgeDays) {
+          console.log(
+            `[Queue] Clip is older than ${maxClipAgeDays} days, ignoring clip from ${submitter}`
+          )
+          return { outcome: 'tooOld', variables: { ...variables, limit: maxClipAgeDays } }
+        }
+      }
+      if (minViewCount !== null && clip.viewCount !== undefined && clip.viewCount < minViewCount) {
+        console.log(
+          `[Queue] Clip has ${clip.viewCount} views (minimum ${minViewCount}), ignoring clip from ${submitter}`
+        )
+        return { outcome: 'tooFewViews', variables: { ...variables, limit: minViewCount } }
+      }
+      if (
+        allowedLanguages.length > 0 &&
+        clip.language &&
+        !allowedLanguages.includes(clip.language.toLowerCase())
+      ) {
+        console.log(
+          `[Queue] Clip language ${clip.language} is not allowed, ignoring clip from ${submitter}`
+        )
+        return { outcome: 'languageNotAllowed', variables }
+      }
+
+      // Channel, creator and category allow/deny lists
+      const blockedField = getBlockedClipField(filters, clip)
+      if (blockedField) {
+        console.log(
+          `[Queue] Clip ${blockedField} "${clip[blockedField]}" is blocked, ignoring clip from ${submitter}`
+        )
+        return { outcome: 'contentBlocked', variables: { ...variables, filter: blockedField } }
+      }
+
+      // Title word/pattern filters (reject, or hold for moderation)
+      const titleRule = matchTitleFilter(clip.title, settings.queue.titleFilters)
+      if (titleRule?.action === 'reject') {
+        console.log(
+          `[Queue] Clip title matches filter "${titleRule.pattern}", ignoring clip from ${submitter}`
+        )
+        return { outcome: 'titleBlocked', variables }
+      }
+
+      // Replay cooldown (clips already waiting in a queue just gain a submitter)
+      const { replayCooldown } = settings.queue
+      const queued = namedQueues.find(clipId)
+      const isRecentlyPlayed = !queued && wasPlayedRecently(clipId, replayCooldown)
+      if (isRecentlyPlayed && replayCooldown.action === 'reject') {
+        console.log(`[Queue] Clip was played recently, ignoring clip from ${submitter}`)
+        return { outcome: 'recentlyPlayed', variables }
+      }
+
+      // Check queue size limit
+      if (settings.queue.limit !== null && queue.size() >= settings.queue.limit) {
+        console.log(
+          `[Queue] Queue is full (limit: ${settings.queue.limit}), ignoring clip from ${submitter}`
+        )
+        return { outcome: 'queueFull', variables: { ...variables, limit: settings.queue.limit } }
+      }
+
+      // Check per-submitter limit (re-submitting a clip they already hold is a no-op)
+      const { maxPerSubmitter } = settings.queue
+      if (maxPerSubmitter !== null && !isSubmitterLimitExempt) {
+        const normalizedSubmitter = submitter.toLowerCase()
+        const heldClips = namedQueues
+          .allClips()
+          .filter((c) => c.submitters.includes(normalizedSubmitter))
+        const isHeld = heldClips.some((c) => toClipUUID(c) === clipId)
+        if (!isHeld && heldClips.length >= maxPerSubmitter) {
+          console.log(
+            `[Queue] ${submitter} reached the per-submitter limit (${maxPerSubmitter}), ignoring clip`
+          )
+          return { outcome: 'submitterLimit', variables: { ...variables, limit: maxPerSubmitter } }
+        }
+      }
+
+      // Check if clip already exists in a queue (now protected by mutex)
+      if (queued) {
+        // Add submitter to existing clip using transaction-safe upsert
+        const updatedClip = upsertClip(
+          db,
+          channel.id,
+          clipId,
+          { ...clip, submitters: [submitter], ...(priority && { priority: true }) },
+          'approved'
+        )
+
+        // Update in-memory queue (parked clips stay in their named queue)
+        queued.list.add(updatedClip)
+
+        // Broadcast update
+        console.log(`[Queue] Added submitter to existing clip: ${clip.title} (${submitter})`)
+        invalidateETag()
+        return { outcome: 'added', variables, clipId }
+      }
+
+      // Determine approval status based on auto-moderation setting and user role
+      // Auto-approve if:
+      // 1. Auto-moderation is disabled (all clips auto-approve), OR
+      // 2. Submitter is mod/broadcaster (bypass moderation)
+      // Clips caught by a pending title rule or the replay cooldown are always held for moderation
+      const shouldAutoApprove =
+        (!settings.queue.hasAutoModerationEnabled || autoApprove) &&
+        titleRule?.action !== 'pending' &&
+        !isRecentlyPlayed
+      const status = shouldAutoApprove ? 'approved' : 'pending'
+
+      // Add clip to queue with transaction
+      const clipWithSubmitter = {
+        ...clip,
+        submitters: [submitter],
+        ...(priority && { priority: true })
+      }
+      const savedClip = upsertClip(db, channel.id, clipId, clipWithSubmitter, status)
+
+      // Add to in-memory queue only if approved
+      if (status === 'approved') {
+        queue.add(savedClip)
+        console.log(`[Queue] Added clip: ${clip.title} (submitted by ${submitter})`)
+        invalidateETag()
+        return { outcome: 'added', variables, clipId }
+      }
+
+      console.log(`[Queue] Clip pending moderation: ${clip.title} (submitted by ${submitter})`)
+      return { outcome: 'pending', variables, clipId }
+    } catch (error) {
+      console.error('[Queue] Failed to submit clip:', error)
+      return { outcome: 'error', reason: error instanceof Error ? error.message : 'Unknown error' }
+    } finally {
+      release()
+    }
+  }
+
+  /**
+   * Reply in chat with the outcome of a submission
+   * Threaded on the submitting message; skipped when the outcome's reply is disabled
+   */
+  async function sendSubmissionReply(messageId: string, result: SubmissionResult): Promise<void> {
+    const reply = getSubmissionReply(settings.commands.replies, result)
+    const chatClient = getChatClient()
+    if (!reply || !chatClient) return
+
+    const isSent = await chatClient.sendChatMessage(channel.id, reply, messageId || undefined)
+    if (isSent) {
+      console.log(`[Chat] Replied to ${result.variables.user} (${result.outcome})`)
+    }
+  }
+
+  /**
+   * Submit the clip URL typed into a channel point redemption
+   * Fulfilled once queued, refunded when rejected (if enabled), and left open while
+   * the clip waits on moderation
+   */
+  async function handleRedemption(redemption: EventSubRedemption): Promise<void> {
+    const { channelPoints } = settings.queue
+    if (!channelPoints.enabled || redemption.rewardId !== channelPoints.rewardId) return
+
+    console.log(`[Redemption] ${redemption.username} redeemed: ${redemption.userInput}`)
+
+    const url = redemption.userInput.match(/(https?:\/\/[^\s]+)/)?.[0]
+    let result: SubmissionResult | null = null
+    if (url && !isQueueOpen) {
+      // Auto-approved redemptions would otherwise bypass a closed queue
+      result = { outcome: 'queueClosed', variables: { user: redemption.username } }
+      recordSubmissionAttempt(url, redemption.username, 'redemption', result)
+    } else if (url) {
+      result = await handleClipSubmission(url, redemption.username, {
+        source: 'redemption',
+        autoApprove: channelPoints.autoApprove,
+        priority: channelPoints.priority
+      })
+    }
+
+    const pendingRedemption: PendingRedemption = {
+      rewardId: redemption.rewardId,
+      redemptionId: redemption.id
+    }
+    const status = getRedemptionStatus(result?.outcome ?? null)
+    if (status) {
+      await settleRedemptions([pendingRedemption], status)
+    } else if (result?.clipId) {
+      pendingRedemptions.add(result.clipId, pendingRedemption)
+    }
+
+    if (result) {
+      await sendSubmissionReply('', result)
+    }
+  }
+
+  /**
+   * Fulfill or refund channel point redemptions
+   * Refunds are skipped when disabled, leaving the redemptions for the broadcaster to handle
+   */
+  async function settleRedemptions(
+    redemptions: PendingRedemption[],
+    status: RedemptionStatus
+  ): Promise<void> {
+    if (status === 'CANCELED' && !settings.queue.channelPoints.refundOnReject) return
+    const chatClient = getChatClient()
+    if (!chatClient) return
+
+    for (const { rewardId, redemptionId } of redemptions) {
+      const isUpdated = await chatClient.updateRedemptionStatus(
+        channel.id,
+        rewardId,
+        redemptionId,
+        status
+      )
+      if (isUpdated) {
+        console.log(
+          `[Redemption] ${status === 'CANCELED' ? 'Refunded' : 'Fulfilled'} ${redemptionId}`
+        )
+      }
+    }
+  }
+
+  /**
+   * Handle a chat message: run it as a command, or submit the clip URLs in it
+   */
+  async function handleMessage(message: EventSubMessage): Promise<void> {
+    try {
+      console.log(`[Chat] ${channel.login} ${message.username}: ${message.text}`)
+
+      // Check if message is a command
+      if (message.text.startsWith(settings.commands.prefix)) {
+        const commandText = message.text.substring(settings.commands.prefix.length).trim()
+        const [commandName, ...args] = commandText.split(/\s+/)
+        const command = commandName
+          ? resolveCommandName(commandName, settings.commands.aliases)
+          : null
+        if (!command) {
+          console.log(`[Command] Unknown command: ${commandName}`)
+          return
+        }
+
+        // Command must be allowed and granted to one of the user's roles
+        if (!canRunCommand(settings.commands, command, message)) {
+          console.log(`[Chat] User ${message.username} is not allowed to use ${command}`)
+          return
+        }
+
+        const cooldownRemaining = commandCooldowns.use(
+          command,
+          message.username,
+          settings.commands.cooldowns[command]
+        )
+        if (cooldownRemaining > 0) {
+          console.log(
+            `[Command] ${command} on cooldown for ${message.username} (${cooldownRemaining}s left)`
+          )
+          return
+        }
+
+        if (isViewerCommand(command)) {
+          await handleViewerCommand(message, command)
+        } else {
+          await handleChatCommand(message, command, args)
+        }
+        return
+      }
+
+      // Extract URLs from message text
+      const urlRegex = /(https?:\/\/[^\s]+)/g
+      const urls = message.text.match(urlRegex) || []
+
+      // Check if user can auto-approve (moderator or broadcaster)
+      const canAutoApprove = message.isModerator || message.isBroadcaster
+      const isSubmitterLimitExempt =
+        settings.queue.hasSubmitterLimitExemption && (canAutoApprove || message.isVip)
+
+      // Submit each URL
+      for (const url of urls) {
+        // Accept Twitch (clip, VOD, or highlight), Kick clip, and Streamable video URLs
+        const isSupportedUrl =
+          twitch.getContentTypeFromUrl(url) ||
+          kick.getClipIdFromUrl(url) ||
+          streamable.getVideoIdFromUrl(url)
+        if (!isSupportedUrl) continue
+
+        const result = await handleClipSubmission(url, message.username, {
+          source: 'chat',
+          roles: message,
+          autoApprove: canAutoApprove,
+          isSubmitterLimitExempt
+        })
+        if (result) {
+          await sendSubmissionReply(message.messageId, result)
+        }
+      }
+    } catch (error) {
+      console.error(`[EventSub] Error processing message from ${message.username}:`, error)
+    }
+  }
+
+  const router = express.Router()
+
+  router.get('/queue', publicReadLimiter, (req, res) => {
+    // Delta mode: return changes since the client's version when still in the ring
+    const since = Number(req.query.since)
+    if (req.query.since !== undefined && Number.isSafeInteger(since)) {
+      syncStateVersion()
+      const delta = stateVersion.changesSince(since)
+      if (delta) {
+        res.setHeader('Cache-Control', 'no-cache')
+        return delta.ops.length === 0 ? res.status(304).end() : res.json(delta)
+      }
+      // Client is too far behind, fall through to a full snapshot
+    }
+
+    // Generate ETag from current state
+    const etag = generateStateHash()
+
+    // Check if client has cached version
+    const clientETag = req.headers['if-none-match']
+    if (clientETag === etag) {
+      // State hasn't changed, return 304 Not Modified
+      return res.status(304).end()
+    }
+
+    // State changed, return full response with ETag
+    res.setHeader('ETag', etag)
+    res.setHeader('Cache-Control', 'no-cache') // Must revalidate with ETag
+    res.json(getQueueState())
+  })
+
+  /**
+   * GET /api/c/:channel/queue/stream - Server-Sent Events stream of queue state
+   * Emits a `state` event on connect, then a `patch` event ({ from, version, ops })
+   * after every state change (id = state version)
+   */
+  router.get('/queue/stream', publicReadLimiter, (req, res) => {
+    const state = getQueueState()
+    queueStream.connect(req, res, String(state.version), state)
+  })
+
+  /**
+   * GET /api/c/:channel/history - Paginated play history with cursor-based pagination
+   * Query params:
+   *   - limit: number (optional, default 50, max 100)
+   *   - cursor: string (optional, base64-encoded playLog.id)
+   *   - session: number (optional, only plays from this session)
+   */
+  router.get('/history', publicReadLimiter, (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined
+      const cursor = req.query.cursor as string | undefined
+      const sessionId = req.query.session ? parseInt(req.query.session as string) : undefined
+      if (sessionId !== undefined && Number.isNaN(sessionId)) {
+        return res.status(400).json({ error: 'Invalid input', details: 'session must be a number' })
+      }
+
+      const result = getPlayLogs(db, channel.id, {
+        limit,
+        cursor,
+        order: 'desc', // Newest first for UI browsing
+        paginate: true,
+        sessionId
+      }) as {
+        entries: Array<{ id: number; clip: Clip; playedAt: Date; sessionId?: number }>
+        nextCursor: string | null
+        hasMore: boolean
+      }
+
+      res.json({
+        entries: result.entries,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+        count: result.entries.length
+      })
+    } catch (error) {
+      console.error('[API] Failed to get paginated history:', error)
+      res.status(500).json({ error: 'Failed to fetch history' })
+    }
+  })
+
+  /**
+   * GET /api/c/:channel/sessions - Streams and manual sessions with their play counts, newest first
+   * Query params:
+   *   - limit: number (optional, default 20, max 100)
+   *   - cursor: string (optional, base64-encoded session ID)
+   */
+  router.get('/sessions', publicReadLimiter, (req, res) => {
+    const parseResult = SessionsQuerySchema.safeParse(req.query)
+    if (!parseResult.success) {
+      return res.status(400).json({
+        error: 'Invalid input',
+        details: parseResult.error.issues
+      })
+    }
+
+    try {
+      const result = getSessions(db, channel.id, parseResult.data)
+      res.json({ ...result, count: result.entries.length })
+    } catch (error) {
+      console.error('[API] Failed to get sessions:', error)
+      res.status(500).json({ error: 'Failed to fetch sessions' })
+    }
+  })
+
+  /**
+   * GET /api/c/:channel/submissions - Submission attempt log, newest first (moderators only)
+   * Query params:
+   *   - submitter: string (optional, case-insensitive)
+   *   - outcome: string (optional, e.g. queueClosed, fetchFailed)
+   *   - source: 'chat' | 'redemption' | 'api' (optional)
+   *   - limit: number (optional, default 50, max 100)
+   *   - cursor: string (optional, base64-encoded attempt ID)
+   */
+  router.get(
+    '/submissions',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    (req, res) => {
+      const parseResult = SubmissionAttemptsQuerySchema.safeParse(req.query)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      try {
+        const result = getSubmissionAttempts(db, channel.id, parseResult.data)
+        res.json({ ...result, count: result.entries.length })
+      } catch (error) {
+        console.error('[API] Failed to get submission attempts:', error)
+        res.status(500).json({ error: 'Failed to fetch submission attempts' })
+      }
+    }
+  )
+
+  /**
+   * GET /api/c/:channel/stats - Queue analytics for a date range (moderators only)
+   * Query params:
+   *   - from: ISO date (optional, default all time)
+   *   - to: ISO date (optional, default now)
+   *   - limit: number (optional, entries per top list, default 10, max 50)
+   */
+  router.get(
+    '/stats',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    (req, res) => {
+      const parseResult = StatsQuerySchema.safeParse(req.query)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      try {
+        res.json(getStats(db, channel.id, parseResult.data))
+      } catch (error) {
+        console.error('[API] Failed to get stats:', error)
+        res.status(500).json({ error: 'Failed to fetch stats' })
+      }
+    }
+  )
+
+  /**
+   * GET /api/c/:channel/audit - Moderator action audit log, newest first (broadcaster only)
+   * Query params:
+   *   - actor: string (optional, case-insensitive)
+   *   - action: string (optional, chat command name or web action)
+   *   - limit: number (optional, default 50, max 100)
+   *   - cursor: string (optional, base64-encoded entry ID)
+   */
+  router.get(
+    '/audit',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireBroadcaster,
+    (req, res) => {
+      const parseResult = AuditLogQuerySchema.safeParse(req.query)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      try {
+        const result = getAuditLog(db, channel.id, parseResult.data)
+        res.json({ ...result, count: result.entries.length })
+      } catch (error) {
+        console.error('[API] Failed to get audit log:', error)
+        res.status(500).json({ error: 'Failed to fetch audit log' })
+      }
+    }
+  )
+
+  // Manual clip submission (moderators only)
+  router.post(
+    '/queue/submit',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      // Validate input
+      const parseResult = SubmitClipSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { url, submitter } = parseResult.data
+      // Moderators submitting on a viewer's behalf bypass the per-submitter limit
+      const result = await handleClipSubmission(url, submitter, {
+        source: 'api',
+        isSubmitterLimitExempt: true
+      })
+      auditRequest(req, 'submit', {
+        clipIds: result?.clipId ? [result.clipId] : [],
+        details: `${url} for ${submitter}`
+      })
+      // Outcome tells the moderator why a clip wasn't queued (null = invalid or unavailable URL)
+      res.json({ success: true, outcome: result?.outcome ?? null, state: getQueueState() })
+    })
+  )
+
+  // Queue navigation (moderators only)
+  router.post(
+    '/queue/advance',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      const release = await queueOperationMutex.acquire()
+      try {
+        const skippedClipId = currentClip ? toClipUUID(currentClip) : null
+        const state = {
+          current: currentClip,
+          queue: namedQueues.nextPlaybackQueue(),
+          playHistory,
+          historyPosition
+        }
+        const queueId = namedQueues.activeQueueId
+        const rollback = await advanceQueue(
+          state,
+          {
+            updateClipStatus: (clipId, status) => updateClipStatus(db, channel.id, clipId, status),
+            deleteClipsByStatus: (status) => deleteClipsByStatus(db, channel.id, status),
+            insertPlayLog: (clipId, playedAt) => insertPlayLog(db, channel.id, clipId, playedAt),
+            deletePlayLogsByClipStatus: (status) =>
+              deletePlayLogsByClipStatus(db, channel.id, status)
+          },
+          toClipUUID
+        )
+        currentClip = state.current
+        historyPosition = state.historyPosition
+        if (rollback) {
+          undoStack.push({
+            action: 'next',
+            changes: [{ queueId, rollback }],
+            clipIds: skippedClipId ? [skippedClipId] : []
+          })
+        }
+
+        // Broadcast change
+        invalidateETag()
+
+        console.log(`[Queue] Advanced to next clip: ${currentClip?.title || 'none'}`)
+        auditRequest(req, 'next', { clipIds: skippedClipId ? [skippedClipId] : [] })
+        res.json({ success: true, state: getQueueState() })
+      } finally {
+        release()
+      }
+    })
+  )
+
+  router.post(
+    '/queue/previous',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      const release = await queueOperationMutex.acquire()
+      try {
+        const skippedClipId = currentClip ? toClipUUID(currentClip) : null
+        const state = { current: currentClip, queue, playHistory, historyPosition }
+        await previousClip(state)
+        currentClip = state.current
+        historyPosition = state.historyPosition
+
+        // Broadcast change
+        invalidateETag()
+
+        console.log(`[Queue] Went to previous clip: ${currentClip?.title || 'none'}`)
+        auditRequest(req, 'prev', { clipIds: skippedClipId ? [skippedClipId] : [] })
+        res.json({ success: true, state: getQueueState() })
+      } finally {
+        release()
+      }
+    })
+  )
+
+  // Clear queue (broadcaster only)
+  router.delete(
+    '/queue',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireBroadcaster,
+    asyncHandler(async (req, res) => {
+      const clearedClipIds = await clearMainQueue()
+
+      console.log('[Queue] Cleared queue')
+      auditRequest(req, 'clear', { clipIds: clearedClipIds })
+      res.json({ success: true, state: getQueueState() })
+    })
+  )
+
+  // Clear play history (broadcaster only)
+  router.delete(
+    '/queue/history',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireBroadcaster,
+    asyncHandler(async (req, res) => {
+      const previousHistory = playHistory.toArray()
+      const previousPosition = historyPosition
+      try {
+        playHistory.clear()
+        historyPosition = -1
+        deletePlayLogsByClipStatus(db, channel.id, 'played')
+        deleteClipsByStatus(db, channel.id, 'played')
+
+        // Broadcast history cleared event
+        invalidateETag()
+
+        console.log('[Queue] Cleared play history')
+        auditRequest(req, 'purgehistory')
+        res.json({ success: true, state: getQueueState() })
+      } catch (error) {
+        // Roll back in-memory changes on database failure
+        previousHistory.forEach((entry) => playHistory.add(entry))
+        historyPosition = previousPosition
+        throw error // Let asyncHandler catch and respond with error
+      }
+    })
+  )
+
+  // DELETE /api/c/:channel/queue/history/:clipId - Remove all play log entries for a clip (moderator only)
+  router.delete(
+    '/queue/history/:clipId',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      const { clipId } = req.params
+
+      // Validate clipId format
+      if (!clipId || clipId.length === 0 || clipId.length > 200) {
+        return res.status(400).json({
+          error: 'INVALID_CLIP_ID',
+          message: 'Clip ID must be between 1 and 200 characters'
+        })
+      }
+
+      // Check if clip exists
+      const clip = getClip(db, channel.id, clipId)
+      if (!clip) {
+        return res.status(404).json({
+          error: 'CLIP_NOT_FOUND',
+          message: 'Clip not found',
+          clipId
+        })
+      }
+
+      // Delete all play log entries for this clip
+      db.delete(playLog)
+        .where(and(eq(playLog.channelId, channel.id), eq(playLog.clipId, clipId)))
+        .run()
+
+      // Rebuild play history from database (ASC order - oldest first)
+      playHistory.clear()
+      const playLogs = getPlayLogs(db, channel.id, { limit: 100, order: 'asc' }) as Array<{
+        id: number
+        clip: Clip
+        playedAt: Date
+      }>
+      playLogs.forEach((entry) => playHistory.add(entry))
+
+      // Delete clip from database
+      deleteClip(db, channel.id, clipId)
+
+      // Invalidate ETag
+      invalidateETag()
+
+      console.log(`[Queue] Removed all play log entries for clip: ${clip.title}`)
+      auditRequest(req, 'deletehistory', { clipIds: [clipId] })
+      res.json({ success: true, state: getQueueState() })
+    })
+  )
+
+  // Queue control (broadcaster only)
+  router.post(
+    '/queue/open',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireBroadcaster,
+    (req, res) => {
+      // Validate input (the body is optional)
+      const parseResult = QueueToggleSchema.safeParse(req.body ?? {})
+      if (!parseResult.success) {
+        return res.status(400).json({ error: 'Invalid input', details: parseResult.error.issues })
+      }
+
+      const { minutes } = parseResult.data
+      setQueueOpen(true, {
+        timer: createQueueTimer(true, minutes ? minutes * 60 * 1000 : null)
+      })
+      console.log(`[Queue] Queue opened${minutes ? ` for ${minutes} minutes` : ''}`)
+      auditRequest(req, 'open', { details: minutes ? `${minutes}m` : null })
+      res.json({ success: true, state: getQueueState() })
+    }
+  )
+
+  router.post(
+    '/queue/close',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireBroadcaster,
+    (req, res) => {
+      // Validate input (the body is optional)
+      const parseResult = QueueToggleSchema.safeParse(req.body ?? {})
+      if (!parseResult.success) {
+        return res.status(400).json({ error: 'Invalid input', details: parseResult.error.issues })
+      }
+
+      const { minutes } = parseResult.data
+      setQueueOpen(false, {
+        timer: createQueueTimer(false, minutes ? minutes * 60 * 1000 : null)
+      })
+      console.log(`[Queue] Queue closed${minutes ? ` for ${minutes} minutes` : ''}`)
+      auditRequest(req, 'close', { details: minutes ? `${minutes}m` : null })
+      res.json({ success: true, state: getQueueState() })
+    }
+  )
+
+  // Named queues (moderators only)
+  router.post(
+    '/queue/move',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    (req, res) => {
+      // Validate input
+      const parseResult = MoveClipSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipId, queueId } = parseResult.data
+
+      const queued = namedQueues.find(clipId)
+      if (!queued) {
+        return res.status(404).json({
+          error: 'CLIP_NOT_IN_QUEUE',
+          message: 'Clip not found in queue. It may have already been played or removed.',
+          clipId
+        })
+      }
+
+      if (queued.queueId !== queueId) {
+        const refusal = namedQueues.canMoveTo(queueId)
+        if (refusal) {
+          const { status, error, message } = MOVE_REFUSALS[refusal]
+          return res.status(status).json({ error, message, queueId })
+        }
+
+        updateClipQueue(db, channel.id, clipId, queueId)
+        namedQueues.move(queued, queueId)
+
+        console.log(`[Queue] Moved clip to ${queueId}: ${queued.clip.title}`)
+        auditRequest(req, 'move', { clipIds: [clipId], details: `${queued.queueId} → ${queueId}` })
+        invalidateETag()
+      }
+
+      res.json({ success: true, state: getQueueState() })
+    }
+  )
+
+  router.post(
+    '/queue/active',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    (req, res) => {
+      // Validate input
+      const parseResult = QueueIdSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { queueId } = parseResult.data
+      if (!namedQueues.setActive(queueId)) {
+        const { status, error, message } = MOVE_REFUSALS.notFound
+        return res.status(status).json({ error, message, queueId })
+      }
+
+      console.log(`[Queue] Playing from queue: ${queueId}`)
+      auditRequest(req, 'setactivequeue', { details: queueId })
+      invalidateETag()
+      res.json({ success: true, state: getQueueState() })
+    }
+  )
+
+  // Manual order (moderators only)
+  router.post(
+    '/queue/pin',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    (req, res) => {
+      // Validate input
+      const parseResult = PinClipSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipId, pinned } = parseResult.data
+
+      const queued = namedQueues.find(clipId)
+      if (!queued) {
+        return res.status(404).json({
+          error: 'CLIP_NOT_IN_QUEUE',
+          message: 'Clip not found in queue. It may have already been played or removed.',
+          clipId
+        })
+      }
+
+      const { clip, list } = queued
+      const previousOrder = list.toArray().filter((c) => c.position !== undefined)
+      try {
+        if (pinned) {
+          list.pin(clip)
+        } else {
+          list.unpin(clip)
+        }
+        saveClipPositions(list)
+      } catch (error) {
+        // Roll back in-memory changes on database failure
+        list.reorder(previousOrder.map((c) => toClipUUID(c)))
+        throw error
+      }
+
+      console.log(`[Queue] ${pinned ? 'Pinned' : 'Unpinned'} clip: ${clip.title}`)
+      auditRequest(req, pinned ? 'pin' : 'unpin', { clipIds: [clipId] })
+      invalidateETag()
+      res.json({ success: true, state: getQueueState() })
+    }
+  )
+
+  router.post(
+    '/queue/reorder',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    (req, res) => {
+      // Validate input
+      const parseResult = BatchClipIdsSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      // The clips to pin, in play order, all from the same queue
+      const { clipIds } = parseResult.data
+      const found = clipIds.map((clipId) => namedQueues.find(clipId))
+      const list = found[0]?.list
+      if (!list || found.some((queued) => queued?.list !== list)) {
+        return res.status(404).json({
+          error: 'CLIP_NOT_IN_QUEUE',
+          message: 'Clips must all be waiting in the same queue.',
+          clipIds
+        })
+      }
+
+      const previousOrder = list.toArray().filter((c) => c.position !== undefined)
+      try {
+        list.reorder(clipIds)
+        saveClipPositions(list)
+      } catch (error) {
+        // Roll back in-memory changes on database failure
+        list.reorder(previousOrder.map((c) => toClipUUID(c)))
+        throw error
+      }
+
+      console.log(`[Queue] Reordered ${clipIds.length} pinned clips in ${found[0]?.queueId}`)
+      auditRequest(req, 'reorder', { clipIds, details: found[0]?.queueId })
+      invalidateETag()
+      res.json({ success: true, state: getQueueState() })
+    }
+  )
+
+  // Undo the most recent destructive operation (moderators only)
+  router.post(
+    '/queue/undo',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      const release = await queueOperationMutex.acquire()
+      try {
+        const result = await undoLastOperation()
+        if (result === 'empty') {
+          return res.status(404).json({
+            error: 'NOTHING_TO_UNDO',
+            message: 'There is nothing to undo.'
+          })
+        }
+        if (result === 'stale') {
+          return res.status(409).json({
+            error: 'UNDO_STALE',
+            message: 'Another clip is playing since, the last operation can no longer be undone.'
+          })
+        }
+
+        console.log(`[Queue] Undid ${result.action} of ${result.clipIds.length} clips`)
+        auditRequest(req, 'undo', { clipIds: result.clipIds, details: result.action })
+        res.json({ success: true, undone: result.action, state: getQueueState() })
+      } finally {
+        release()
+      }
+    })
+  )
+
+  // Clip management (moderators only)
+  router.post(
+    '/queue/remove',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      // Validate input
+      const parseResult = ClipIdSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipId } = parseResult.data
+
+      // Find and remove clip (from whichever queue it waits in)
+      const queued = namedQueues.find(clipId)
+
+      if (queued) {
+        const { clip, list } = queued
+        const rollback = { previousQueue: [snapshotClip(clip)] }
+        try {
+          list.remove(clip)
+          updateClipStatus(db, channel.id, clipId, 'rejected')
+          undoStack.push({
+            action: 'remove',
+            changes: [{ queueId: queued.queueId, rollback }],
+            clipIds: [clipId]
+          })
+
+          // Broadcast removal
+          invalidateETag()
+
+          console.log(`[Queue] Removed clip: ${clip.title}`)
+          auditRequest(req, 'remove', { clipIds: [clipId] })
+          res.json({ success: true, state: getQueueState() })
+        } catch (error) {
+          // Roll back in-memory changes on database failure
+          list.add(clip)
+          throw error // Let asyncHandler catch and respond with error
+        }
+      } else {
+        res.status(404).json({
+          error: 'CLIP_NOT_FOUND',
+          message: 'Clip not found in queue',
+          clipId
+        })
+      }
+    })
+  )
+
+  // GET /api/c/:channel/queue/pending - List pending clips awaiting approval (broadcaster/moderator only)
+  router.get(
+    '/queue/pending',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    (req, res) => {
+      const pendingClips = getClipsByStatus(db, channel.id, 'pending')
+      res.json({ clips: pendingClips })
+    }
+  )
+
+  // POST /api/c/:channel/queue/approve - Approve a pending clip (broadcaster/moderator only)
+  router.post(
+    '/queue/approve',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      // Validate input
+      const parseResult = ClipIdSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipId } = parseResult.data
+
+      // Get clip from database
+      const clip = getClip(db, channel.id, clipId)
+      if (!clip) {
+        return res.status(404).json({
+          error: 'PENDING_CLIP_NOT_FOUND',
+          message: 'Pending clip not found. It may have been already approved or rejected.',
+          clipId
+        })
+      }
+
+      // Update status in database
+      updateClipStatus(db, channel.id, clipId, 'approved')
+
+      // Add to in-memory queue
+      queue.add(clip)
+
+      console.log(`[Queue] Approved pending clip: ${clip.title}`)
+      auditRequest(req, 'approve', { clipIds: [clipId] })
+      invalidateETag()
+      await settleRedemptions(pendingRedemptions.take(clipId), 'FULFILLED')
+      res.json({ success: true, state: getQueueState() })
+    })
+  )
+
+  // POST /api/c/:channel/queue/reject - Reject a pending clip (broadcaster/moderator only)
+  router.post(
+    '/queue/reject',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      // Validate input
+      const parseResult = ClipIdSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipId } = parseResult.data
+
+      // Get clip from database
+      const clip = getClip(db, channel.id, clipId)
+      if (!clip) {
+        return res.status(404).json({
+          error: 'PENDING_CLIP_NOT_FOUND',
+          message: 'Pending clip not found. It may have been already approved or rejected.',
+          clipId
+        })
+      }
+
+      // Update status to rejected
+      updateClipStatus(db, channel.id, clipId, 'rejected')
+
+      console.log(`[Queue] Rejected pending clip: ${clip.title}`)
+      auditRequest(req, 'reject', { clipIds: [clipId] })
+      await settleRedemptions(pendingRedemptions.take(clipId), 'CANCELED')
+      res.json({ success: true, state: getQueueState() })
+    })
+  )
+
+  // GET /api/c/:channel/queue/rejected - List rejected clips (broadcaster/moderator only)
+  router.get(
+    '/queue/rejected',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    (req, res) => {
+      const rejectedClips = getClipsByStatus(db, channel.id, 'rejected')
+      res.json({ clips: rejectedClips })
+    }
+  )
+
+  // POST /api/c/:channel/queue/rejected/:clipId/restore - Restore a rejected clip to approved status (broadcaster/moderator only)
+  router.post(
+    '/queue/rejected/:clipId/restore',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      // Validate input
+      const parseResult = ClipIdSchema.safeParse({ clipId: req.params.clipId })
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipId } = parseResult.data
+
+      // Get clip from database
+      const clip = getClip(db, channel.id, clipId)
+      if (!clip) {
+        return res.status(404).json({
+          error: 'REJECTED_CLIP_NOT_FOUND',
+          message: 'Rejected clip not found. It may have been deleted.',
+          clipId
+        })
+      }
+
+      // Verify clip is actually rejected
+      const dbClip = db
+        .select()
+        .from(clips)
+        .where(and(eq(clips.channelId, channel.id), eq(clips.id, clipId)))
+        .get()
+      if (!dbClip || dbClip.status !== 'rejected') {
+        return res.status(404).json({
+          error: 'CLIP_NOT_REJECTED',
+          message: 'Clip is not in rejected status. Only rejected clips can be restored.',
+          clipId,
+          currentStatus: dbClip?.status || 'unknown'
+        })
+      }
+
+      try {
+        // Update status to approved in database
+        updateClipStatus(db, channel.id, clipId, 'approved')
+
+        // Add to in-memory queue
+        queue.add(clip)
+
+        console.log(`[Queue] Restored rejected clip: ${clip.title}`)
+        auditRequest(req, 'restore', { clipIds: [clipId] })
+        invalidateETag()
+        res.json({ success: true, state: getQueueState() })
+      } catch (error) {
+        // Roll back in-memory changes on database failure
+        queue.remove(clip)
+        throw error // Let asyncHandler catch and respond with error
+      }
+    })
+  )
+
+  router.post(
+    '/queue/play',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      // Validate input
+      const parseResult = ClipIdSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipId } = parseResult.data
+
+      const release = await queueOperationMutex.acquire()
+      try {
+        // Find clip in any queue
+        const queued = namedQueues.find(clipId)
+
+        if (!queued) {
+          release()
+          return res.status(404).json({
+            error: 'CLIP_NOT_IN_QUEUE',
+            message: 'Clip not found in queue. It may have already been played or removed.',
+            clipId
+          })
+        }
+
+        const { clip } = queued
+        const state = { current: currentClip, queue: queued.list, playHistory, historyPosition }
+        await playClip(
+          state,
+          {
+            updateClipStatus: (clipId, status) => updateClipStatus(db, channel.id, clipId, status),
+            deleteClipsByStatus: (status) => deleteClipsByStatus(db, channel.id, status),
+            insertPlayLog: (clipId, playedAt) => insertPlayLog(db, channel.id, clipId, playedAt),
+            deletePlayLogsByClipStatus: (status) =>
+              deletePlayLogsByClipStatus(db, channel.id, status)
+          },
+          clip,
+          toClipUUID
+        )
+        currentClip = state.current
+        historyPosition = state.historyPosition
+
+        // Broadcast change
+        invalidateETag()
+
+        console.log(`[Queue] Playing clip: ${currentClip?.title}`)
+        auditRequest(req, 'play', { clipIds: [clipId] })
+        res.json({ success: true, state: getQueueState() })
+      } finally {
+        release()
+      }
+    })
+  )
+
+  // Jump to history clip from timeline (moderators only)
+  router.post(
+    '/queue/history/:clipId/replay',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      // Validate input
+      const parseResult = ClipIdSchema.safeParse({ clipId: req.params.clipId })
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipId } = parseResult.data
+
+      const release = await queueOperationMutex.acquire()
+      try {
+        // Find clip in history
+        const historyEntries = playHistory.getAll()
+        const entry = historyEntries.find((e) => toClipUUID(e.clip) === clipId)
+
+        if (!entry) {
+          release()
+          return res.status(404).json({
+            error: 'CLIP_NOT_IN_HISTORY',
+            message: 'Clip not found in history. It may have been cleared or never played.',
+            clipId
+          })
+        }
+
+        // Jump to history clip without creating duplicate entry
+        const state = { current: currentClip, queue, playHistory, historyPosition }
+        await jumpToHistoryClip(state, entry.clip, toClipUUID)
+
+        // Update in-memory state
+        currentClip = state.current
+        historyPosition = state.historyPosition
+
+        // Broadcast change
+        invalidateETag()
+
+        console.log(`[Queue] Jumped to history clip: ${entry.clip.title}`)
+        auditRequest(req, 'replay', { clipIds: [clipId] })
+        res.json({ success: true, state: getQueueState() })
+      } finally {
+        release()
+      }
+    })
+  )
+
+  // Batch clip operations (moderators only)
+  router.post(
+    '/queue/batch/remove',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      // Validate input
+      const parseResult = BatchClipIdsSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipIds } = parseResult.data
+      const results = {
+        removed: 0,
+        failed: [] as string[],
+        notFound: [] as string[]
+      }
+      // Queue ID -> removed clips, for undo
+      const removedClips = new Map<string, Clip[]>()
+
+      // Process each clip - use partial success pattern
+      for (const clipId of clipIds) {
+        const queued = namedQueues.find(clipId)
+
+        if (!queued) {
+          results.notFound.push(clipId)
+          continue
+        }
+
+        const snapshot = snapshotClip(queued.clip)
+        try {
+          queued.list.remove(queued.clip)
+          updateClipStatus(db, channel.id, clipId, 'rejected')
+          removedClips.set(queued.queueId, [...(removedClips.get(queued.queueId) ?? []), snapshot])
+          results.removed++
+        } catch (error) {
+          // Roll back in-memory change on database failure
+          queued.list.add(queued.clip)
+          results.failed.push(clipId)
+          console.error(`[Queue] Failed to remove clip ${clipId}:`, error)
+        }
+      }
+
+      // Invalidate ETag only if at least one clip was removed
+      if (results.removed > 0) {
+        undoStack.push({
+          action: 'remove',
+          changes: [...removedClips].map(([queueId, clips]) => ({
+            queueId,
+            rollback: { previousQueue: clips }
+          })),
+          clipIds: [...removedClips.values()].flat().map(toClipUUID)
+        })
+        invalidateETag()
+      }
+
+      console.log(
+        `[Queue] Batch remove: ${results.removed} removed, ${results.failed.length} failed, ${results.notFound.length} not found`
+      )
+      auditRequest(req, 'remove', {
+        clipIds: clipIds.filter(
+          (id) => !results.failed.includes(id) && !results.notFound.includes(id)
+        )
+      })
+
+      res.json({
+        success: true,
+        removed: results.removed,
+        failed: results.failed,
+        notFound: results.notFound,
+        state: getQueueState()
+      })
+    })
+  )
+
+  router.post(
+    '/queue/batch/approve',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      // Validate input
+      const parseResult = BatchClipIdsSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipIds } = parseResult.data
+      const results = {
+        approved: 0,
+        failed: [] as string[],
+        notFound: [] as string[]
+      }
+
+      // Process each clip - use partial success pattern
+      for (const clipId of clipIds) {
+        const clip = getClip(db, channel.id, clipId)
+
+        if (!clip) {
+          results.notFound.push(clipId)
+          continue
+        }
+
+        try {
+          // Update status in database
+          updateClipStatus(db, channel.id, clipId, 'approved')
+
+          // Add to in-memory queue
+          queue.add(clip)
+
+          await settleRedemptions(pendingRedemptions.take(clipId), 'FULFILLED')
+          results.approved++
+        } catch (error) {
+          results.failed.push(clipId)
+          console.error(`[Queue] Failed to approve clip ${clipId}:`, error)
+        }
+      }
+
+      // Invalidate ETag only if at least one clip was approved
+      if (results.approved > 0) {
+        invalidateETag()
+      }
+
+      console.log(
+        `[Queue] Batch approve: ${results.approved} approved, ${results.failed.length} failed, ${results.notFound.length} not found`
+      )
+      auditRequest(req, 'approve', {
+        clipIds: clipIds.filter(
+          (id) => !results.failed.includes(id) && !results.notFound.includes(id)
+        )
+      })
+
+      res.json({
+        success: true,
+        approved: results.approved,
+        failed: results.failed,
+        notFound: results.notFound,
+        state: getQueueState()
+      })
+    })
+  )
+
+  router.post(
+    '/queue/batch/reject',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireModerator,
+    asyncHandler(async (req, res) => {
+      // Validate input
+      const parseResult = BatchClipIdsSchema.safeParse(req.body)
+      if (!parseResult.success) {
+        return res.status(400).json({
+          error: 'Invalid input',
+          details: parseResult.error.issues
+        })
+      }
+
+      const { clipIds } = parseResult.data
+      const results = {
+        rejected: 0,
+        failed: [] as string[],
+        notFound: [] as string[]
+      }
+      const rejectedClipIds: string[] = []
+
+      // Process each clip - use partial success pattern
+      for (const clipId of clipIds) {
+        const clip = getClip(db, channel.id, clipId)
+
+        if (!clip) {
+          results.notFound.push(clipId)
+          continue
+        }
+
+        try {
+          // Update status to rejected
+          updateClipStatus(db, channel.id, clipId, 'rejected')
+          rejectedClipIds.push(clipId)
+          await settleRedemptions(pendingRedemptions.take(clipId), 'CANCELED')
+          results.rejected++
+        } catch (error) {
+          results.failed.push(clipId)
+          console.error(`[Queue] Failed to reject clip ${clipId}:`, error)
+        }
+      }
+
+      if (rejectedClipIds.length > 0) {
+        undoStack.push({
+          action: 'reject',
+          changes: [{ queueId: MAIN_QUEUE_ID, rollback: { rejectedClipIds } }],
+          clipIds: rejectedClipIds
+        })
+      }
+
+      console.log(
+        `[Queue] Batch reject: ${results.rejected} rejected, ${results.failed.length} failed, ${results.notFound.length} not found`
+      )
+      auditRequest(req, 'reject', {
+        clipIds: clipIds.filter(
+          (id) => !results.failed.includes(id) && !results.notFound.includes(id)
+        )
+      })
+
+      res.json({
+        success: true,
+        rejected: results.rejected,
+        failed: results.failed,
+        notFound: results.notFound,
+        state: getQueueState()
+      })
+    })
+  )
+
+  // Auth API endpoints
+  router.get(
+    '/auth/me',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    (req: AuthenticatedRequest, res) => {
+      if (!req.user) {
+        return res.status(401).json({
+          error: 'NOT_AUTHENTICATED',
+          message: 'Authentication required. Please log in with Twitch.'
+        })
+      }
+
+      res.json({
+        userId: req.user.userId,
+        username: req.user.username,
+        displayName: req.user.displayName,
+        profileImageUrl: req.user.profileImageUrl,
+        isBroadcaster: req.user.isBroadcaster,
+        isModerator: req.user.isModerator
+      })
+    }
+  )
+
+  // Cache management endpoints (broadcaster only)
+  router.get(
+    '/auth/cache/stats',
+    authenticate,
+    authFailureLimiter,
+    requireBroadcaster,
+    (req, res) => {
+      const stats = getCacheStats()
+      res.json({
+        ...stats,
+        tokenCacheTTL: '5 minutes',
+        roleCacheTTL: '2 minutes'
+      })
+    }
+  )
+
+  router.post(
+    '/auth/cache/clear',
+    authenticate,
+    authFailureLimiter,
+    requireBroadcaster,
+    (req, res) => {
+      clearAllCaches()
+      console.log(
+        `[Auth] All caches cleared by broadcaster: ${(req as AuthenticatedRequest).user?.username}`
+      )
+      auditRequest(req, 'purgecache')
+      res.json({ success: true, message: 'All authentication caches cleared' })
+    }
+  )
+
+  // Settings API endpoints
+  router.get('/settings', authenticate, authFailureLimiter, requireBroadcaster, (req, res) => {
+    res.json(settings)
+  })
+
+  router.put(
+    '/settings',
+    authenticate,
+    authFailureLimiter,
+    authenticatedLimiter,
+    requireBroadcaster,
+    (req, res) => {
+      try {
+        const newSettings = req.body as AppSettings
+        const previousSettings = settings
+
+        // Update in-memory settings (will validate via Zod)
+        settings = updateSettings(db, channel.id, newSettings)
+
+        const changes = diffSettings(previousSettings, settings)
+        if (changes.length > 0) {
+          auditRequest(req, 'updatesettings', { changes })
+        }
+
+        // Reorders the queues if the ordering strategy changed, and moves clips of
+        // deleted named queues back to the main queue
+        const movedClips = namedQueues.sync(settings.queue.namedQueues, settings.queue.ordering)
+        for (const clip of movedClips) {
+          updateClipQueue(db, channel.id, toClipUUID(clip), MAIN_QUEUE_ID)
+        }
+
+        // Broadcast to all connected clients
+        invalidateETag()
+
+        console.log('[Settings] Updated:', settings)
+        res.json({ success: true, settings })
+      } catch (error) {
+        console.error('[Settings] Validation failed:', error)
+        res.status(400).json({
+          error: 'INVALID_SETTINGS',
+          message: 'Settings validation failed. Check the details for specific errors.',
+          details:
+            error instanceof z.ZodError
+              ? error.issues.map((i) => ({ path: i.path.join('.'), message: i.message }))
+              : 'Unknown validation error'
+        })
+      }
+    }
+  )
+
+  return {
+    id: channel.id,
+    login: channel.login,
+    router,
+    handleMessage,
+    async handleRedemption(redemption) {
+      try {
+        await handleRedemption(redemption)
+      } catch (error) {
+        console.error(`[EventSub] Error processing redemption from ${redemption.username}:`, error)
+      }
+    },
+    async handleStreamStatus(status) {
+      try {
+        await handleStreamStatus(status)
+      } catch (error) {
+        console.error('[EventSub] Error processing stream status:', error)
+      }
+    },
+    setStreamStatus(status) {
+      streamStatus = status
+      invalidateETag()
+    },
+    getHealth: () => ({
+      stream: getStreamState(),
+      streamClients: queueStream.size,
+      queueSize: queue.size()
+    }),
+    close() {
+      clearInterval(pruneInterval)
+      clearInterval(scheduleInterval)
+      queueStream.closeAll()
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Chat Replies
+ *
+ * Renders the bot's chat replies to clip submissions from the templates in
+ * command settings.
+ */
+
+import type { ChatReplies, SubmissionOutcome } from '@cq/schemas/settings'
+
+// Twitch rejects chat messages longer than this
+const MAX_MESSAGE_LENGTH = 500
+
+/**
+ * Values available to reply templates as {name} placeholders
+ */
+export interface ReplyVariables {
+  user?: string
+  title?: string
+  provider?: string
+  limit?: number
+  seconds?: number
+  /** What a blocked clip matched (channel, creator or category) */
+  filter?: string
+}
+
+/**
+ * Outcome of a clip submission, used to pick and fill the reply template
+ */
+export interface SubmissionResult {
+  outcome: SubmissionOutcome
+  variables: ReplyVariables
+  /** UUID of the submitted clip (once it was fetched) */
+  clipId?: string
+}
+
+/**
+ * Replace {name} placeholders with their values
+ * Unknown placeholders are left as-is so typos are visible in chat
+ */
+export function renderReplyTemplate(template: string, variables: ReplyVariables): string {
+  const rendered = template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = variables[name as keyof ReplyVariables]
+    return value === undefined ? match : String(value)
+  })
+  return rendered.length > MAX_MESSAGE_LENGTH
+    ? `${rendered.slice(0, MAX_MESSAGE_LENGTH - 1)}…`
+    : rendered
+}
+
+/**
+ * Get the reply text for a submission result
+ * @returns Rendered reply, or null if replies for this outcome are disabled
+ */
+export function getSubmissionReply(replies: ChatReplies, result: SubmissionResult): string | null {
+  const reply = replies[result.outcome]
+  if (!reply.enabled) return null
+  return renderReplyTemplate(reply.template, result.variables)
+}
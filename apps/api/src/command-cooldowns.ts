@@ -0,0 +1,50 @@
+/**
+ * Chat Command Cooldowns
+ *
+ * Tracks global and per-user cooldowns so commands can't be spammed or
+ * double-run when several people send them at the same moment.
+ */
+
+import type { CommandCooldown, CommandName } from '@cq/schemas/settings'
+import { TTLCache } from '@cq/utils'
+
+// Upper bound for cooldowns (matches CommandCooldownSchema)
+const MAX_COOLDOWN_MS = 3600 * 1000
+
+export class CommandCooldowns {
+  // Key -> time the cooldown ends (entries expire with the cooldown)
+  private cooldowns = new TTLCache<string, number>(MAX_COOLDOWN_MS)
+
+  /**
+   * Check a command's cooldowns and start them if it can run
+   * @param command - Command being run
+   * @param username - User running the command
+   * @param cooldown - Cooldown settings for the command (undefined = none)
+   * @returns Seconds remaining if the command is on cooldown, otherwise 0
+   */
+  use(command: CommandName, username: string, cooldown: CommandCooldown | undefined): number {
+    if (!cooldown) return 0
+
+    const globalKey = `global:${command}`
+    const userKey = `user:${command}:${username.toLowerCase()}`
+    const now = Date.now()
+
+    const endsAt = Math.max(this.cooldowns.get(globalKey) ?? 0, this.cooldowns.get(userKey) ?? 0)
+    if (endsAt > now) {
+      return Math.ceil((endsAt - now) / 1000)
+    }
+
+    if (cooldown.global > 0) {
+      this.cooldowns.set(globalKey, now + cooldown.global * 1000, cooldown.global * 1000)
+    }
+    if (cooldown.user > 0) {
+      this.cooldowns.set(userKey, now + cooldown.user * 1000, cooldown.user * 1000)
+    }
+    return 0
+  }
+
+  /** Clear all cooldowns */
+  clear(): void {
+    this.cooldowns.clear()
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Chat Command Permissions
+ *
+ * Resolves chat command names (including aliases) and checks them against the
+ * allowed list and per-command role matrix in command settings. Commands added
+ * after the settings were saved are allowed when the settings are loaded.
+ */
+
+import type {
+  CommandAliases,
+  CommandName,
+  CommandRole,
+  CommandSettings
+} from '@cq/schemas/settings'
+import { COMMAND_NAMES, DEFAULT_COMMAND_PERMISSIONS } from '@cq/schemas/settings'
+
+/**
+ * Chat roles of the user running a command (from EventSub badges)
+ */
+export interface ChatUserRoles {
+  isBroadcaster: boolean
+  isModerator: boolean
+  isVip: boolean
+  isSubscriber: boolean
+}
+
+// Built-in alternate spellings
+const BUILT_IN_ALIASES: Record<string, CommandName> = {
+  previous: 'prev'
+}
+
+/**
+ * Resolve the command name typed in chat to a known command
+ * Command names take precedence over built-in aliases, then user-defined aliases
+ * @returns Command name, or null if unknown
+ */
+export function resolveCommandName(name: string, aliases: CommandAliases = {}): CommandName | null {
+  const normalized = name.toLowerCase()
+  if ((COMMAND_NAMES as readonly string[]).includes(normalized)) {
+    return normalized as CommandName
+  }
+  return BUILT_IN_ALIASES[normalized] ?? aliases[normalized] ?? null
+}
+
+/**
+ * Allow commands the settings don't know about yet
+ * Commands added in an upgrade would otherwise be missing from the allowed list,
+ * while commands the broadcaster turned off stay off
+ * @returns Settings that know every command, and whether anything changed
+ */
+export function allowNewCommands(settings: CommandSettings): {
+  settings: CommandSettings
+  isChanged: boolean
+} {
+  const newCommands = COMMAND_NAMES.filter((command) => !settings.known.includes(command))
+  if (newCommands.length === 0) {
+    return { settings, isChanged: false }
+  }
+
+  const allowed = [
+    ...settings.allowed,
+    ...newCommands.filter((command) => !settings.allowed.includes(command))
+  ]
+  return { settings: { ...settings, allowed, known: [...COMMAND_NAMES] }, isChanged: true }
+}
+
+/**
+ * Roles allowed to run a command (falls back to the default for unset commands)
+ */
+export function getCommandRoles(settings: CommandSettings, command: CommandName): CommandRole[] {
+  return settings.permissions[command] ?? DEFAULT_COMMAND_PERMISSIONS[command]
+}
+
+/**
+ * Check whether a user may run a command
+ * The command must be in the allowed list and granted to one of the user's roles
+ */
+export function canRunCommand(
+  settings: CommandSettings,
+  command: CommandName,
+  user: ChatUserRoles
+): boolean {
+  if (!settings.allowed.includes(command)) return false
+
+  return getCommandRoles(settings, command).some((role) => {
+    switch (role) {
+      case 'everyone':
+        return true
+      case 'broadcaster':
+        return user.isBroadcaster
+      case 'moderator':
+        return user.isModerator
+      case 'vip':
+        return user.isVip
+      case 'subscriber':
+        return user.isSubscriber
+    }
+  })
+}
@@ -0,0 +1,70 @@
+/**
+ * Content Filters
+ *
+ * Checks submitters and clips against the allow/deny lists in queue settings.
+ * Names are compared case-insensitively.
+ */
+
+import type { Clip } from '@cq/schemas/clip'
+import type { ContentFilters, FilterList } from '@cq/schemas/settings'
+
+/**
+ * Clip fields that can be filtered
+ */
+export type ClipFilterField = 'channel' | 'creator' | 'category'
+
+const CLIP_FILTER_LISTS: Record<ClipFilterField, keyof ContentFilters> = {
+  channel: 'channels',
+  creator: 'creators',
+  category: 'categories'
+}
+
+/**
+ * Check whether a value passes a filter list
+ * Missing values only fail the blocklist check, never the allowlist
+ */
+function isAllowed(list: FilterList, value: string | undefined): boolean {
+  if (value === undefined) return true
+  const normalized = value.toLowerCase()
+  if (list.blocked.some((v) => v.toLowerCase() === normalized)) return false
+  return list.allowed.length === 0 || list.allowed.some((v) => v.toLowerCase() === normalized)
+}
+
+/**
+ * Check whether a user may submit clips
+ */
+export function isSubmitterAllowed(filters: ContentFilters, submitter: string): boolean {
+  return isAllowed(filters.submitters, submitter)
+}
+
+/**
+ * Find the first clip field rejected by the filters
+ * @returns The rejected field, or null if the clip is allowed
+ */
+export function getBlockedClipField(filters: ContentFilters, clip: Clip): ClipFilterField | null {
+  const fields = Object.keys(CLIP_FILTER_LISTS) as ClipFilterField[]
+  return fields.find((field) => !isAllowed(filters[CLIP_FILTER_LISTS[field]], clip[field])) ?? null
+}
+
+/**
+ * Add a name to a filter list's blocklist (and drop it from the allowlist)
+ * @returns The updated list, or null if the name was already blocked
+ */
+export function blockName(list: FilterList, name: string): FilterList | null {
+  const normalized = name.toLowerCase()
+  if (list.blocked.includes(normalized)) return null
+  return {
+    allowed: list.allowed.filter((v) => v !== normalized),
+    blocked: [...list.blocked, normalized]
+  }
+}
+
+/**
+ * Remove a name from a filter list's blocklist
+ * @returns The updated list, or null if the name wasn't blocked
+ */
+export function unblockName(list: FilterList, name: string): FilterList | null {
+  const normalized = name.toLowerCase()
+  if (!list.blocked.includes(normalized)) return null
+  return { ...list, blocked: list.blocked.filter((v) => v !== normalized) }
+}
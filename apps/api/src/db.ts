@@ -7,29 +7,48 @@
 import { existsSync, mkdirSync } from 'fs'
 import { dirname } from 'path'
 
+import type { SQL } from 'drizzle-orm'
+import type { SQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core'
 import Database from 'better-sqlite3'
-import { asc, desc, eq, inArray, lt } from 'drizzle-orm'
+import { and, asc, desc, eq, inArray, isNull, lt, ne, sql } from 'drizzle-orm'
 import { BetterSQLite3Database, drizzle } from 'drizzle-orm/better-sqlite3'
 import { migrate } from 'drizzle-orm/better-sqlite3/migrator'
 
+import type { AuditLogEntry, AuditLogQuery } from '@cq/schemas/audit'
+import type { Session, SessionSource, SessionsQuery } from '@cq/schemas/sessions'
+import type { QueueStats, StatsCount, StatsQuery } from '@cq/schemas/stats'
+import type { SubmissionAttempt, SubmissionAttemptsQuery } from '@cq/schemas/submissions'
+import { COMMAND_NAMES, MAIN_QUEUE_ID } from '@cq/schemas/settings'
+
 import type { AppSettings, Clip, Provider } from './schema.js'
+import { allowNewCommands } from './command-permissions.js'
 import { resolveFromRoot } from './paths.js'
 import {
   AppSettingsSchema,
+  auditLog,
+  channels,
   clips,
   ClipSchema,
   clipSubmitters,
   DEFAULT_SETTINGS,
   playLog,
   PROVIDERS,
-  settings
+  queueStatus,
+  sessions,
+  settings,
+  submissionAttempts
 } from './schema.js'
 
 export type DbClient = BetterSQLite3Database<{
+  channels: typeof channels
   clips: typeof clips
   clipSubmitters: typeof clipSubmitters
   playLog: typeof playLog
   settings: typeof settings
+  submissionAttempts: typeof submissionAttempts
+  auditLog: typeof auditLog
+  queueStatus: typeof queueStatus
+  sessions: typeof sessions
 }>
 
 let dbInstance: DbClient | null = null
@@ -56,16 +75,31 @@ export function initDatabase(dbPath?: string): DbClient {
 
   // Create Drizzle client
   dbInstance = drizzle(sqlite, {
-    schema: { clips, clipSubmitters, playLog, settings }
+    schema: {
+      channels,
+      clips,
+      clipSubmitters,
+      playLog,
+      settings,
+      submissionAttempts,
+      auditLog,
+      queueStatus,
+      sessions
+    }
   })
 
   // Run migrations
+  // Table rebuilds must not cascade deletes, and SQLite ignores this pragma inside the
+  // transaction the migrations run in
+  sqlite.pragma('foreign_keys = OFF')
   try {
     migrate(dbInstance, { migrationsFolder: resolveFromRoot('apps', 'api', 'drizzle') })
     console.log('[Database] Migrations applied successfully')
   } catch (error) {
     console.error('[Database] Migration failed:', error)
     throw error
+  } finally {
+    sqlite.pragma('foreign_keys = ON')
   }
 
   console.log('[Database] Initialized SQLite database at:', path)
@@ -103,6 +137,58 @@ export function closeDatabase(): void {
   }
 }
 
+/**
+ * Channel Operations
+ */
+
+export type Channel = Omit<typeof channels.$inferSelect, 'createdAt'>
+
+// Tables with rows scoped to a channel
+const CHANNEL_TABLES = [
+  clips,
+  clipSubmitters,
+  playLog,
+  sessions,
+  submissionAttempts,
+  auditLog,
+  settings,
+  queueStatus
+]
+
+/**
+ * Add a channel, or update its login after a rename
+ * The first channel registered takes over data saved before channels existed.
+ */
+export function registerChannel(db: DbClient, channel: Channel): void {
+  db.transaction((tx) => {
+    const isFirst = !tx.select({ id: channels.id }).from(channels).limit(1).get()
+
+    tx.insert(channels)
+      .values(channel)
+      .onConflictDoUpdate({ target: channels.id, set: { login: channel.login } })
+      .run()
+
+    if (isFirst) {
+      // Clips and the rows pointing at them change key together
+      tx.run(sql`PRAGMA defer_foreign_keys = ON`)
+      for (const table of CHANNEL_TABLES) {
+        tx.update(table).set({ channelId: channel.id }).where(eq(table.channelId, '')).run()
+      }
+    }
+  })
+}
+
+/**
+ * Get every registered channel, oldest first
+ */
+export function getChannels(db: DbClient): Channel[] {
+  return db
+    .select({ id: channels.id, login: channels.login })
+    .from(channels)
+    .orderBy(asc(channels.createdAt), asc(channels.id))
+    .all()
+}
+
 /**
  * Settings Operations
  */
@@ -110,8 +196,8 @@ export function closeDatabase(): void {
 /**
  * Initialize settings with defaults if not exists
  */
-export function initSettings(db: DbClient): AppSettings {
-  const existing = db.select().from(settings).where(eq(settings.id, 1)).get()
+export function initSettings(db: DbClient, channelId: string): AppSettings {
+  const existing = db.select().from(settings).where(eq(settings.channelId, channelId)).get()
 
   if (existing) {
     // Validate existing settings
@@ -121,7 +207,18 @@ export function initSettings(db: DbClient): AppSettings {
         queue: AppSettingsSchema.shape.queue.parse(existing.queue),
         logger: AppSettingsSchema.shape.logger.parse(existing.logger)
       }
-      return validated
+
+      // Commands added since the settings were saved start out allowed
+      const { settings: commands, isChanged } = allowNewCommands(validated.commands)
+      if (isChanged) {
+        db.update(settings)
+          .set({ commands: commands as unknown, updatedAt: new Date() })
+          .where(eq(settings.channelId, channelId))
+          .run()
+        const added = commands.allowed.filter((c) => !validated.commands.allowed.includes(c))
+        console.log(`[Database] Allowed new commands: ${added.join(', ')}`)
+      }
+      return { ...validated, commands }
     } catch (error) {
       console.error('[Database] Invalid settings in database, using defaults:', error)
       // Fall through to reset with defaults
@@ -131,7 +228,7 @@ export function initSettings(db: DbClient): AppSettings {
   // Insert defaults
   db.insert(settings)
     .values({
-      id: 1,
+      channelId,
       version: 1,
       commands: DEFAULT_SETTINGS.commands as unknown,
       queue: DEFAULT_SETTINGS.queue as unknown,
@@ -145,10 +242,17 @@ export function initSettings(db: DbClient): AppSettings {
 
 /**
  * Update settings (with validation)
+ * @returns Validated settings (with defaults applied)
  */
-export function updateSettings(db: DbClient, newSettings: AppSettings): void {
+export function updateSettings(
+  db: DbClient,
+  channelId: string,
+  newSettings: AppSettings
+): AppSettings {
   // Validate before updating
   const validated = AppSettingsSchema.parse(newSettings)
+  // The allowed list was chosen from every current command
+  validated.commands.known = [...COMMAND_NAMES]
 
   db.update(settings)
     .set({
@@ -157,18 +261,20 @@ export function updateSettings(db: DbClient, newSettings: AppSettings): void {
       logger: validated.logger as unknown,
       updatedAt: new Date()
     })
-    .where(eq(settings.id, 1))
+    .where(eq(settings.channelId, channelId))
     .run()
+
+  return validated
 }
 
 /**
  * Get current settings (with validation)
  */
-export function getSettings(db: DbClient): AppSettings {
-  const row = db.select().from(settings).where(eq(settings.id, 1)).get()
+export function getSettings(db: DbClient, channelId: string): AppSettings {
+  const row = db.select().from(settings).where(eq(settings.channelId, channelId)).get()
 
   if (!row) {
-    return initSettings(db)
+    return initSettings(db, channelId)
   }
 
   try {
@@ -179,10 +285,51 @@ export function getSettings(db: DbClient): AppSettings {
     }
   } catch (error) {
     console.error('[Database] Invalid settings, reinitializing:', error)
-    return initSettings(db)
+    return initSettings(db, channelId)
   }
 }
 
+/**
+ * Queue Status Operations
+ */
+
+export type QueueStatus = Omit<typeof queueStatus.$inferSelect, 'channelId' | 'updatedAt'>
+
+/**
+ * Get whether the queue is open and its pending timer, creating the row if missing
+ */
+export function getQueueStatus(db: DbClient, channelId: string): QueueStatus {
+  db.insert(queueStatus).values({ channelId }).onConflictDoNothing().run()
+  return db
+    .select({
+      isOpen: queueStatus.isOpen,
+      isAutoClosed: queueStatus.isAutoClosed,
+      timerAction: queueStatus.timerAction,
+      timerAt: queueStatus.timerAt,
+      isInScheduleWindow: queueStatus.isInScheduleWindow
+    })
+    .from(queueStatus)
+    .where(eq(queueStatus.channelId, channelId))
+    .get()!
+}
+
+/**
+ * Update the queue status
+ */
+export function updateQueueStatus(
+  db: DbClient,
+  channelId: string,
+  changes: Partial<QueueStatus>
+): void {
+  db.insert(queueStatus)
+    .values({ channelId, ...changes })
+    .onConflictDoUpdate({
+      target: queueStatus.channelId,
+      set: { ...changes, updatedAt: new Date() }
+    })
+    .run()
+}
+
 /**
  * Clip Operations
  */
@@ -193,6 +340,7 @@ export function getSettings(db: DbClient): AppSettings {
  */
 export function upsertClip(
   db: DbClient,
+  channelId: string,
   clipId: string,
   clipData: Clip,
   status: 'approved' | 'pending' | 'rejected' | 'played' = 'approved'
@@ -202,7 +350,11 @@ export function upsertClip(
     const validated = ClipSchema.parse(clipData)
 
     // Check if clip exists
-    const existing = tx.select().from(clips).where(eq(clips.id, clipId)).get()
+    const existing = tx
+      .select()
+      .from(clips)
+      .where(and(eq(clips.channelId, channelId), eq(clips.id, clipId)))
+      .get()
 
     if (existing) {
       // Update clip metadata (in case it changed)
@@ -213,10 +365,13 @@ export function upsertClip(
           thumbnailUrl: validated.thumbnailUrl,
           videoUrl: validated.videoUrl,
           category: validated.category,
+          viewCount: validated.viewCount,
           duration: validated.duration,
-          timestamp: validated.timestamp
+          timestamp: validated.timestamp,
+          // Priority is only ever raised, a later regular submission keeps it
+          ...(validated.priority && { priority: true })
         })
-        .where(eq(clips.id, clipId))
+        .where(and(eq(clips.channelId, channelId), eq(clips.id, clipId)))
         .run()
 
       // Add new submitters (unique constraint prevents duplicates)
@@ -224,6 +379,7 @@ export function upsertClip(
         try {
           tx.insert(clipSubmitters)
             .values({
+              channelId,
               clipId,
               submitter
             })
@@ -243,17 +399,19 @@ export function upsertClip(
       const allSubmitters = tx
         .select({ submitter: clipSubmitters.submitter })
         .from(clipSubmitters)
-        .where(eq(clipSubmitters.clipId, clipId))
+        .where(and(eq(clipSubmitters.channelId, channelId), eq(clipSubmitters.clipId, clipId)))
         .all()
 
       return {
         ...validated,
+        ...((existing.priority || validated.priority) && { priority: true }),
         submitters: allSubmitters.map((s) => s.submitter)
       }
     } else {
       // Insert new clip
       tx.insert(clips)
         .values({
+          channelId,
           id: clipId,
           platform: validated.platform,
           contentType: validated.contentType,
@@ -267,8 +425,11 @@ export function upsertClip(
           creator: validated.creator,
           category: validated.category,
           createdAt: validated.createdAt,
+          viewCount: validated.viewCount,
+          language: validated.language,
           duration: validated.duration,
           timestamp: validated.timestamp,
+          priority: validated.priority ?? false,
           status
         })
         .run()
@@ -277,6 +438,7 @@ export function upsertClip(
       for (const submitter of validated.submitters) {
         tx.insert(clipSubmitters)
           .values({
+            channelId,
             clipId,
             submitter
           })
@@ -291,8 +453,12 @@ export function upsertClip(
 /**
  * Get clip by ID (with submitters)
  */
-export function getClip(db: DbClient, clipId: string): Clip | null {
-  const row = db.select().from(clips).where(eq(clips.id, clipId)).get()
+export function getClip(db: DbClient, channelId: string, clipId: string): Clip | null {
+  const row = db
+    .select()
+    .from(clips)
+    .where(and(eq(clips.channelId, channelId), eq(clips.id, clipId)))
+    .get()
 
   if (!row) return null
 
@@ -300,7 +466,7 @@ export function getClip(db: DbClient, clipId: string): Clip | null {
   const submitterRows = db
     .select({ submitter: clipSubmitters.submitter })
     .from(clipSubmitters)
-    .where(eq(clipSubmitters.clipId, clipId))
+    .where(and(eq(clipSubmitters.channelId, channelId), eq(clipSubmitters.clipId, clipId)))
     .all()
 
   try {
@@ -317,8 +483,12 @@ export function getClip(db: DbClient, clipId: string): Clip | null {
       creator: row.creator ?? row.channel, // Fallback to channel if creator is missing
       category: row.category || undefined, // Convert empty string to undefined
       createdAt: row.createdAt ?? undefined,
+      viewCount: row.viewCount ?? undefined,
+      language: row.language ?? undefined,
       duration: row.duration ?? undefined,
       timestamp: row.timestamp ?? undefined,
+      priority: row.priority || undefined,
+      position: row.position ?? undefined,
       submitters: submitterRows.map((s) => s.submitter)
     })
   } catch (error) {
@@ -333,13 +503,18 @@ export function getClip(db: DbClient, clipId: string): Clip | null {
  */
 export function getClipsByStatus(
   db: DbClient,
+  channelId: string,
   status: 'approved' | 'pending' | 'rejected' | 'played',
   limit?: number
 ): Clip[] {
-  let query = db.select().from(clips).where(eq(clips.status, status))
+  let query = db
+    .select()
+    .from(clips)
+    .where(and(eq(clips.channelId, channelId), eq(clips.status, status)))
 
   if (status === 'approved') {
-    query = query.orderBy(asc(clips.submittedAt)) as unknown as typeof query
+    // rowid breaks ties within the same second so restored queue order is stable
+    query = query.orderBy(asc(clips.submittedAt), asc(sql`rowid`)) as unknown as typeof query
   } else if (status === 'played') {
     query = query.orderBy(desc(clips.submittedAt)).limit(limit ?? 50) as unknown as typeof query
   }
@@ -353,7 +528,7 @@ export function getClipsByStatus(
   const allSubmitters = db
     .select()
     .from(clipSubmitters)
-    .where(inArray(clipSubmitters.clipId, clipIds))
+    .where(and(eq(clipSubmitters.channelId, channelId), inArray(clipSubmitters.clipId, clipIds)))
     .all()
 
   // Group submitters by clipId
@@ -384,8 +559,12 @@ export function getClipsByStatus(
         if (row.thumbnailUrl) clipData.thumbnailUrl = row.thumbnailUrl
         if (row.category) clipData.category = row.category
         if (row.createdAt) clipData.createdAt = row.createdAt
+        if (row.viewCount != null) clipData.viewCount = row.viewCount
+        if (row.language) clipData.language = row.language
         if (row.duration != null) clipData.duration = row.duration
         if (row.timestamp != null) clipData.timestamp = row.timestamp
+        if (row.priority) clipData.priority = true
+        if (row.position != null) clipData.position = row.position
 
         return ClipSchema.parse(clipData) as Clip
       } catch (error) {
@@ -396,31 +575,112 @@ export function getClipsByStatus(
     .filter((clip): clip is Clip => clip !== null)
 }
 
+/**
+ * Get the named queue of every approved clip waiting outside the main queue
+ * @returns Map of clip UUID to queue ID
+ */
+export function getClipQueueIds(db: DbClient, channelId: string): Map<string, string> {
+  const rows = db
+    .select({ id: clips.id, queueId: clips.queueId })
+    .from(clips)
+    .where(
+      and(
+        eq(clips.channelId, channelId),
+        eq(clips.status, 'approved'),
+        ne(clips.queueId, MAIN_QUEUE_ID)
+      )
+    )
+    .all()
+
+  return new Map(rows.map((row) => [row.id, row.queueId]))
+}
+
 /**
  * Update clip status
+ * Any status change puts the clip back in the main queue, unpinned
  */
 export function updateClipStatus(
   db: DbClient,
+  channelId: string,
   clipId: string,
   status: 'approved' | 'pending' | 'rejected' | 'played'
 ): void {
   try {
-    db.update(clips).set({ status }).where(eq(clips.id, clipId)).run()
+    db.update(clips)
+      .set({ status, queueId: MAIN_QUEUE_ID, position: null })
+      .where(and(eq(clips.channelId, channelId), eq(clips.id, clipId)))
+      .run()
   } catch (error) {
     console.error(`[DB] Failed to update clip status: ${error}`)
     throw error
   }
 }
 
+/**
+ * Move an approved clip to another named queue
+ * Pins don't carry over between queues
+ */
+export function updateClipQueue(
+  db: DbClient,
+  channelId: string,
+  clipId: string,
+  queueId: string
+): void {
+  try {
+    db.update(clips)
+      .set({ queueId, position: null })
+      .where(and(eq(clips.channelId, channelId), eq(clips.id, clipId)))
+      .run()
+  } catch (error) {
+    console.error(`[DB] Failed to update clip queue: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Save the manual positions of approved clips
+ * @param positions - Map of clip UUID to position (null unpins the clip)
+ */
+export function updateClipPositions(
+  db: DbClient,
+  channelId: string,
+  positions: Map<string, number | null>
+): void {
+  try {
+    db.transaction((tx) => {
+      for (const [clipId, position] of positions) {
+        tx.update(clips)
+          .set({ position })
+          .where(and(eq(clips.channelId, channelId), eq(clips.id, clipId)))
+          .run()
+      }
+    })
+  } catch (error) {
+    console.error(`[DB] Failed to update clip positions: ${error}`)
+    throw error
+  }
+}
+
 /**
  * Delete clips by status
+ * @param queueId - Only delete clips in this named queue
  */
 export function deleteClipsByStatus(
   db: DbClient,
-  status: 'approved' | 'pending' | 'rejected' | 'played'
+  channelId: string,
+  status: 'approved' | 'pending' | 'rejected' | 'played',
+  queueId?: string
 ): void {
   try {
-    db.delete(clips).where(eq(clips.status, status)).run()
+    db.delete(clips)
+      .where(
+        and(
+          eq(clips.channelId, channelId),
+          eq(clips.status, status),
+          queueId !== undefined ? eq(clips.queueId, queueId) : undefined
+        )
+      )
+      .run()
   } catch (error) {
     console.error(`[DB] Failed to delete clips by status: ${error}`)
     throw error
@@ -430,9 +690,11 @@ export function deleteClipsByStatus(
 /**
  * Delete clip by ID
  */
-export function deleteClip(db: DbClient, clipId: string): void {
+export function deleteClip(db: DbClient, channelId: string, clipId: string): void {
   try {
-    db.delete(clips).where(eq(clips.id, clipId)).run()
+    db.delete(clips)
+      .where(and(eq(clips.channelId, channelId), eq(clips.id, clipId)))
+      .run()
   } catch (error) {
     console.error(`[DB] Failed to delete clip: ${error}`)
     throw error
@@ -447,13 +709,21 @@ export function deleteClip(db: DbClient, clipId: string): void {
  * Insert a play log entry
  * @returns The ID of the inserted play log entry
  */
-export function insertPlayLog(db: DbClient, clipId: string, playedAt?: Date): number {
+export function insertPlayLog(
+  db: DbClient,
+  channelId: string,
+  clipId: string,
+  playedAt?: Date
+): number {
   try {
     const result = db
       .insert(playLog)
       .values({
+        channelId,
         clipId,
-        playedAt: playedAt ?? new Date()
+        playedAt: playedAt ?? new Date(),
+        // Link the play to the channel's running session, if any
+        sessionId: sql`(SELECT ${sessions.id} FROM ${sessions} WHERE ${sessions.channelId} = ${channelId} AND ${sessions.endedAt} IS NULL ORDER BY ${sessions.id} DESC LIMIT 1)`
       })
       .run()
 
@@ -464,32 +734,95 @@ export function insertPlayLog(db: DbClient, clipId: string, playedAt?: Date): nu
   }
 }
 
+/**
+ * Get when a clip was last played
+ * @returns The most recent play time, or null if the clip was never played
+ */
+export function getLastPlayedAt(db: DbClient, channelId: string, clipId: string): Date | null {
+  const row = db
+    .select({ playedAt: playLog.playedAt })
+    .from(playLog)
+    .where(and(eq(playLog.channelId, channelId), eq(playLog.clipId, clipId)))
+    .orderBy(desc(playLog.playedAt))
+    .limit(1)
+    .get()
+  return row?.playedAt ?? null
+}
+
+/**
+ * Get when the last few sessions started
+ * Uses the recorded sessions, and only guesses them from gaps of gapSeconds without
+ * plays when the channel has none recorded
+ * @param count - Number of recent sessions (including the current one)
+ * @returns When the oldest of those sessions started, or null if there are fewer sessions than that
+ */
+export function getSessionsWindowStart(
+  db: DbClient,
+  channelId: string,
+  count: number,
+  gapSeconds: number
+): Date | null {
+  const recorded = db
+    .select({ startedAt: sessions.startedAt })
+    .from(sessions)
+    .where(eq(sessions.channelId, channelId))
+    .orderBy(desc(sessions.startedAt), desc(sessions.id))
+    .limit(count)
+    .all()
+  if (recorded.length > 0) {
+    return recorded[count - 1]?.startedAt ?? null
+  }
+
+  // Plays after a gap (or now, if the last play was long enough ago) start a session
+  const row = db.get<{ startedAt: number }>(sql`
+    SELECT next_played_at AS startedAt FROM (
+      SELECT played_at, LEAD(played_at, 1, unixepoch()) OVER (ORDER BY played_at) AS next_played_at
+      FROM ${playLog}
+      WHERE ${playLog.channelId} = ${channelId}
+    )
+    WHERE next_played_at - played_at >= ${gapSeconds}
+    ORDER BY played_at DESC
+    LIMIT 1 OFFSET ${count - 1}
+  `)
+  return row ? new Date(row.startedAt * 1000) : null
+}
+
 /**
  * Get play logs with optional cursor-based pagination
  * Flexible function supporting both simple queries and paginated API responses
  *
  * @param db - Database client
+ * @param channelId - Channel whose plays to get
  * @param options - Query options
  * @returns Play log entries with optional pagination metadata
  *
  * @example
  * // Startup restoration (ASC order, no pagination)
- * getPlayLogs(db, { limit: 100, order: 'asc' })
+ * getPlayLogs(db, channelId, { limit: 100, order: 'asc' })
  *
  * @example
  * // API pagination (DESC order, cursor-based)
- * getPlayLogs(db, { limit: 50, order: 'desc', cursor: 'base64...', paginate: true })
+ * getPlayLogs(db, channelId, { limit: 50, order: 'desc', cursor: 'base64...', paginate: true })
  */
 export function getPlayLogs(
   db: DbClient,
+  channelId: string,
   options: {
     limit?: number
     cursor?: string // base64-encoded playLog.id
     order?: 'asc' | 'desc' // asc = oldest first (default), desc = newest first
     paginate?: boolean // Return pagination metadata (default: false)
+    sessionId?: number // Only plays from this session
   } = {}
 ):
-  | Array<{ id: number; clip: Clip; playedAt: Date; playedFor?: number; completedAt?: Date }>
+  | Array<{
+      id: number
+      clip: Clip
+      playedAt: Date
+      playedFor?: number
+      completedAt?: Date
+      sessionId?: number
+    }>
   | {
       entries: Array<{
         id: number
@@ -497,6 +830,7 @@ export function getPlayLogs(
         playedAt: Date
         playedFor?: number
         completedAt?: Date
+        sessionId?: number
       }>
       nextCursor: string | null
       hasMore: boolean
@@ -518,7 +852,8 @@ export function getPlayLogs(
         clipId: playLog.clipId,
         playedAt: playLog.playedAt,
         playedFor: playLog.playedFor,
-        completedAt: playLog.completedAt
+        completedAt: playLog.completedAt,
+        sessionId: playLog.sessionId
       })
       .from(playLog)
 
@@ -529,19 +864,22 @@ export function getPlayLogs(
     const fetchLimit = paginate ? limit + 1 : limit
 
     // Apply cursor filter if provided (only for DESC order pagination)
-    const rows =
-      cursor !== null && order === 'desc'
-        ? baseQuery
-            .where(lt(playLog.id, cursor))
-            .orderBy(orderFn(playLog.id))
-            .limit(fetchLimit)
-            .all()
-        : baseQuery.orderBy(orderFn(playLog.id)).limit(fetchLimit).all()
+    const rows = baseQuery
+      .where(
+        and(
+          eq(playLog.channelId, channelId),
+          cursor !== null && order === 'desc' ? lt(playLog.id, cursor) : undefined,
+          options.sessionId !== undefined ? eq(playLog.sessionId, options.sessionId) : undefined
+        )
+      )
+      .orderBy(orderFn(playLog.id))
+      .limit(fetchLimit)
+      .all()
 
     // Fetch clips for each play log entry, filtering out orphaned entries
     const allEntries = rows
       .map((row) => {
-        const clip = getClip(db, row.clipId)
+        const clip = getClip(db, channelId, row.clipId)
         if (!clip) {
           console.warn(`[Database] Orphaned play log entry: clip ${row.clipId} not found, skipping`)
           return null
@@ -551,7 +889,8 @@ export function getPlayLogs(
           clip,
           playedAt: new Date(row.playedAt),
           playedFor: row.playedFor ?? undefined,
-          completedAt: row.completedAt ? new Date(row.completedAt) : undefined
+          completedAt: row.completedAt ? new Date(row.completedAt) : undefined,
+          sessionId: row.sessionId ?? undefined
         }
       })
       .filter((entry): entry is NonNullable<typeof entry> => entry !== null)
@@ -580,23 +919,255 @@ export function getPlayLogs(
   }
 }
 
+/**
+ * Session Operations
+ */
+
+/**
+ * Start a session, ending the one that is running
+ * @returns ID of the new session
+ */
+export function startSession(
+  db: DbClient,
+  channelId: string,
+  source: SessionSource,
+  startedAt: Date = new Date()
+): number {
+  try {
+    return db.transaction((tx) => {
+      tx.update(sessions)
+        .set({ endedAt: startedAt })
+        .where(and(eq(sessions.channelId, channelId), isNull(sessions.endedAt)))
+        .run()
+      const result = tx.insert(sessions).values({ channelId, source, startedAt }).run()
+      return Number(result.lastInsertRowid)
+    })
+  } catch (error) {
+    console.error(`[DB] Failed to start session: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * End the running session
+ * @returns ID of the ended session, or null if none was running
+ */
+export function endSession(
+  db: DbClient,
+  channelId: string,
+  endedAt: Date = new Date()
+): number | null {
+  try {
+    const running = db
+      .update(sessions)
+      .set({ endedAt })
+      .where(and(eq(sessions.channelId, channelId), isNull(sessions.endedAt)))
+      .returning({ id: sessions.id })
+      .all()
+    return running[0]?.id ?? null
+  } catch (error) {
+    console.error(`[DB] Failed to end session: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Get sessions with their play counts, newest first, with cursor-based pagination
+ */
+export function getSessions(
+  db: DbClient,
+  channelId: string,
+  query: SessionsQuery
+): { entries: Session[]; nextCursor: string | null; hasMore: boolean } {
+  try {
+    let cursor: number | null = null
+    if (query.cursor) {
+      const parsed = parseInt(Buffer.from(query.cursor, 'base64').toString())
+      cursor = Number.isNaN(parsed) ? null : parsed
+    }
+
+    // Fetch limit + 1 to check hasMore
+    const rows = db
+      .select({
+        id: sessions.id,
+        source: sessions.source,
+        startedAt: sessions.startedAt,
+        endedAt: sessions.endedAt,
+        playCount: sql<number>`count(${playLog.id})`
+      })
+      .from(sessions)
+      .leftJoin(playLog, eq(playLog.sessionId, sessions.id))
+      .where(
+        and(
+          eq(sessions.channelId, channelId),
+          cursor !== null ? lt(sessions.id, cursor) : undefined
+        )
+      )
+      .groupBy(sessions.id)
+      .orderBy(desc(sessions.id))
+      .limit(query.limit + 1)
+      .all()
+
+    const hasMore = rows.length > query.limit
+    const entries = rows.slice(0, query.limit).map((row) => ({
+      ...row,
+      startedAt: row.startedAt.toISOString(),
+      endedAt: row.endedAt?.toISOString() ?? null
+    }))
+    const nextCursor =
+      hasMore && entries.length > 0
+        ? Buffer.from(entries[entries.length - 1]!.id.toString()).toString('base64')
+        : null
+
+    return { entries, nextCursor, hasMore }
+  } catch (error) {
+    console.error(`[DB] Failed to get sessions: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Count rows of a table per value of a column, most frequent first
+ * Rows where the column is null are left out
+ */
+function countBy(
+  db: DbClient,
+  table: SQLiteTable,
+  column: SQLiteColumn,
+  where: SQL,
+  limit?: number
+): StatsCount[] {
+  return db.all<StatsCount>(sql`
+    SELECT ${column} AS name, count(*) AS count FROM ${table}
+    WHERE ${where} AND ${column} IS NOT NULL
+    GROUP BY ${column}
+    ORDER BY count DESC, name
+    ${limit !== undefined ? sql`LIMIT ${limit}` : sql``}
+  `)
+}
+
+/**
+ * Get queue analytics for a date range
+ * Clip figures use when clips were submitted, play figures when they were played.
+ * Wait time runs from submission to a clip's first play, so replays don't count.
+ *
+ * @param db - Database client
+ * @param channelId - Channel to report on
+ * @param query - Date range (open-ended when omitted) and top list length
+ */
+export function getStats(db: DbClient, channelId: string, query: StatsQuery): QueueStats {
+  try {
+    // Timestamps are stored as unix seconds
+    const from = query.from ? Math.floor(query.from.getTime() / 1000) : 0
+    const to = Math.floor((query.to ?? new Date()).getTime() / 1000)
+
+    const clipsInRange = sql`${clips.channelId} = ${channelId} AND ${clips.submittedAt} BETWEEN ${from} AND ${to}`
+    const statusCounts = Object.fromEntries(
+      countBy(db, clips, clips.status, clipsInRange).map((row) => [row.name, row.count])
+    )
+    const clipCounts = {
+      approved: statusCounts.approved ?? 0,
+      pending: statusCounts.pending ?? 0,
+      rejected: statusCounts.rejected ?? 0,
+      played: statusCounts.played ?? 0
+    }
+    const total = Object.values(clipCounts).reduce((sum, value) => sum + value, 0)
+    // Played clips were approved first
+    const accepted = clipCounts.approved + clipCounts.played
+    const moderated = accepted + clipCounts.rejected
+
+    const plays = db.get<{ count: number; sessionPlays: number }>(sql`
+      SELECT count(*) AS count, count(${playLog.sessionId}) AS sessionPlays FROM ${playLog}
+      WHERE ${playLog.channelId} = ${channelId} AND ${playLog.playedAt} BETWEEN ${from} AND ${to}
+    `)!
+
+    const wait = db.get<{ seconds: number | null }>(sql`
+      SELECT avg(first_played_at - ${clips.submittedAt}) AS seconds
+      FROM (
+        SELECT clip_id, min(played_at) AS first_played_at FROM ${playLog}
+        WHERE ${playLog.channelId} = ${channelId}
+        GROUP BY clip_id
+      ) AS first_plays
+      JOIN ${clips} ON ${clips.channelId} = ${channelId} AND ${clips.id} = first_plays.clip_id
+      WHERE first_played_at BETWEEN ${from} AND ${to}
+        AND first_played_at >= ${clips.submittedAt}
+    `)!
+
+    // Only the part of each session inside the range counts
+    const session = db.get<{ seconds: number | null }>(sql`
+      SELECT sum(
+        min(coalesce(${sessions.endedAt}, unixepoch()), ${to}) - max(${sessions.startedAt}, ${from})
+      ) AS seconds
+      FROM ${sessions}
+      WHERE ${sessions.channelId} = ${channelId}
+        AND ${sessions.startedAt} < ${to} AND coalesce(${sessions.endedAt}, unixepoch()) > ${from}
+    `)!
+    const sessionHours = (session.seconds ?? 0) / 3600
+
+    return {
+      from: query.from?.toISOString() ?? null,
+      to: query.to?.toISOString() ?? null,
+      clips: { total, ...clipCounts },
+      approvalRate: moderated > 0 ? accepted / moderated : null,
+      rejectionRate: moderated > 0 ? clipCounts.rejected / moderated : null,
+      topSubmitters: countBy(
+        db,
+        clipSubmitters,
+        clipSubmitters.submitter,
+        sql`${clipSubmitters.channelId} = ${channelId} AND ${clipSubmitters.submittedAt} BETWEEN ${from} AND ${to}`,
+        query.limit
+      ),
+      platforms: countBy(db, clips, clips.platform, clipsInRange),
+      contentTypes: countBy(db, clips, clips.contentType, clipsInRange),
+      topCategories: countBy(db, clips, clips.category, clipsInRange, query.limit),
+      topChannels: countBy(db, clips, clips.channel, clipsInRange, query.limit),
+      plays: plays.count,
+      averageWaitSeconds: wait.seconds,
+      playsPerHour: sessionHours > 0 ? plays.sessionPlays / sessionHours : null
+    }
+  } catch (error) {
+    console.error(`[DB] Failed to get stats: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Delete a single play log entry
+ */
+export function deletePlayLog(db: DbClient, channelId: string, playLogId: number): void {
+  try {
+    db.delete(playLog)
+      .where(and(eq(playLog.channelId, channelId), eq(playLog.id, playLogId)))
+      .run()
+  } catch (error) {
+    console.error(`[DB] Failed to delete play log: ${error}`)
+    throw error
+  }
+}
+
 /**
  * Delete all play log entries for clips with specified status
  */
-export function deletePlayLogsByClipStatus(db: DbClient, status: 'played'): void {
+export function deletePlayLogsByClipStatus(
+  db: DbClient,
+  channelId: string,
+  status: 'played'
+): void {
   try {
     // Get all clip IDs with the specified status
     const clipIds = db
       .select({ id: clips.id })
       .from(clips)
-      .where(eq(clips.status, status))
+      .where(and(eq(clips.channelId, channelId), eq(clips.status, status)))
       .all()
       .map((row) => row.id)
 
     if (clipIds.length === 0) return
 
     // Delete play log entries for those clips
-    db.delete(playLog).where(inArray(playLog.clipId, clipIds)).run()
+    db.delete(playLog)
+      .where(and(eq(playLog.channelId, channelId), inArray(playLog.clipId, clipIds)))
+      .run()
   } catch (error) {
     console.error(`[DB] Failed to delete play logs by clip status: ${error}`)
     throw error
@@ -606,23 +1177,204 @@ export function deletePlayLogsByClipStatus(db: DbClient, status: 'played'): void
 /**
  * Delete all play log entries
  */
-export function deleteAllPlayLogs(db: DbClient): void {
+export function deleteAllPlayLogs(db: DbClient, channelId: string): void {
   try {
-    db.delete(playLog).run()
+    db.delete(playLog).where(eq(playLog.channelId, channelId)).run()
   } catch (error) {
     console.error(`[DB] Failed to delete all play logs: ${error}`)
     throw error
   }
 }
 
+/**
+ * Submission Attempt Operations
+ */
+
+/**
+ * Record a clip submission attempt
+ * @returns The ID of the inserted attempt
+ */
+export function insertSubmissionAttempt(
+  db: DbClient,
+  channelId: string,
+  attempt: Omit<SubmissionAttempt, 'id' | 'attemptedAt'>
+): number {
+  try {
+    const result = db
+      .insert(submissionAttempts)
+      .values({ ...attempt, channelId, attemptedAt: new Date() })
+      .run()
+
+    return Number(result.lastInsertRowid)
+  } catch (error) {
+    console.error(`[DB] Failed to insert submission attempt: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Get submission attempts, newest first, with filters and cursor-based pagination
+ * Submitter matching is case-insensitive
+ */
+export function getSubmissionAttempts(
+  db: DbClient,
+  channelId: string,
+  query: SubmissionAttemptsQuery
+): { entries: SubmissionAttempt[]; nextCursor: string | null; hasMore: boolean } {
+  try {
+    let cursor: number | null = null
+    if (query.cursor) {
+      const parsed = parseInt(Buffer.from(query.cursor, 'base64').toString())
+      cursor = Number.isNaN(parsed) ? null : parsed
+    }
+
+    // Fetch limit + 1 to check hasMore
+    const rows = db
+      .select()
+      .from(submissionAttempts)
+      .where(
+        and(
+          eq(submissionAttempts.channelId, channelId),
+          cursor !== null ? lt(submissionAttempts.id, cursor) : undefined,
+          query.submitter
+            ? sql`lower(${submissionAttempts.submitter}) = ${query.submitter.toLowerCase()}`
+            : undefined,
+          query.outcome ? eq(submissionAttempts.outcome, query.outcome) : undefined,
+          query.source ? eq(submissionAttempts.source, query.source) : undefined
+        )
+      )
+      .orderBy(desc(submissionAttempts.id))
+      .limit(query.limit + 1)
+      .all()
+
+    const hasMore = rows.length > query.limit
+    const entries = rows.slice(0, query.limit).map((row) => ({
+      ...row,
+      attemptedAt: row.attemptedAt.toISOString()
+    }))
+    const nextCursor =
+      hasMore && entries.length > 0
+        ? Buffer.from(entries[entries.length - 1]!.id.toString()).toString('base64')
+        : null
+
+    return { entries, nextCursor, hasMore }
+  } catch (error) {
+    console.error(`[DB] Failed to get submission attempts: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Delete submission attempts older than a date
+ * @returns Number of deleted attempts
+ */
+export function deleteSubmissionAttemptsBefore(
+  db: DbClient,
+  channelId: string,
+  before: Date
+): number {
+  try {
+    const result = db
+      .delete(submissionAttempts)
+      .where(
+        and(eq(submissionAttempts.channelId, channelId), lt(submissionAttempts.attemptedAt, before))
+      )
+      .run()
+    return result.changes
+  } catch (error) {
+    console.error(`[DB] Failed to delete old submission attempts: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Audit Log Operations
+ */
+
+/**
+ * Record a moderator action
+ * @returns The ID of the inserted entry
+ */
+export function insertAuditLogEntry(
+  db: DbClient,
+  channelId: string,
+  entry: Omit<AuditLogEntry, 'id' | 'createdAt'>
+): number {
+  try {
+    const result = db
+      .insert(auditLog)
+      .values({ ...entry, channelId, createdAt: new Date() })
+      .run()
+
+    return Number(result.lastInsertRowid)
+  } catch (error) {
+    console.error(`[DB] Failed to insert audit log entry: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Get audit log entries, newest first, with filters and cursor-based pagination
+ * Actor matching is case-insensitive
+ */
+export function getAuditLog(
+  db: DbClient,
+  channelId: string,
+  query: AuditLogQuery
+): { entries: AuditLogEntry[]; nextCursor: string | null; hasMore: boolean } {
+  try {
+    let cursor: number | null = null
+    if (query.cursor) {
+      const parsed = parseInt(Buffer.from(query.cursor, 'base64').toString())
+      cursor = Number.isNaN(parsed) ? null : parsed
+    }
+
+    // Fetch limit + 1 to check hasMore
+    const rows = db
+      .select()
+      .from(auditLog)
+      .where(
+        and(
+          eq(auditLog.channelId, channelId),
+          cursor !== null ? lt(auditLog.id, cursor) : undefined,
+          query.actor ? sql`lower(${auditLog.actor}) = ${query.actor.toLowerCase()}` : undefined,
+          query.action ? eq(auditLog.action, query.action) : undefined
+        )
+      )
+      .orderBy(desc(auditLog.id))
+      .limit(query.limit + 1)
+      .all()
+
+    const hasMore = rows.length > query.limit
+    const entries = rows.slice(0, query.limit).map((row) => ({
+      ...row,
+      createdAt: row.createdAt.toISOString()
+    }))
+    const nextCursor =
+      hasMore && entries.length > 0
+        ? Buffer.from(entries[entries.length - 1]!.id.toString()).toString('base64')
+        : null
+
+    return { entries, nextCursor, hasMore }
+  } catch (error) {
+    console.error(`[DB] Failed to get audit log: ${error}`)
+    throw error
+  }
+}
+
 /**
  * Re-export types and schemas
  */
 export {
+  channels,
   clips,
   clipSubmitters,
   playLog,
   settings,
+  submissionAttempts,
+  auditLog,
+  queueStatus,
+  sessions,
   type Clip,
   type AppSettings,
   type Provider,
@@ -1,7 +1,8 @@
 /**
  * Twitch EventSub WebSocket Client
  * Modern replacement for IRC/tmi.js using official EventSub WebSocket API
- * Handles chat messages, reconnects, and subscription cleanup
+ * One connection serves every hosted channel. Handles chat messages, channel point redemptions, stream online/offline, reconnects,
+ * and subscription cleanup
  */
 
 import WebSocket from 'ws'
@@ -11,12 +12,44 @@ export interface EventSubMessage {
   username: string
   text: string
   channel: string
+  channelId: string
   isModerator: boolean
   isBroadcaster: boolean
+  isVip: boolean
+  isSubscriber: boolean
   messageId: string
 }
 
+/**
+ * Channel point custom reward redemption
+ */
+export interface EventSubRedemption {
+  id: string
+  rewardId: string
+  rewardTitle: string
+  username: string
+  userInput: string
+  channel: string
+  channelId: string
+}
+
+export type RedemptionStatus = 'FULFILLED' | 'CANCELED'
+
+/**
+ * Whether the channel is streaming
+ */
+export interface EventSubStreamStatus {
+  isLive: boolean
+  /** When the stream went live (null when offline) */
+  startedAt: Date | null
+}
+
 export type EventSubMessageHandler = (message: EventSubMessage) => void | Promise<void>
+export type EventSubRedemptionHandler = (redemption: EventSubRedemption) => void | Promise<void>
+export type EventSubStreamStatusHandler = (
+  channelId: string,
+  status: EventSubStreamStatus
+) => void | Promise<void>
 export type EventSubDisconnectHandler = () => void
 export type EventSubTokenExpiredHandler = () => Promise<string | null>
 
@@ -65,6 +98,20 @@ const EventSubEventSchema = z.object({
         chatter_user_login: z.string().optional(),
         chatter_user_name: z.string().optional(),
         message_id: z.string().optional(),
+        id: z.string().optional(),
+        user_login: z.string().optional(),
+        user_input: z.string().optional(),
+        status: z.string().optional(),
+        reward: z
+          .object({
+            id: z.string(),
+            title: z.string(),
+            cost: z.number(),
+            prompt: z.string()
+          })
+          .optional(),
+        redeemed_at: z.string().optional(),
+        started_at: z.string().optional(),
         message: z
           .object({
             text: z.string(),
@@ -152,6 +199,18 @@ interface EventSubEvent {
       chatter_user_login?: string
       chatter_user_name?: string
       message_id?: string
+      id?: string
+      user_login?: string
+      user_input?: string
+      status?: string
+      reward?: {
+        id: string
+        title: string
+        cost: number
+        prompt: string
+      }
+      redeemed_at?: string
+      started_at?: string
       message?: {
         text: string
         fragments: Array<{
@@ -189,11 +248,13 @@ interface EventSubEvent {
 export class TwitchEventSubClient {
   private ws: WebSocket | null = null
   private sessionId: string | null = null
-  private channelId: string | null = null
-  private userId: string | null = null
+  private channels: Map<string, string> = new Map() // Subscribed channel ID -> login
+  private userId: string | null = null // User the access token belongs to (sends chat messages)
   private accessToken: string
   private clientId: string
   private messageHandlers: Set<EventSubMessageHandler> = new Set()
+  private redemptionHandlers: Set<EventSubRedemptionHandler> = new Set()
+  private streamStatusHandlers: Set<EventSubStreamStatusHandler> = new Set()
   private disconnectHandlers: Set<EventSubDisconnectHandler> = new Set()
   private tokenExpiredHandler: EventSubTokenExpiredHandler | null = null
   private keepaliveTimer: NodeJS.Timeout | null = null
@@ -290,25 +351,93 @@ export class TwitchEventSubClient {
   }
 
   /**
-   * Subscribe to channel chat messages
-   * Cleans up orphaned subscriptions then creates new subscription for channel.chat.message
+   * Look up a Twitch channel by login
+   * @returns The channel's broadcaster ID and login, or null if it doesn't exist
    */
-  async subscribeToChannel(channelLogin: string): Promise<void> {
-    if (!this.sessionId) throw new Error('No session ID - must connect first')
+  async getChannel(channelLogin: string): Promise<{ id: string; login: string } | null> {
+    return this.getTwitchUser(channelLogin)
+  }
 
-    const channelData = await this.getTwitchUser(channelLogin)
-    if (!channelData) throw new Error(`Channel not found: ${channelLogin}`)
+  /**
+   * Subscribe to channel chat messages, channel point redemptions and stream status
+   * The first subscription cleans up orphaned subscriptions, then each one creates
+   * subscriptions for channel.chat.message, channel.channel_points_custom_reward_redemption.add,
+   * stream.online and stream.offline
+   */
+  async subscribeToChannel(channel: { id: string; login: string }): Promise<void> {
+    if (!this.sessionId) throw new Error('No session ID - must connect first')
 
-    this.channelId = channelData.id
-    this.userId = channelData.id
+    // Chat is read and sent as the user the access token belongs to
+    if (!this.userId) {
+      const tokenUser = await this.getTwitchUser()
+      if (!tokenUser) throw new Error('Could not look up the access token user')
+      this.userId = tokenUser.id
+    }
 
-    await this.cleanupOldSubscriptions()
+    if (this.channels.size === 0) {
+      await this.cleanupOldSubscriptions()
+    }
     await this.createSubscription('channel.chat.message', {
-      broadcaster_user_id: this.channelId,
+      broadcaster_user_id: channel.id,
       user_id: this.userId
     })
+    this.channels.set(channel.id, channel.login)
 
-    console.log(`[EventSub] Subscribed to chat: ${channelLogin} (${this.channelId})`)
+    console.log(`[EventSub] Subscribed to chat: ${channel.login} (${channel.id})`)
+
+    // Redemptions need channel:manage:redemptions and an affiliate/partner channel,
+    // so chat keeps working without them
+    try {
+      await this.createSubscription('channel.channel_points_custom_reward_redemption.add', {
+        broadcaster_user_id: channel.id
+      })
+      console.log(`[EventSub] Subscribed to channel point redemptions: ${channel.login}`)
+    } catch (error) {
+      console.warn(`[EventSub] Channel point redemptions unavailable for ${channel.login}:`, error)
+    }
+
+    try {
+      await this.createSubscription('stream.online', { broadcaster_user_id: channel.id })
+      await this.createSubscription('stream.offline', { broadcaster_user_id: channel.id })
+      console.log(`[EventSub] Subscribed to stream online/offline: ${channel.login}`)
+    } catch (error) {
+      console.warn(`[EventSub] Stream online/offline unavailable for ${channel.login}:`, error)
+    }
+  }
+
+  /** Check if a channel's chat is subscribed */
+  isSubscribed(channelId: string): boolean {
+    return this.channels.has(channelId)
+  }
+
+  /**
+   * Look up whether a channel is streaming right now
+   * @returns The stream status, or null if it couldn't be fetched
+   */
+  async getStreamStatus(channelId: string): Promise<EventSubStreamStatus | null> {
+    try {
+      const response = await this.fetchWithTokenRefresh(
+        `https://api.twitch.tv/helix/streams?user_id=${channelId}`,
+        {
+          headers: {
+            'Client-ID': this.clientId,
+            Authorization: `Bearer ${this.accessToken}`
+          }
+        }
+      )
+
+      if (!response || !response.ok) {
+        console.warn(`[EventSub] Failed to get stream status: ${response?.status || 'no response'}`)
+        return null
+      }
+
+      const data = (await response.json()) as { data: Array<{ started_at: string }> }
+      const stream = data.data[0]
+      return { isLive: !!stream, startedAt: stream ? new Date(stream.started_at) : null }
+    } catch (error) {
+      console.error('[EventSub] Failed to get stream status:', error)
+      return null
+    }
   }
 
   private async cleanupOldSubscriptions(): Promise<void> {
@@ -366,11 +495,132 @@ export class TwitchEventSubClient {
     }
   }
 
+  /**
+   * Send a chat message to a subscribed channel as the bot user
+   * Requires the user:write:chat scope
+   * @param channelId - Broadcaster ID of the channel
+   * @param text - Message text (max 500 characters)
+   * @param replyParentMessageId - Chat message ID to thread the message under
+   * @returns True if Twitch accepted the message
+   */
+  async sendChatMessage(
+    channelId: string,
+    text: string,
+    replyParentMessageId?: string
+  ): Promise<boolean> {
+    if (!this.channels.has(channelId) || !this.userId) {
+      console.warn(`[EventSub] Cannot send chat message - not subscribed to channel ${channelId}`)
+      return false
+    }
+
+    try {
+      const response = await this.fetchWithTokenRefresh(
+        'https://api.twitch.tv/helix/chat/messages',
+        {
+          method: 'POST',
+          headers: {
+            'Client-ID': this.clientId,
+            Authorization: `Bearer ${this.accessToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            broadcaster_id: channelId,
+            sender_id: this.userId,
+            message: text,
+            ...(replyParentMessageId && { reply_parent_message_id: replyParentMessageId })
+          })
+        }
+      )
+
+      if (!response || !response.ok) {
+        const error = response ? await response.text() : 'no response'
+        console.error(
+          `[EventSub] Failed to send chat message: ${response?.status || 'unknown'} ${error}`
+        )
+        return false
+      }
+
+      const data = (await response.json()) as {
+        data: Array<{ is_sent: boolean; drop_reason?: { code: string; message: string } | null }>
+      }
+      const result = data.data[0]
+      if (!result?.is_sent) {
+        console.warn(
+          `[EventSub] Chat message dropped: ${result?.drop_reason?.message || 'unknown reason'}`
+        )
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('[EventSub] Failed to send chat message:', error)
+      return false
+    }
+  }
+
+  /**
+   * Mark a channel point redemption as fulfilled or canceled (canceled refunds the points)
+   * Twitch only allows this for rewards created by this app's client ID
+   * @returns True if Twitch accepted the update
+   */
+  async updateRedemptionStatus(
+    channelId: string,
+    rewardId: string,
+    redemptionId: string,
+    status: RedemptionStatus
+  ): Promise<boolean> {
+    if (!this.channels.has(channelId)) {
+      console.warn(`[EventSub] Cannot update redemption - not subscribed to channel ${channelId}`)
+      return false
+    }
+
+    try {
+      const params = new URLSearchParams({
+        broadcaster_id: channelId,
+        reward_id: rewardId,
+        id: redemptionId
+      })
+      const response = await this.fetchWithTokenRefresh(
+        `https://api.twitch.tv/helix/channel_points/custom_rewards/redemptions?${params}`,
+        {
+          method: 'PATCH',
+          headers: {
+            'Client-ID': this.clientId,
+            Authorization: `Bearer ${this.accessToken}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ status })
+        }
+      )
+
+      if (!response || !response.ok) {
+        const error = response ? await response.text() : 'no response'
+        console.error(
+          `[EventSub] Failed to update redemption ${redemptionId}: ${response?.status || 'unknown'} ${error}`
+        )
+        return false
+      }
+      return true
+    } catch (error) {
+      console.error('[EventSub] Failed to update redemption:', error)
+      return false
+    }
+  }
+
   /** Register handler for incoming chat messages */
   onMessage(handler: EventSubMessageHandler): void {
     this.messageHandlers.add(handler)
   }
 
+  /** Register handler for channel point redemptions */
+  onRedemption(handler: EventSubRedemptionHandler): void {
+    this.redemptionHandlers.add(handler)
+  }
+
+  /** Register handler for the stream going online or offline */
+  onStreamStatus(handler: EventSubStreamStatusHandler): void {
+    this.streamStatusHandlers.add(handler)
+  }
+
   /** Register handler for disconnect events */
   onDisconnect(handler: EventSubDisconnectHandler): void {
     this.disconnectHandlers.add(handler)
@@ -462,21 +712,35 @@ export class TwitchEventSubClient {
 
     if (subscriptionType === 'channel.chat.message' && eventData) {
       this.handleChatMessage(eventData)
+    } else if (
+      subscriptionType === 'channel.channel_points_custom_reward_redemption.add' &&
+      eventData
+    ) {
+      this.handleRedemption(eventData)
+    } else if (subscriptionType === 'stream.online' || subscriptionType === 'stream.offline') {
+      this.handleStreamStatus(subscriptionType === 'stream.online', eventData)
     }
   }
 
   private handleChatMessage(eventData: EventSubEvent['payload']['event']): void {
     if (!eventData?.message?.text) return
 
-    const isModerator = eventData.badges?.some((b) => b.set_id === 'moderator') || false
-    const isBroadcaster = eventData.badges?.some((b) => b.set_id === 'broadcaster') || false
+    const badges = eventData.badges ?? []
+    const isModerator = badges.some((b) => b.set_id === 'moderator')
+    const isBroadcaster = badges.some((b) => b.set_id === 'broadcaster')
+    const isVip = badges.some((b) => b.set_id === 'vip')
+    // Founders are early subscribers and show the founder badge instead of subscriber
+    const isSubscriber = badges.some((b) => b.set_id === 'subscriber' || b.set_id === 'founder')
 
     const message: EventSubMessage = {
       username: eventData.chatter_user_login || 'unknown',
       text: eventData.message.text,
       channel: eventData.broadcaster_user_login || '',
+      channelId: eventData.broadcaster_user_id || '',
       isModerator,
       isBroadcaster,
+      isVip,
+      isSubscriber,
       messageId: eventData.message_id || ''
     }
 
@@ -489,6 +753,46 @@ export class TwitchEventSubClient {
     }
   }
 
+  private handleRedemption(eventData: EventSubEvent['payload']['event']): void {
+    if (!eventData?.id || !eventData.reward) return
+
+    const redemption: EventSubRedemption = {
+      id: eventData.id,
+      rewardId: eventData.reward.id,
+      rewardTitle: eventData.reward.title,
+      username: eventData.user_login || 'unknown',
+      userInput: eventData.user_input ?? '',
+      channel: eventData.broadcaster_user_login || '',
+      channelId: eventData.broadcaster_user_id || ''
+    }
+
+    for (const handler of this.redemptionHandlers) {
+      try {
+        handler(redemption)
+      } catch (error) {
+        console.error('[EventSub] Redemption handler error:', error)
+      }
+    }
+  }
+
+  private handleStreamStatus(isLive: boolean, eventData: EventSubEvent['payload']['event']): void {
+    const channelId = eventData?.broadcaster_user_id
+    if (!channelId) return
+
+    const status: EventSubStreamStatus = {
+      isLive,
+      startedAt: isLive ? new Date(eventData?.started_at ?? Date.now()) : null
+    }
+
+    for (const handler of this.streamStatusHandlers) {
+      try {
+        handler(channelId, status)
+      } catch (error) {
+        console.error('[EventSub] Stream status handler error:', error)
+      }
+    }
+  }
+
   /**
    * Handle server-requested reconnect
    * Connects to new URL first - subscriptions transfer automatically, old connection closes
@@ -542,9 +846,12 @@ export class TwitchEventSubClient {
     console.log(`[EventSub] Created subscription:`, data)
   }
 
-  private async getTwitchUser(login: string): Promise<{ id: string; login: string } | null> {
+  /**
+   * Look up a user by login, or the user the access token belongs to
+   */
+  private async getTwitchUser(login?: string): Promise<{ id: string; login: string } | null> {
     const response = await this.fetchWithTokenRefresh(
-      `https://api.twitch.tv/helix/users?login=${login}`,
+      `https://api.twitch.tv/helix/users${login ? `?login=${login}` : ''}`,
       {
         headers: {
           'Client-ID': this.clientId,
@@ -556,7 +863,7 @@ export class TwitchEventSubClient {
     if (!response || !response.ok) {
       const errorText = response ? await response.text() : 'no response'
       console.error(
-        `[EventSub] Failed to get user ${login}: ${response?.status || 'unknown'} ${response?.statusText || ''}`
+        `[EventSub] Failed to get user ${login ?? '(token user)'}: ${response?.status || 'unknown'} ${response?.statusText || ''}`
       )
       console.error(`[EventSub] Response: ${errorText}`)
       return null
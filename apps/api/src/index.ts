@@ -1,128 +1,36 @@
 /**
  * Clip Queue Server
  *
- * Express + polling backend for multi-user clip queue.
- * Continuously monitors Twitch chat, manages clip queue, and syncs to clients via HTTP polling.
+ * Express backend for multi-user clip queues, one per hosted channel.
+ * Continuously monitors Twitch chat, manages each channel's clip queue, and syncs to clients via
+ * Server-Sent Events (with HTTP polling as a fallback).
  *
  * NOTE: This file is imported by server.ts, which loads .env and validates env vars first.
  */
 
-import { createHash } from 'crypto'
 import { createServer } from 'http'
 
 import cookieParser from 'cookie-parser'
 import cors from 'cors'
-import { eq } from 'drizzle-orm'
 import express from 'express'
-import rateLimit, { ipKeyGenerator } from 'express-rate-limit'
 import helmet from 'helmet'
-import { z } from 'zod'
-
-import {
-  ClipList,
-  KickPlatform,
-  PlayHistory,
-  SoraPlatform,
-  StreamablePlatform,
-  toClipUUID,
-  TwitchPlatform
-} from '@cq/platforms'
-import { advanceQueue, clearQueue, jumpToHistoryClip, playClip, previousClip } from '@cq/queue-ops'
-import kick from '@cq/services/kick'
-import sora from '@cq/services/sora'
-import streamable from '@cq/services/streamable'
-import twitch from '@cq/services/twitch'
-import { TTLCache } from '@cq/utils'
 
 import type { AuthenticatedRequest } from './auth.js'
-import type { AppSettings, Clip, Provider } from './db.js'
-import {
-  authenticate,
-  clearAllCaches,
-  getCacheStats,
-  invalidateRoleCache,
-  invalidateTokenCache,
-  requireBroadcaster,
-  requireModerator
-} from './auth.js'
-import {
-  clips,
-  closeDatabase,
-  deleteClipsByStatus,
-  deletePlayLogsByClipStatus,
-  getClip,
-  getClipsByStatus,
-  getPlayLogs,
-  initDatabase,
-  initSettings,
-  insertPlayLog,
-  playLog,
-  PROVIDERS,
-  updateClipStatus,
-  updateSettings,
-  upsertClip
-} from './db.js'
+import type { HostedChannel } from './channel.js'
+import type { Channel } from './db.js'
+import { authenticate, invalidateRoleCache, invalidateTokenCache } from './auth.js'
+import { createChannel } from './channel.js'
+import { closeDatabase, getChannels, initDatabase, registerChannel } from './db.js'
 import { TwitchEventSubClient } from './eventsub.js'
+import {
+  asyncHandler,
+  authFailureLimiter,
+  hlsProxyLimiter,
+  publicReadLimiter
+} from './middleware.js'
 import oauthRouter from './oauth.js'
 import { BotTokenManager } from './token-manager.js'
 
-/**
- * Simple async mutex for preventing race conditions
- */
-class Mutex {
-  private queue: (() => void)[] = []
-  private locked = false
-
-  async acquire(): Promise<() => void> {
-    return new Promise((resolve) => {
-      if (!this.locked) {
-        this.locked = true
-        resolve(() => this.release())
-      } else {
-        this.queue.push(() => resolve(() => this.release()))
-      }
-    })
-  }
-
-  private release(): void {
-    const next = this.queue.shift()
-    if (next) {
-      next()
-    } else {
-      this.locked = false
-    }
-  }
-}
-
-// Mutexes for preventing race conditions
-const clipSubmissionMutex = new Mutex()
-const queueOperationMutex = new Mutex()
-
-/**
- * Async route wrapper to catch errors and pass to Express error middleware
- */
-function asyncHandler(fn: express.RequestHandler): express.RequestHandler {
-  return (req, res, next) => {
-    Promise.resolve(fn(req, res, next)).catch(next)
-  }
-}
-
-/**
- * Input validation schemas for API endpoints
- */
-const SubmitClipSchema = z.object({
-  url: z.string().url().min(1).max(500),
-  submitter: z.string().min(1).max(100)
-})
-
-const ClipIdSchema = z.object({
-  clipId: z.string().min(1).max(200)
-})
-
-const BatchClipIdsSchema = z.object({
-  clipIds: z.array(z.string().min(1).max(200)).min(1).max(100)
-})
-
 const app = express()
 const server = createServer(app)
 
@@ -166,154 +74,32 @@ app.use(cors({ origin: corsOrigin, credentials: true }))
 app.use(express.json({ limit: '1mb' })) // Add size limit to prevent DoS
 app.use(cookieParser()) // Parse cookies for OAuth token
 
-// Rate limiting - separate limiters by route type
-const publicReadLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000,
-  max: 500, // Higher limit for read-only endpoints
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: 'Too many requests. Check RateLimit-Reset header for retry time.'
-})
-
-const authenticatedLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000,
-  max: 100,
-  standardHeaders: true,
-  legacyHeaders: false,
-  keyGenerator: (req: AuthenticatedRequest) => {
-    // Use userId if authenticated, fallback to IP with proper IPv6 handling
-    if (req.user?.userId) {
-      return req.user.userId
-    }
-    // Use built-in IPv6-safe IP key generator
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return ipKeyGenerator(req as any)
-  },
-  skipSuccessfulRequests: false
-})
-
-// HLS proxy limiter - higher limit for streaming (HLS uses ~50+ requests per video)
-const hlsProxyLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000,
-  max: 5000, // Allow ~100 videos per 15 minutes
-  standardHeaders: true,
-  legacyHeaders: false,
-  message: 'Too many HLS proxy requests. Check RateLimit-Reset header for retry time.'
-})
-
-const authFailureLimiter = rateLimit({
-  windowMs: 15 * 60 * 1000,
-  max: 20,
-  standardHeaders: true,
-  legacyHeaders: false,
-  skipSuccessfulRequests: true, // Only count failures
-  message: 'Too many failed authentication attempts. Please try again later.'
-})
-
 // Initialize database
 const db = initDatabase(process.env.DB_PATH)
 
-// Initialize settings from database
-let settings: AppSettings = initSettings(db)
-console.log('[Settings] Loaded from database:', settings)
-
-// Initialize queue and platform
-const queue = new ClipList()
-const playHistory = new PlayHistory()
-let currentClip: Clip | null = null
-let historyPosition = -1 // -1 = at end (queue mode), >= 0 = index in history
-let isQueueOpen = true
-
-/**
- * Generate ETag hash from queue state
- * Used for efficient HTTP caching (304 Not Modified responses)
- * Includes clip IDs, submitter counts, queue status, and settings for accurate change detection
- */
-// Cached ETag for state hash optimization
-let cachedETag: string | null = null
-
-/**
- * Invalidate cached ETag when state changes
- * Must be called after any state mutation
- */
-function invalidateETag() {
-  cachedETag = null
-}
+// Channels to host (comma-separated logins)
+const channelLogins = process.env.TWITCH_CHANNEL_NAME!.split(',')
 
-function generateStateHash(): string {
-  // Return cached ETag if available
-  if (cachedETag) return cachedETag
-
-  const state = {
-    current: currentClip?.id || null,
-    currentSubmitters: currentClip?.submitters.length || 0,
-    upcoming: queue.toArray().map((c) => ({ id: c.id, submitters: c.submitters.length })),
-    playHistory: playHistory
-      .toArray()
-      .map((e) => ({ id: e.id, clipId: e.clip.id, playedAt: e.playedAt.getTime() })),
-    isOpen: isQueueOpen,
-    settings: settings // Include settings in hash for change detection
-  }
-  // Use full SHA256 hash (64 hex chars) to minimize collision risk
-  cachedETag = createHash('sha256').update(JSON.stringify(state)).digest('hex')
-  return cachedETag
-}
+// Hosted channels by broadcaster ID
+const hostedChannels = new Map<string, HostedChannel>()
 
 /**
- * Get current queue state
- * Used for API responses to avoid race conditions
+ * Register a channel and load its state, unless it is hosted already
  */
-function getQueueState() {
-  return {
-    current: currentClip,
-    upcoming: queue.toArray(),
-    playHistory: playHistory.toArray(),
-    historyPosition, // Navigation state
-    isOpen: isQueueOpen,
-    settings: settings // Include settings for client synchronization
-  }
+function hostChannel(channel: Channel): HostedChannel {
+  const hosted = hostedChannels.get(channel.id)
+  if (hosted) return hosted
+
+  registerChannel(db, channel)
+  const created = createChannel(db, channel, () => eventSubClient)
+  hostedChannels.set(channel.id, created)
+  return created
 }
 
-const platforms = {
-  twitch: new TwitchPlatform(() => ({
-    id: process.env.TWITCH_CLIENT_ID!,
-    token: process.env.TWITCH_BOT_TOKEN
-  })),
-  kick: new KickPlatform(),
-  sora: new SoraPlatform(),
-  streamable: new StreamablePlatform()
+function findChannelByLogin(login: string): HostedChannel | undefined {
+  return [...hostedChannels.values()].find((hosted) => hosted.login === login)
 }
 
-// Per-user rate limiting cache (tracks last submission time per user)
-const userSubmissionCache = new TTLCache<string, number>(60000) // 1 minute TTL
-const urlSubmissionCache = new TTLCache<string, number>(5000) // 5 second TTL for duplicate URL prevention
-
-// Restore queue and play history from database
-function restoreQueueFromDatabase() {
-  const approvedClips = getClipsByStatus(db, 'approved')
-  const playLogs = getPlayLogs(db, { limit: 50, order: 'asc' }) as Array<{
-    id: number
-    clip: Clip
-    playedAt: Date
-  }>
-
-  for (const clip of approvedClips) {
-    queue.add(clip)
-  }
-
-  for (const entry of playLogs) {
-    playHistory.add(entry)
-  }
-
-  console.log(`[Queue] Restored ${approvedClips.length} clips from database`)
-  console.log(`[PlayHistory] Restored ${playLogs.length} play log entries from database`)
-
-  // Invalidate ETag after restoring state
-  invalidateETag()
-}
-
-restoreQueueFromDatabase()
-
 // Initialize Twitch EventSub chat monitoring
 let eventSubClient: TwitchEventSubClient | null = null
 let eventSubConnectedAt: Date | null = null
@@ -350,10 +136,8 @@ function calculateBackoff(attempts: number, isRateLimit = false): number {
 }
 
 async function connectToChat() {
-  const channelName = process.env.TWITCH_CHANNEL_NAME!
-
   try {
-    console.log(`[Chat] Connecting to EventSub for channel: ${channelName}`)
+    console.log(`[Chat] Connecting to EventSub for channels: ${channelLogins.join(', ')}`)
 
     // Get current token from token manager
     const currentToken = botTokenManager.getAccessToken()
@@ -381,59 +165,45 @@ async function connectToChat() {
       // For unexpected disconnects, outer error handler will retry with backoff
     })
 
-    // Listen for chat messages
+    // Events are handed to the channel they came from
     eventSubClient.onMessage(async (message) => {
-      try {
-        eventSubLastMessageAt = new Date() // Track last message timestamp
-        console.log(`[Chat] ${message.username}: ${message.text}`)
-
-        // Check if message is a command
-        if (message.text.startsWith(settings.commands.prefix)) {
-          // Only mods and broadcasters can use commands
-          if (message.isModerator || message.isBroadcaster) {
-            await handleChatCommand(message)
-          } else {
-            console.log(`[Chat] User ${message.username} is not allowed to use commands`)
-          }
-          return
-        }
+      eventSubLastMessageAt = new Date() // Track last message timestamp
+      await hostedChannels.get(message.channelId)?.handleMessage(message)
+    })
 
-        // Extract URLs from message text
-        const urlRegex = /(https?:\/\/[^\s]+)/g
-        const urls = message.text.match(urlRegex) || []
-
-        // Check if user can auto-approve (moderator or broadcaster)
-        const canAutoApprove = message.isModerator || message.isBroadcaster
-
-        // Submit each URL
-        for (const url of urls) {
-          // Check if it's a Twitch URL (clip, VOD, or highlight)
-          if (twitch.getContentTypeFromUrl(url)) {
-            await handleClipSubmission(url, message.username, canAutoApprove)
-          }
-          // Check if it's a Kick clip URL
-          else if (kick.getClipIdFromUrl(url)) {
-            await handleClipSubmission(url, message.username, canAutoApprove)
-          }
-          // Check if it's a Streamable video URL
-          else if (streamable.getVideoIdFromUrl(url)) {
-            await handleClipSubmission(url, message.username, canAutoApprove)
-          }
-        }
-      } catch (error) {
-        console.error(`[EventSub] Error processing message from ${message.username}:`, error)
-      }
+    eventSubClient.onRedemption(async (redemption) => {
+      await hostedChannels.get(redemption.channelId)?.handleRedemption(redemption)
+    })
+
+    eventSubClient.onStreamStatus(async (channelId, status) => {
+      await hostedChannels.get(channelId)?.handleStreamStatus(status)
     })
 
-    // Connect and subscribe to channel
+    // Connect and subscribe to every channel
     await eventSubClient.connect()
-    await eventSubClient.subscribeToChannel(channelName)
+
+    for (const login of channelLogins) {
+      const channel = await eventSubClient.getChannel(login)
+      if (!channel) {
+        throw new Error(`Channel not found: ${login}`)
+      }
+
+      const hosted = hostChannel(channel)
+      await eventSubClient.subscribeToChannel(channel)
+
+      // Only record the current status, acting on it is left to the next transition
+      const currentStatus = await eventSubClient.getStreamStatus(channel.id)
+      if (currentStatus) {
+        hosted.setStreamStatus(currentStatus)
+      }
+    }
 
     eventSubConnectedAt = new Date() // Track connection timestamp
-    console.log(`[Chat] Connected to EventSub for channel: ${channelName}`)
+    console.log(`[Chat] Connected to EventSub for channels: ${channelLogins.join(', ')}`)
     reconnectAttempts = 0 // Reset on success
   } catch (error) {
     console.error('[Chat] Failed to connect to EventSub:', error)
+    eventSubClient?.disconnect()
     eventSubClient = null
 
     const isRateLimit = error instanceof Error && error.message.includes('429')
@@ -448,463 +218,10 @@ async function connectToChat() {
   }
 }
 
-/**
- * Handle chat command
- */
-async function handleChatCommand(message: { username: string; text: string }): Promise<void> {
-  const commandText = message.text.substring(settings.commands.prefix.length).trim()
-  const [command, ...args] = commandText.split(/\s+/)
-
-  if (!command) {
-    return
-  }
-
-  console.log(`[Command] ${message.username} executed: ${command} ${args.join(' ')}`)
-
-  switch (command.toLowerCase()) {
-    case 'open':
-      isQueueOpen = true
-      console.log(`[Command] Queue opened by ${message.username}`)
-      break
-
-    case 'close':
-      isQueueOpen = false
-      console.log(`[Command] Queue closed by ${message.username}`)
-      break
-
-    case 'clear': {
-      try {
-        await clearQueue(
-          { current: currentClip, queue, playHistory, historyPosition },
-          {
-            updateClipStatus: (clipId, status) => updateClipStatus(db, clipId, status),
-            deleteClipsByStatus: (status) => deleteClipsByStatus(db, status),
-            insertPlayLog: (clipId, playedAt) => insertPlayLog(db, clipId, playedAt),
-            deletePlayLogsByClipStatus: (status) => deletePlayLogsByClipStatus(db, status)
-          }
-        )
-        console.log(`[Command] Queue cleared by ${message.username}`)
-        invalidateETag()
-      } catch (error) {
-        console.error(`[Command] Failed to clear queue: ${error}`)
-      }
-      break
-    }
-
-    case 'setlimit': {
-      if (!args[0]) {
-        console.log(`[Command] No limit specified`)
-        break
-      }
-      const limit = parseInt(args[0], 10)
-      if (isNaN(limit) || limit < 1) {
-        console.log(`[Command] Invalid limit: ${args[0]}`)
-        break
-      }
-      settings.queue.limit = limit
-      updateSettings(db, settings)
-      console.log(`[Command] Queue limit set to ${limit} by ${message.username}`)
-      invalidateETag()
-      break
-    }
-
-    case 'removelimit':
-      settings.queue.limit = null
-      updateSettings(db, settings)
-      console.log(`[Command] Queue limit removed by ${message.username}`)
-      invalidateETag()
-      break
-
-    case 'next': {
-      try {
-        const state = { current: currentClip, queue, playHistory, historyPosition }
-        await advanceQueue(
-          state,
-          {
-            updateClipStatus: (clipId, status) => updateClipStatus(db, clipId, status),
-            deleteClipsByStatus: (status) => deleteClipsByStatus(db, status),
-            insertPlayLog: (clipId, playedAt) => insertPlayLog(db, clipId, playedAt),
-            deletePlayLogsByClipStatus: (status) => deletePlayLogsByClipStatus(db, status)
-          },
-          toClipUUID
-        )
-        currentClip = state.current
-        historyPosition = state.historyPosition
-
-        // Broadcast change
-        console.log(`[Command] Advanced to next clip by ${message.username}`)
-        invalidateETag()
-      } catch (error) {
-        console.error(`[Command] Failed to advance to next clip: ${error}`)
-      }
-      break
-    }
-
-    case 'prev':
-    case 'previous': {
-      const state = { current: currentClip, queue, playHistory, historyPosition }
-      await previousClip(state)
-      currentClip = state.current
-      historyPosition = state.historyPosition
-
-      // Broadcast change
-      console.log(`[Command] Went to previous clip by ${message.username}`)
-      invalidateETag()
-      break
-    }
-
-    case 'removebysubmitter': {
-      const submitter = args[0]?.toLowerCase()
-      if (!submitter) {
-        console.log(`[Command] No submitter specified`)
-        break
-      }
-
-      const clips = queue.toArray()
-      let removedCount = 0
-
-      for (const clip of clips) {
-        if (clip.submitters.some((s) => s.toLowerCase() === submitter)) {
-          queue.remove(clip)
-          updateClipStatus(db, toClipUUID(clip), 'rejected')
-          removedCount++
-        }
-      }
-
-      console.log(
-        `[Command] Removed ${removedCount} clips by ${submitter} (requested by ${message.username})`
-      )
-      if (removedCount > 0) invalidateETag()
-      break
-    }
-
-    case 'removebyplatform': {
-      const platformArg = args[0]?.toLowerCase()
-      if (!platformArg || (platformArg !== 'twitch' && platformArg !== 'kick')) {
-        console.log(`[Command] Invalid platform: ${args[0]}`)
-        break
-      }
-
-      const clips = queue.toArray()
-      let removedCount = 0
-
-      for (const clip of clips) {
-        if (clip.platform.toLowerCase() === platformArg) {
-          queue.remove(clip)
-          updateClipStatus(db, toClipUUID(clip), 'rejected')
-          removedCount++
-        }
-      }
-
-      console.log(
-        `[Command] Removed ${removedCount} ${platformArg} clips (requested by ${message.username})`
-      )
-      if (removedCount > 0) invalidateETag()
-      break
-    }
-
-    case 'enableplatform': {
-      const arg = args[0]?.toLowerCase()
-      if (!arg) {
-        console.log(`[Command] Missing provider argument`)
-        break
-      }
-
-      // Check if it's a provider (platform:contentType) or just a platform
-      const allProviders = PROVIDERS as readonly string[]
-      if (arg.includes(':')) {
-        // Single provider
-        if (!allProviders.includes(arg)) {
-          console.log(`[Command] Invalid provider: ${arg}`)
-          break
-        }
-        if (!settings.queue.providers.includes(arg as Provider)) {
-          settings.queue.providers.push(arg as Provider)
-          updateSettings(db, settings)
-          console.log(`[Command] Enabled ${arg} provider (requested by ${message.username})`)
-          invalidateETag()
-        } else {
-          console.log(`[Command] ${arg} provider already enabled`)
-        }
-      } else {
-        // Platform - enable all providers for this platform
-        const platformProviders = allProviders.filter((p) => p.startsWith(`${arg}:`))
-        if (platformProviders.length === 0) {
-          console.log(`[Command] Invalid platform: ${arg}`)
-          break
-        }
-        let enabled = 0
-        for (const provider of platformProviders) {
-          if (!settings.queue.providers.includes(provider as Provider)) {
-            settings.queue.providers.push(provider as Provider)
-            enabled++
-          }
-        }
-        if (enabled > 0) {
-          updateSettings(db, settings)
-          console.log(
-            `[Command] Enabled ${enabled} ${arg} providers (requested by ${message.username})`
-          )
-          invalidateETag()
-        } else {
-          console.log(`[Command] All ${arg} providers already enabled`)
-        }
-      }
-      break
-    }
-
-    case 'disableplatform': {
-      const arg = args[0]?.toLowerCase()
-      if (!arg) {
-        console.log(`[Command] Missing provider argument`)
-        break
-      }
-
-      // Check if it's a provider (platform:contentType) or just a platform
-      const allProviders = PROVIDERS as readonly string[]
-      if (arg.includes(':')) {
-        // Single provider
-        if (!allProviders.includes(arg)) {
-          console.log(`[Command] Invalid provider: ${arg}`)
-          break
-        }
-        const index = settings.queue.providers.indexOf(arg as Provider)
-        if (index !== -1) {
-          settings.queue.providers.splice(index, 1)
-          updateSettings(db, settings)
-          console.log(`[Command] Disabled ${arg} provider (requested by ${message.username})`)
-          invalidateETag()
-        } else {
-          console.log(`[Command] ${arg} provider already disabled`)
-        }
-      } else {
-        // Platform - disable all providers for this platform
-        const platformProviders = allProviders.filter((p) => p.startsWith(`${arg}:`))
-        if (platformProviders.length === 0) {
-          console.log(`[Command] Invalid platform: ${arg}`)
-          break
-        }
-        let disabled = 0
-        for (const provider of platformProviders) {
-          const index = settings.queue.providers.indexOf(provider as Provider)
-          if (index !== -1) {
-            settings.queue.providers.splice(index, 1)
-            disabled++
-          }
-        }
-        if (disabled > 0) {
-          updateSettings(db, settings)
-          console.log(
-            `[Command] Disabled ${disabled} ${arg} providers (requested by ${message.username})`
-          )
-          invalidateETag()
-        } else {
-          console.log(`[Command] All ${arg} providers already disabled`)
-        }
-      }
-      break
-    }
-
-    case 'enableautomod':
-      settings.queue.hasAutoModerationEnabled = true
-      updateSettings(db, settings)
-      console.log(`[Command] Auto-moderation enabled by ${message.username}`)
-      invalidateETag()
-      break
-
-    case 'disableautomod':
-      settings.queue.hasAutoModerationEnabled = false
-      updateSettings(db, settings)
-      console.log(`[Command] Auto-moderation disabled by ${message.username}`)
-      invalidateETag()
-      break
-
-    case 'purgecache':
-      clearAllCaches()
-      console.log(`[Command] Authentication caches purged by ${message.username}`)
-      break
-
-    case 'purgehistory':
-      playHistory.clear()
-      deletePlayLogsByClipStatus(db, 'played')
-      deleteClipsByStatus(db, 'played')
-      console.log(`[Command] Play history purged by ${message.username}`)
-      break
-
-    default:
-      console.log(`[Command] Unknown command: ${command}`)
-      break
-  }
-}
-
-/**
- * Fetch clip from platform with retry logic and exponential backoff
- */
-async function fetchClipWithRetry(
-  platformInstance: { getClip: (url: string) => Promise<Clip> },
-  url: string,
-  maxRetries = 3
-): Promise<Clip | null> {
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    const timeout = 10000 * (attempt + 1) // 10s, 20s, 30s
-    const backoffDelay = attempt > 0 ? 1000 * Math.pow(2, attempt - 1) : 0 // 0ms, 1s, 2s
-
-    // Wait before retry (except first attempt)
-    if (backoffDelay > 0) {
-      await new Promise((resolve) => setTimeout(resolve, backoffDelay))
-    }
-
-    try {
-      const clip = await Promise.race([
-        platformInstance.getClip(url),
-        new Promise<null>((_, reject) =>
-          setTimeout(() => reject(new Error('Platform API timeout')), timeout)
-        )
-      ])
-
-      if (clip) return clip
-    } catch (error) {
-      const isLastAttempt = attempt === maxRetries - 1
-      const errorMessage = error instanceof Error ? error.message : 'unknown error'
-
-      if (isLastAttempt) {
-        console.log(
-          `[Queue] Failed to fetch clip after ${maxRetries} attempts (${errorMessage}): ${url}`
-        )
-        return null
-      }
-
-      console.log(
-        `[Queue] Attempt ${attempt + 1}/${maxRetries} failed (${errorMessage}), retrying...`
-      )
-    }
-  }
-
-  return null
-}
-
-/**
- * Handle clip submission from chat or API
- * Uses mutex to prevent race conditions on duplicate submissions
- */
-async function handleClipSubmission(
-  url: string,
-  submitter: string,
-  autoApprove = false
-): Promise<void> {
-  const release = await clipSubmissionMutex.acquire()
-  try {
-    // Duplicate URL protection (prevent processing same URL multiple times in 5s window)
-    const lastUrlSubmission = urlSubmissionCache.get(url)
-    if (lastUrlSubmission) {
-      console.log(`[Queue] Duplicate URL submitted within 5s window, ignoring: ${url}`)
-      return
-    }
-    urlSubmissionCache.set(url, Date.now())
-
-    // Per-user rate limiting (prevent spam)
-    const lastSubmission = userSubmissionCache.get(submitter)
-    if (lastSubmission && Date.now() - lastSubmission < 10000) {
-      console.log(`[Queue] Rate limit: ${submitter} submitted too recently`)
-      return
-    }
-    userSubmissionCache.set(submitter, Date.now())
-
-    // Check if queue is open
-    if (!isQueueOpen && !autoApprove) {
-      console.log(`[Queue] Queue closed, ignoring clip from ${submitter}`)
-      return
-    }
-
-    // Detect platform and fetch clip data with timeout (use platform validators)
-    let platformInstance
-    if (kick.getClipIdFromUrl(url)) {
-      platformInstance = platforms.kick
-    } else if (sora.getPostIdFromUrl(url)) {
-      platformInstance = platforms.sora
-    } else if (streamable.getVideoIdFromUrl(url)) {
-      platformInstance = platforms.streamable
-    } else if (twitch.getContentTypeFromUrl(url)) {
-      platformInstance = platforms.twitch
-    } else {
-      console.log(`[Queue] Invalid URL format: ${url}`)
-      return
-    }
-    // Fetch clip with retry logic (3 attempts with exponential backoff)
-    const clip = await fetchClipWithRetry(platformInstance, url)
-
-    if (!clip) {
-      return
-    }
-
-    // Check if provider (platform:contentType) is enabled in settings
-    const provider = `${clip.platform}:${clip.contentType}` as Provider
-    if (!settings.queue.providers.includes(provider)) {
-      console.log(`[Queue] Provider ${provider} is disabled, ignoring clip from ${submitter}`)
-      return
-    }
-
-    // Sora cameo filtering: check allowed cameos list (case-insensitive)
-    if (provider === 'sora:cameo' && settings.queue.sora.allowedCameos.length > 0) {
-      const clipCameos = clip.cameos || []
-      const allowedCameos = settings.queue.sora.allowedCameos.map((c) => c.toLowerCase())
-      const hasMatchingCameo = clipCameos.some((cameo) => allowedCameos.includes(cameo))
-
-      if (!hasMatchingCameo) {
-        console.log(
-          `[Queue] Sora cameo not in allowed list, ignoring clip from ${submitter} (cameos: ${clipCameos.join(', ')})`
-        )
-        return
-      }
-    }
-
-    // Check queue size limit
-    if (settings.queue.limit !== null && queue.size() >= settings.queue.limit) {
-      console.log(
-        `[Queue] Queue is full (limit: ${settings.queue.limit}), ignoring clip from ${submitter}`
-      )
-      return
-    }
-
-    const clipId = toClipUUID(clip)
-
-    // Check if clip already exists in queue (now protected by mutex)
-    if (queue.includes(clip)) {
-      // Add submitter to existing clip using transaction-safe upsert
-      const updatedClip = upsertClip(db, clipId, { ...clip, submitters: [submitter] }, 'approved')
-
-      // Update in-memory queue
-      queue.add(updatedClip)
-
-      // Broadcast update
-      console.log(`[Queue] Added submitter to existing clip: ${clip.title} (${submitter})`)
-      invalidateETag()
-      return
-    }
-
-    // Determine approval status based on auto-moderation setting and user role
-    // Auto-approve if:
-    // 1. Auto-moderation is disabled (all clips auto-approve), OR
-    // 2. Submitter is mod/broadcaster (bypass moderation)
-    const shouldAutoApprove = !settings.queue.hasAutoModerationEnabled || autoApprove
-    const status = shouldAutoApprove ? 'approved' : 'pending'
-
-    // Add clip to queue with transaction
-    const clipWithSubmitter = { ...clip, submitters: [submitter] }
-    const savedClip = upsertClip(db, clipId, clipWithSubmitter, status)
-
-    // Add to in-memory queue only if approved
-    if (status === 'approved') {
-      queue.add(savedClip)
-      console.log(`[Queue] Added clip: ${clip.title} (submitted by ${submitter})`)
-      invalidateETag()
-    } else {
-      console.log(`[Queue] Clip pending moderation: ${clip.title} (submitted by ${submitter})`)
-    }
-  } catch (error) {
-    console.error('[Queue] Failed to submit clip:', error)
-  } finally {
-    release()
+// Channels known from earlier runs serve their queues before chat connects
+for (const channel of getChannels(db)) {
+  if (channelLogins.includes(channel.login)) {
+    hostChannel(channel)
   }
 }
 
@@ -927,59 +244,35 @@ app.get('/api/health', publicReadLimiter, (req, res) => {
       lastMessageAt: eventSubLastMessageAt?.toISOString() || null,
       uptimeMs
     },
-    queueSize: queue.toArray().length
+    channels: [...hostedChannels.values()].map((hosted) => ({
+      login: hosted.login,
+      ...hosted.getHealth()
+    }))
   })
 })
 
-app.get('/api/queue', publicReadLimiter, (req, res) => {
-  // Generate ETag from current state
-  const etag = generateStateHash()
-
-  // Check if client has cached version
-  const clientETag = req.headers['if-none-match']
-  if (clientETag === etag) {
-    // State hasn't changed, return 304 Not Modified
-    return res.status(304).end()
-  }
-
-  // State changed, return full response with ETag
-  res.setHeader('ETag', etag)
-  res.setHeader('Cache-Control', 'no-cache') // Must revalidate with ETag
-  res.json(getQueueState())
-})
-
 /**
- * GET /api/history - Paginated play history with cursor-based pagination
- * Query params:
- *   - limit: number (optional, default 50, max 100)
- *   - cursor: string (optional, base64-encoded playLog.id)
+ * GET /api/channels
+ * Logins of the hosted channels
  */
-app.get('/api/history', publicReadLimiter, (req, res) => {
-  try {
-    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined
-    const cursor = req.query.cursor as string | undefined
-
-    const result = getPlayLogs(db, {
-      limit,
-      cursor,
-      order: 'desc', // Newest first for UI browsing
-      paginate: true
-    }) as {
-      entries: Array<{ id: number; clip: Clip; playedAt: Date }>
-      nextCursor: string | null
-      hasMore: boolean
-    }
+app.get('/api/channels', publicReadLimiter, (req, res) => {
+  res.json({ channels: [...hostedChannels.values()].map((hosted) => hosted.login) })
+})
 
-    res.json({
-      entries: result.entries,
-      nextCursor: result.nextCursor,
-      hasMore: result.hasMore,
-      count: result.entries.length
+// Channel routes, roles are checked against the channel's broadcaster
+app.use('/api/c/:channel', (req: AuthenticatedRequest, res, next) => {
+  const login = String(req.params.channel).toLowerCase()
+  const hosted = findChannelByLogin(login)
+  if (!hosted) {
+    return res.status(404).json({
+      error: 'CHANNEL_NOT_FOUND',
+      message: 'Channel not found',
+      channel: login
     })
-  } catch (error) {
-    console.error('[API] Failed to get paginated history:', error)
-    res.status(500).json({ error: 'Failed to fetch history' })
   }
+
+  req.broadcaster = { id: hosted.id, login: hosted.login }
+  hosted.router(req, res, next)
 })
 
 // HLS proxy for Twitch VODs (bypasses CORS restrictions)
@@ -1066,761 +359,15 @@ app.get(
   })
 )
 
-// Manual clip submission (moderators only)
-app.post(
-  '/api/queue/submit',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    // Validate input
-    const parseResult = SubmitClipSchema.safeParse(req.body)
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid input',
-        details: parseResult.error.issues
-      })
-    }
-
-    const { url, submitter } = parseResult.data
-    await handleClipSubmission(url, submitter, false)
-    res.json({ success: true, state: getQueueState() })
-  })
-)
-
-// Queue navigation (moderators only)
-app.post(
-  '/api/queue/advance',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    const release = await queueOperationMutex.acquire()
-    try {
-      const state = { current: currentClip, queue, playHistory, historyPosition }
-      await advanceQueue(
-        state,
-        {
-          updateClipStatus: (clipId, status) => updateClipStatus(db, clipId, status),
-          deleteClipsByStatus: (status) => deleteClipsByStatus(db, status),
-          insertPlayLog: (clipId, playedAt) => insertPlayLog(db, clipId, playedAt),
-          deletePlayLogsByClipStatus: (status) => deletePlayLogsByClipStatus(db, status)
-        },
-        toClipUUID
-      )
-      currentClip = state.current
-      historyPosition = state.historyPosition
-
-      // Broadcast change
-      invalidateETag()
-
-      console.log(`[Queue] Advanced to next clip: ${currentClip?.title || 'none'}`)
-      res.json({ success: true, state: getQueueState() })
-    } finally {
-      release()
-    }
-  })
-)
-
-app.post(
-  '/api/queue/previous',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    const release = await queueOperationMutex.acquire()
-    try {
-      const state = { current: currentClip, queue, playHistory, historyPosition }
-      await previousClip(state)
-      currentClip = state.current
-      historyPosition = state.historyPosition
-
-      // Broadcast change
-      invalidateETag()
-
-      console.log(`[Queue] Went to previous clip: ${currentClip?.title || 'none'}`)
-      res.json({ success: true, state: getQueueState() })
-    } finally {
-      release()
-    }
-  })
-)
-
-// Clear queue (broadcaster only)
-app.delete(
-  '/api/queue',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireBroadcaster,
-  asyncHandler(async (req, res) => {
-    await clearQueue(
-      { current: currentClip, queue, playHistory, historyPosition },
-      {
-        updateClipStatus: (clipId, status) => updateClipStatus(db, clipId, status),
-        deleteClipsByStatus: (status) => deleteClipsByStatus(db, status),
-        insertPlayLog: (clipId, playedAt) => insertPlayLog(db, clipId, playedAt),
-        deletePlayLogsByClipStatus: (status) => deletePlayLogsByClipStatus(db, status)
-      }
-    )
-
-    console.log('[Queue] Cleared queue')
-    invalidateETag()
-    res.json({ success: true, state: getQueueState() })
-  })
-)
-
-// Clear play history (broadcaster only)
-app.delete(
-  '/api/queue/history',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireBroadcaster,
-  asyncHandler(async (req, res) => {
-    const previousHistory = playHistory.toArray()
-    try {
-      playHistory.clear()
-      deletePlayLogsByClipStatus(db, 'played')
-      deleteClipsByStatus(db, 'played')
-
-      // Broadcast history cleared event
-      invalidateETag()
-
-      console.log('[Queue] Cleared play history')
-      res.json({ success: true, state: getQueueState() })
-    } catch (error) {
-      // Roll back in-memory changes on database failure
-      previousHistory.forEach((entry) => playHistory.add(entry))
-      throw error // Let asyncHandler catch and respond with error
-    }
-  })
-)
-
-// DELETE /api/queue/history/:clipId - Remove all play log entries for a clip (moderator only)
-app.delete(
-  '/api/queue/history/:clipId',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    const { clipId } = req.params
-
-    // Validate clipId format
-    if (!clipId || clipId.length === 0 || clipId.length > 200) {
-      return res.status(400).json({
-        error: 'INVALID_CLIP_ID',
-        message: 'Clip ID must be between 1 and 200 characters'
-      })
-    }
-
-    // Check if clip exists
-    const clip = getClip(db, clipId)
-    if (!clip) {
-      return res.status(404).json({
-        error: 'CLIP_NOT_FOUND',
-        message: 'Clip not found',
-        clipId
-      })
-    }
-
-    // Delete all play log entries for this clip
-    db.delete(playLog).where(eq(playLog.clipId, clipId)).run()
-
-    // Rebuild play history from database (ASC order - oldest first)
-    playHistory.clear()
-    const playLogs = getPlayLogs(db, { limit: 100, order: 'asc' }) as Array<{
-      id: number
-      clip: Clip
-      playedAt: Date
-    }>
-    playLogs.forEach((entry) => playHistory.add(entry))
-
-    // Delete clip from database
-    db.delete(clips).where(eq(clips.id, clipId)).run()
-
-    // Invalidate ETag
-    invalidateETag()
-
-    console.log(`[Queue] Removed all play log entries for clip: ${clip.title}`)
-    res.json({ success: true, state: getQueueState() })
-  })
-)
-
-// Queue control (broadcaster only)
-app.post(
-  '/api/queue/open',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireBroadcaster,
-  (req, res) => {
-    isQueueOpen = true
-    console.log('[Queue] Queue opened')
-    invalidateETag()
-    res.json({ success: true, state: getQueueState() })
-  }
-)
-
-app.post(
-  '/api/queue/close',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireBroadcaster,
-  (req, res) => {
-    isQueueOpen = false
-    console.log('[Queue] Queue closed')
-    invalidateETag()
-    res.json({ success: true, state: getQueueState() })
-  }
-)
-
-// Clip management (moderators only)
-app.post(
-  '/api/queue/remove',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    // Validate input
-    const parseResult = ClipIdSchema.safeParse(req.body)
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid input',
-        details: parseResult.error.issues
-      })
-    }
-
-    const { clipId } = parseResult.data
-
-    // Find and remove clip
-    const clips = queue.toArray()
-    const clip = clips.find((c) => toClipUUID(c) === clipId)
-
-    if (clip) {
-      try {
-        queue.remove(clip)
-        updateClipStatus(db, clipId, 'rejected')
-
-        // Broadcast removal
-        invalidateETag()
-
-        console.log(`[Queue] Removed clip: ${clip.title}`)
-        res.json({ success: true, state: getQueueState() })
-      } catch (error) {
-        // Roll back in-memory changes on database failure
-        queue.add(clip)
-        throw error // Let asyncHandler catch and respond with error
-      }
-    } else {
-      res.status(404).json({
-        error: 'CLIP_NOT_FOUND',
-        message: 'Clip not found in queue',
-        clipId
-      })
-    }
-  })
-)
-
-// GET /api/queue/pending - List pending clips awaiting approval (broadcaster/moderator only)
-app.get(
-  '/api/queue/pending',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  (req, res) => {
-    const pendingClips = getClipsByStatus(db, 'pending')
-    res.json({ clips: pendingClips })
-  }
-)
-
-// POST /api/queue/approve - Approve a pending clip (broadcaster/moderator only)
-app.post(
-  '/api/queue/approve',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    // Validate input
-    const parseResult = ClipIdSchema.safeParse(req.body)
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid input',
-        details: parseResult.error.issues
-      })
-    }
-
-    const { clipId } = parseResult.data
-
-    // Get clip from database
-    const clip = getClip(db, clipId)
-    if (!clip) {
-      return res.status(404).json({
-        error: 'PENDING_CLIP_NOT_FOUND',
-        message: 'Pending clip not found. It may have been already approved or rejected.',
-        clipId
-      })
-    }
-
-    // Update status in database
-    updateClipStatus(db, clipId, 'approved')
-
-    // Add to in-memory queue
-    queue.add(clip)
-
-    console.log(`[Queue] Approved pending clip: ${clip.title}`)
-    invalidateETag()
-    res.json({ success: true, state: getQueueState() })
-  })
-)
-
-// POST /api/queue/reject - Reject a pending clip (broadcaster/moderator only)
-app.post(
-  '/api/queue/reject',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    // Validate input
-    const parseResult = ClipIdSchema.safeParse(req.body)
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid input',
-        details: parseResult.error.issues
-      })
-    }
-
-    const { clipId } = parseResult.data
-
-    // Get clip from database
-    const clip = getClip(db, clipId)
-    if (!clip) {
-      return res.status(404).json({
-        error: 'PENDING_CLIP_NOT_FOUND',
-        message: 'Pending clip not found. It may have been already approved or rejected.',
-        clipId
-      })
-    }
-
-    // Update status to rejected
-    updateClipStatus(db, clipId, 'rejected')
-
-    console.log(`[Queue] Rejected pending clip: ${clip.title}`)
-    res.json({ success: true, state: getQueueState() })
-  })
-)
-
-// GET /api/queue/rejected - List rejected clips (broadcaster/moderator only)
-app.get(
-  '/api/queue/rejected',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  (req, res) => {
-    const rejectedClips = getClipsByStatus(db, 'rejected')
-    res.json({ clips: rejectedClips })
-  }
-)
-
-// POST /api/queue/rejected/:clipId/restore - Restore a rejected clip to approved status (broadcaster/moderator only)
-app.post(
-  '/api/queue/rejected/:clipId/restore',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    // Validate input
-    const parseResult = ClipIdSchema.safeParse({ clipId: req.params.clipId })
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid input',
-        details: parseResult.error.issues
-      })
-    }
-
-    const { clipId } = parseResult.data
-
-    // Get clip from database
-    const clip = getClip(db, clipId)
-    if (!clip) {
-      return res.status(404).json({
-        error: 'REJECTED_CLIP_NOT_FOUND',
-        message: 'Rejected clip not found. It may have been deleted.',
-        clipId
-      })
-    }
-
-    // Verify clip is actually rejected
-    const dbClip = db.select().from(clips).where(eq(clips.id, clipId)).get()
-    if (!dbClip || dbClip.status !== 'rejected') {
-      return res.status(404).json({
-        error: 'CLIP_NOT_REJECTED',
-        message: 'Clip is not in rejected status. Only rejected clips can be restored.',
-        clipId,
-        currentStatus: dbClip?.status || 'unknown'
-      })
-    }
-
-    try {
-      // Update status to approved in database
-      updateClipStatus(db, clipId, 'approved')
-
-      // Add to in-memory queue
-      queue.add(clip)
-
-      console.log(`[Queue] Restored rejected clip: ${clip.title}`)
-      invalidateETag()
-      res.json({ success: true, state: getQueueState() })
-    } catch (error) {
-      // Roll back in-memory changes on database failure
-      queue.remove(clip)
-      throw error // Let asyncHandler catch and respond with error
-    }
-  })
-)
-
-app.post(
-  '/api/queue/play',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    // Validate input
-    const parseResult = ClipIdSchema.safeParse(req.body)
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid input',
-        details: parseResult.error.issues
-      })
-    }
-
-    const { clipId } = parseResult.data
-
-    const release = await queueOperationMutex.acquire()
-    try {
-      // Find clip in queue
-      const clips = queue.toArray()
-      const clip = clips.find((c) => toClipUUID(c) === clipId)
-
-      if (!clip) {
-        release()
-        return res.status(404).json({
-          error: 'CLIP_NOT_IN_QUEUE',
-          message: 'Clip not found in queue. It may have already been played or removed.',
-          clipId
-        })
-      }
-
-      const state = { current: currentClip, queue, playHistory, historyPosition }
-      await playClip(
-        state,
-        {
-          updateClipStatus: (clipId, status) => updateClipStatus(db, clipId, status),
-          deleteClipsByStatus: (status) => deleteClipsByStatus(db, status),
-          insertPlayLog: (clipId, playedAt) => insertPlayLog(db, clipId, playedAt),
-          deletePlayLogsByClipStatus: (status) => deletePlayLogsByClipStatus(db, status)
-        },
-        clip,
-        toClipUUID
-      )
-      currentClip = state.current
-      historyPosition = state.historyPosition
-
-      // Broadcast change
-      invalidateETag()
-
-      console.log(`[Queue] Playing clip: ${currentClip?.title}`)
-      res.json({ success: true, state: getQueueState() })
-    } finally {
-      release()
-    }
-  })
-)
-
-// Jump to history clip from timeline (moderators only)
-app.post(
-  '/api/queue/history/:clipId/replay',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    // Validate input
-    const parseResult = ClipIdSchema.safeParse({ clipId: req.params.clipId })
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid input',
-        details: parseResult.error.issues
-      })
-    }
-
-    const { clipId } = parseResult.data
-
-    const release = await queueOperationMutex.acquire()
-    try {
-      // Find clip in history
-      const historyEntries = playHistory.getAll()
-      const entry = historyEntries.find((e) => toClipUUID(e.clip) === clipId)
-
-      if (!entry) {
-        release()
-        return res.status(404).json({
-          error: 'CLIP_NOT_IN_HISTORY',
-          message: 'Clip not found in history. It may have been cleared or never played.',
-          clipId
-        })
-      }
-
-      // Jump to history clip without creating duplicate entry
-      const state = { current: currentClip, queue, playHistory, historyPosition }
-      await jumpToHistoryClip(state, entry.clip, toClipUUID)
-
-      // Update in-memory state
-      currentClip = state.current
-      historyPosition = state.historyPosition
-
-      // Broadcast change
-      invalidateETag()
-
-      console.log(`[Queue] Jumped to history clip: ${entry.clip.title}`)
-      res.json({ success: true, state: getQueueState() })
-    } finally {
-      release()
-    }
-  })
-)
-
-// Batch clip operations (moderators only)
-app.post(
-  '/api/queue/batch/remove',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    // Validate input
-    const parseResult = BatchClipIdsSchema.safeParse(req.body)
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid input',
-        details: parseResult.error.issues
-      })
-    }
-
-    const { clipIds } = parseResult.data
-    const queueClips = queue.toArray()
-    const results = {
-      removed: 0,
-      failed: [] as string[],
-      notFound: [] as string[]
-    }
-
-    // Process each clip - use partial success pattern
-    for (const clipId of clipIds) {
-      const clip = queueClips.find((c) => toClipUUID(c) === clipId)
-
-      if (!clip) {
-        results.notFound.push(clipId)
-        continue
-      }
-
-      try {
-        queue.remove(clip)
-        updateClipStatus(db, clipId, 'rejected')
-        results.removed++
-      } catch (error) {
-        // Roll back in-memory change on database failure
-        queue.add(clip)
-        results.failed.push(clipId)
-        console.error(`[Queue] Failed to remove clip ${clipId}:`, error)
-      }
-    }
-
-    // Invalidate ETag only if at least one clip was removed
-    if (results.removed > 0) {
-      invalidateETag()
-    }
-
-    console.log(
-      `[Queue] Batch remove: ${results.removed} removed, ${results.failed.length} failed, ${results.notFound.length} not found`
-    )
-
-    res.json({
-      success: true,
-      removed: results.removed,
-      failed: results.failed,
-      notFound: results.notFound,
-      state: getQueueState()
-    })
-  })
-)
-
-app.post(
-  '/api/queue/batch/approve',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    // Validate input
-    const parseResult = BatchClipIdsSchema.safeParse(req.body)
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid input',
-        details: parseResult.error.issues
-      })
-    }
-
-    const { clipIds } = parseResult.data
-    const results = {
-      approved: 0,
-      failed: [] as string[],
-      notFound: [] as string[]
-    }
-
-    // Process each clip - use partial success pattern
-    for (const clipId of clipIds) {
-      const clip = getClip(db, clipId)
-
-      if (!clip) {
-        results.notFound.push(clipId)
-        continue
-      }
-
-      try {
-        // Update status in database
-        updateClipStatus(db, clipId, 'approved')
-
-        // Add to in-memory queue
-        queue.add(clip)
-
-        results.approved++
-      } catch (error) {
-        results.failed.push(clipId)
-        console.error(`[Queue] Failed to approve clip ${clipId}:`, error)
-      }
-    }
-
-    // Invalidate ETag only if at least one clip was approved
-    if (results.approved > 0) {
-      invalidateETag()
-    }
-
-    console.log(
-      `[Queue] Batch approve: ${results.approved} approved, ${results.failed.length} failed, ${results.notFound.length} not found`
-    )
-
-    res.json({
-      success: true,
-      approved: results.approved,
-      failed: results.failed,
-      notFound: results.notFound,
-      state: getQueueState()
-    })
-  })
-)
-
-app.post(
-  '/api/queue/batch/reject',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireModerator,
-  asyncHandler(async (req, res) => {
-    // Validate input
-    const parseResult = BatchClipIdsSchema.safeParse(req.body)
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid input',
-        details: parseResult.error.issues
-      })
-    }
-
-    const { clipIds } = parseResult.data
-    const results = {
-      rejected: 0,
-      failed: [] as string[],
-      notFound: [] as string[]
-    }
-
-    // Process each clip - use partial success pattern
-    for (const clipId of clipIds) {
-      const clip = getClip(db, clipId)
-
-      if (!clip) {
-        results.notFound.push(clipId)
-        continue
-      }
-
-      try {
-        // Update status to rejected
-        updateClipStatus(db, clipId, 'rejected')
-        results.rejected++
-      } catch (error) {
-        results.failed.push(clipId)
-        console.error(`[Queue] Failed to reject clip ${clipId}:`, error)
-      }
-    }
-
-    console.log(
-      `[Queue] Batch reject: ${results.rejected} rejected, ${results.failed.length} failed, ${results.notFound.length} not found`
-    )
-
-    res.json({
-      success: true,
-      rejected: results.rejected,
-      failed: results.failed,
-      notFound: results.notFound,
-      state: getQueueState()
-    })
-  })
-)
-
-// Auth API endpoints
-app.get(
-  '/api/auth/me',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  (req: AuthenticatedRequest, res) => {
-    if (!req.user) {
-      return res.status(401).json({
-        error: 'NOT_AUTHENTICATED',
-        message: 'Authentication required. Please log in with Twitch.'
-      })
-    }
-
-    res.json({
-      userId: req.user.userId,
-      username: req.user.username,
-      displayName: req.user.displayName,
-      profileImageUrl: req.user.profileImageUrl,
-      isBroadcaster: req.user.isBroadcaster,
-      isModerator: req.user.isModerator
-    })
-  }
-)
-
 app.post('/api/auth/logout', authenticate, authFailureLimiter, (req: AuthenticatedRequest, res) => {
   const token = req.cookies?.auth_token
-  const channelName = process.env.TWITCH_CHANNEL_NAME!
 
   if (req.user && token) {
     // Invalidate token and role caches
     invalidateTokenCache(token)
-    invalidateRoleCache(req.user.userId, channelName)
+    for (const hosted of hostedChannels.values()) {
+      invalidateRoleCache(req.user.userId, hosted.login)
+    }
 
     console.log(`[Auth] User ${req.user.username} logged out, caches invalidated`)
   }
@@ -1842,82 +389,12 @@ app.get(
       valid: true,
       user: {
         userId: req.user.userId,
-        username: req.user.username,
-        isBroadcaster: req.user.isBroadcaster,
-        isModerator: req.user.isModerator
+        username: req.user.username
       }
     })
   }
 )
 
-// Cache management endpoints (broadcaster only)
-app.get(
-  '/api/auth/cache/stats',
-  authenticate,
-  authFailureLimiter,
-  requireBroadcaster,
-  (req, res) => {
-    const stats = getCacheStats()
-    res.json({
-      ...stats,
-      tokenCacheTTL: '5 minutes',
-      roleCacheTTL: '2 minutes'
-    })
-  }
-)
-
-app.post(
-  '/api/auth/cache/clear',
-  authenticate,
-  authFailureLimiter,
-  requireBroadcaster,
-  (req, res) => {
-    clearAllCaches()
-    console.log(
-      `[Auth] All caches cleared by broadcaster: ${(req as AuthenticatedRequest).user?.username}`
-    )
-    res.json({ success: true, message: 'All authentication caches cleared' })
-  }
-)
-
-// Settings API endpoints
-app.get('/api/settings', authenticate, authFailureLimiter, requireBroadcaster, (req, res) => {
-  res.json(settings)
-})
-
-app.put(
-  '/api/settings',
-  authenticate,
-  authFailureLimiter,
-  authenticatedLimiter,
-  requireBroadcaster,
-  (req, res) => {
-    try {
-      const newSettings = req.body as AppSettings
-
-      // Update in-memory settings (will validate via Zod)
-      updateSettings(db, newSettings)
-      settings = newSettings
-
-      // Broadcast to all connected clients
-      invalidateETag()
-
-      console.log('[Settings] Updated:', settings)
-      res.json({ success: true, settings })
-    } catch (error) {
-      console.error('[Settings] Validation failed:', error)
-      res.status(400).json({
-        error: 'INVALID_SETTINGS',
-        message: 'Settings validation failed. Check the details for specific errors.',
-        details:
-          error instanceof z.ZodError
-            ? error.issues.map((i) => ({ path: i.path.join('.'), message: i.message }))
-            : 'Unknown validation error'
-      })
-    }
-  }
-)
-
 // Global error handling middleware
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 app.use((err: Error, req: express.Request, res: express.Response, _next: express.NextFunction) => {
@@ -1948,6 +425,9 @@ process.on('SIGTERM', () => {
   }
 
   botTokenManager.stopMonitoring()
+  for (const hosted of hostedChannels.values()) {
+    hosted.close()
+  }
   closeDatabase()
 
   server.close(() => {
@@ -1964,6 +444,9 @@ process.on('SIGINT', () => {
   }
 
   botTokenManager.stopMonitoring()
+  for (const hosted of hostedChannels.values()) {
+    hosted.close()
+  }
   closeDatabase()
 
   server.close(() => {
@@ -0,0 +1,64 @@
+/**
+ * Shared Route Middleware
+ *
+ * Rate limiters and the async route wrapper, shared by the server routes and the
+ * routes of every hosted channel.
+ */
+
+import type express from 'express'
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit'
+
+import type { AuthenticatedRequest } from './auth.js'
+
+/**
+ * Async route wrapper to catch errors and pass to Express error middleware
+ */
+export function asyncHandler(fn: express.RequestHandler): express.RequestHandler {
+  return (req, res, next) => {
+    Promise.resolve(fn(req, res, next)).catch(next)
+  }
+}
+
+// Rate limiting - separate limiters by route type
+export const publicReadLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 500, // Higher limit for read-only endpoints
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: 'Too many requests. Check RateLimit-Reset header for retry time.'
+})
+
+export const authenticatedLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 100,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: AuthenticatedRequest) => {
+    // Use userId if authenticated, fallback to IP with proper IPv6 handling
+    if (req.user?.userId) {
+      return req.user.userId
+    }
+    // Use built-in IPv6-safe IP key generator
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return ipKeyGenerator(req as any)
+  },
+  skipSuccessfulRequests: false
+})
+
+// HLS proxy limiter - higher limit for streaming (HLS uses ~50+ requests per video)
+export const hlsProxyLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 5000, // Allow ~100 videos per 15 minutes
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: 'Too many HLS proxy requests. Check RateLimit-Reset header for retry time.'
+})
+
+export const authFailureLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  standardHeaders: true,
+  legacyHeaders: false,
+  skipSuccessfulRequests: true, // Only count failures
+  message: 'Too many failed authentication attempts. Please try again later.'
+})
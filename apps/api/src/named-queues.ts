@@ -0,0 +1,186 @@
+/**
+ * Named Queues
+ *
+ * The main queue plus the extra queues from settings, where moderators park
+ * clips (e.g. long ones for an end-of-stream segment). Also tracks which queue
+ * advancing pulls from.
+ */
+
+import type { Clip } from '@cq/platforms'
+import type { ClipOrdering, NamedQueue } from '@cq/schemas/settings'
+import { ClipList, toClipUUID } from '@cq/platforms'
+import { MAIN_QUEUE_ID } from '@cq/schemas/settings'
+
+/**
+ * A named queue with its clips, as sent to clients
+ */
+export interface NamedQueueState extends NamedQueue {
+  clips: Clip[]
+}
+
+/**
+ * A clip and the queue it is waiting in
+ */
+export interface QueuedClip {
+  clip: Clip
+  queueId: string
+  list: ClipList
+}
+
+/**
+ * Why a clip can't be moved into a queue
+ */
+export type MoveRefusal = 'notFound' | 'closed' | 'full'
+
+export class NamedQueues {
+  // Queue ID -> clips, in settings order (the main queue is kept separately)
+  private lists = new Map<string, ClipList>()
+  private configs: NamedQueue[] = []
+  private activeId: string = MAIN_QUEUE_ID
+
+  /**
+   * @param main - The queue submissions go to
+   */
+  constructor(readonly main: ClipList) {}
+
+  /** Queue that advancing pulls from */
+  get activeQueueId(): string {
+    return this.activeId
+  }
+
+  /**
+   * Get a queue by ID
+   * @returns The queue, or undefined if no queue has this ID
+   */
+  get(queueId: string): ClipList | undefined {
+    return queueId === MAIN_QUEUE_ID ? this.main : this.lists.get(queueId)
+  }
+
+  /** All clips waiting in any queue, main queue first */
+  allClips(): Clip[] {
+    return [this.main, ...this.lists.values()].flatMap((list) => list.toArray())
+  }
+
+  /**
+   * Find the queue a clip is waiting in
+   * @param clipId - Clip UUID
+   */
+  find(clipId: string): QueuedClip | null {
+    for (const [queueId, list] of [[MAIN_QUEUE_ID, this.main] as const, ...this.lists]) {
+      const clip = list.toArray().find((c) => toClipUUID(c) === clipId)
+      if (clip) return { clip, queueId, list }
+    }
+    return null
+  }
+
+  /**
+   * Create and drop named queues to match settings
+   * Clips of dropped queues go back to the main queue
+   * @returns Clips moved back to the main queue
+   */
+  sync(queues: NamedQueue[], ordering: ClipOrdering): Clip[] {
+    const ids = new Set(queues.map((q) => q.id))
+    const moved: Clip[] = []
+    for (const [queueId, list] of this.lists) {
+      if (ids.has(queueId)) continue
+      moved.push(...list.toArray())
+      this.lists.delete(queueId)
+    }
+    for (const clip of moved) delete clip.position
+    this.main.add(...moved)
+
+    const lists = new Map<string, ClipList>()
+    for (const queue of queues) {
+      lists.set(queue.id, this.lists.get(queue.id) ?? new ClipList())
+    }
+    this.lists = lists
+    this.configs = queues
+    if (!this.get(this.activeId)) {
+      this.activeId = MAIN_QUEUE_ID
+    }
+
+    this.setOrdering(ordering)
+    return moved
+  }
+
+  /**
+   * Apply an ordering strategy to every queue
+   * @returns True if any queue was reordered
+   */
+  setOrdering(ordering: ClipOrdering): boolean {
+    let isChanged = false
+    for (const list of [this.main, ...this.lists.values()]) {
+      if (list.ordering === ordering) continue
+      list.setOrdering(ordering)
+      isChanged = true
+    }
+    return isChanged
+  }
+
+  /**
+   * Check whether clips can be moved into a queue
+   * The main queue always takes clips back, named queues must be open and have room
+   * @returns Why the move is refused, or null if it is allowed
+   */
+  canMoveTo(queueId: string): MoveRefusal | null {
+    if (queueId === MAIN_QUEUE_ID) return null
+
+    const config = this.configs.find((q) => q.id === queueId)
+    const list = this.lists.get(queueId)
+    if (!config || !list) return 'notFound'
+    if (!config.isOpen) return 'closed'
+    if (config.limit !== null && list.size() >= config.limit) return 'full'
+    return null
+  }
+
+  /**
+   * Move a waiting clip to another queue (in memory only), unpinning it
+   * @param queued - The clip and the queue it is in
+   * @param queueId - ID of an existing queue
+   */
+  move(queued: QueuedClip, queueId: string): void {
+    const target = this.get(queueId)
+    if (!target || target === queued.list) return
+
+    // Without submitters the whole clip is removed, not just its first submitter
+    queued.list.remove({ ...queued.clip, submitters: [] })
+    delete queued.clip.position
+    target.add(queued.clip)
+  }
+
+  /**
+   * Choose the queue advancing pulls from
+   * @returns False if no queue has this ID
+   */
+  setActive(queueId: string): boolean {
+    if (!this.get(queueId)) return false
+    this.activeId = queueId
+    return true
+  }
+
+  /**
+   * Queue the next clip comes from: the active queue, or the main queue once
+   * the active queue is empty (which makes the main queue active again)
+   */
+  nextPlaybackQueue(): ClipList {
+    const active = this.lists.get(this.activeId)
+    if (active && active.size() > 0) return active
+
+    this.activeId = MAIN_QUEUE_ID
+    return this.main
+  }
+
+  /** Waiting clips in the order advancing plays them: the active queue, then the main queue */
+  playOrder(): Clip[] {
+    const active = this.lists.get(this.activeId)
+    return [...(active?.toArray() ?? []), ...this.main.toArray()]
+  }
+
+  /** Named queues with their clips, in settings order */
+  toState(): NamedQueueState[] {
+    return this.configs.map((config) => ({
+      ...config,
+      clips: this.lists.get(config.id)?.toArray() ?? []
+    }))
+  }
+}
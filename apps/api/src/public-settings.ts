@@ -0,0 +1,31 @@
+/**
+ * Public Settings
+ *
+ * The settings sent to every client with the queue state (GET /api/c/:channel/queue and the
+ * stream). Anything moderation-related stays behind GET /api/c/:channel/settings.
+ */
+
+import type { AppSettings, QueueSettings } from '@cq/schemas/settings'
+
+// Queue settings that are left out of the public queue state
+const PRIVATE_QUEUE_SETTINGS = [
+  'channelPoints',
+  'filters',
+  'titleFilters'
+] as const satisfies ReadonlyArray<keyof QueueSettings>
+
+export type PublicQueueSettings = Omit<QueueSettings, (typeof PRIVATE_QUEUE_SETTINGS)[number]>
+
+export type PublicSettings = Omit<AppSettings, 'queue'> & { queue: PublicQueueSettings }
+
+/**
+ * Strip private queue settings for clients that may not be logged in
+ */
+export function toPublicSettings(settings: AppSettings): PublicSettings {
+  const privateKeys: ReadonlyArray<string> = PRIVATE_QUEUE_SETTINGS
+  const queue = Object.fromEntries(
+    Object.entries(settings.queue).filter(([key]) => !privateKeys.includes(key))
+  ) as PublicQueueSettings
+
+  return { ...settings, queue }
+}
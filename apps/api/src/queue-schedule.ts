@@ -0,0 +1,114 @@
+/**
+ * Queue Schedule
+ *
+ * When the queue opens and closes on its own: weekly schedule windows in the
+ * broadcaster's timezone, one-off timers (`!cq open 30m`), and closing the queue
+ * once it reaches its limit.
+ */
+
+import type { AutoClose, QueueSchedule } from '@cq/schemas/settings'
+
+/**
+ * A pending one-off open or close
+ */
+export interface QueueTimer {
+  action: 'open' | 'close'
+  at: Date
+}
+
+// Longest one-off timer, 24 hours
+export const MAX_TIMER_MS = 24 * 60 * 60 * 1000
+
+const DURATION_UNITS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 }
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+/**
+ * Weekday (0 = Sunday) and minutes since midnight of a moment in a timezone
+ */
+function getLocalTime(now: Date, timeZone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now)
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? ''
+
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: Number(part('hour')) * 60 + Number(part('minute'))
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours ?? 0) * 60 + (minutes ?? 0)
+}
+
+/**
+ * Check whether a moment falls inside any schedule window
+ * @param schedule - Windows and the timezone they are in
+ * @param now - Moment to check
+ */
+export function isWithinSchedule(schedule: QueueSchedule, now: Date): boolean {
+  const { day, minutes } = getLocalTime(now, schedule.timezone)
+  const previousDay = (day + 6) % 7
+
+  return schedule.windows.some((window) => {
+    const start = toMinutes(window.start)
+    const end = toMinutes(window.end)
+    if (start < end) {
+      return window.days.includes(day) && minutes >= start && minutes < end
+    }
+    // Runs past midnight, so it may have started the day before
+    return (
+      (window.days.includes(day) && minutes >= start) ||
+      (window.days.includes(previousDay) && minutes < end)
+    )
+  })
+}
+
+/**
+ * Parse a timer duration like "30m", "2h" or "90s" (a bare number is minutes)
+ * @returns Milliseconds, or null if invalid or longer than MAX_TIMER_MS
+ */
+export function parseDuration(input: string): number | null {
+  const match = input
+    .trim()
+    .toLowerCase()
+    .match(/^(\d+)([smh]?)$/)
+  if (!match) return null
+
+  const ms = Number(match[1]) * DURATION_UNITS[match[2] || 'm']!
+  return ms > 0 && ms <= MAX_TIMER_MS ? ms : null
+}
+
+/**
+ * Decide whether the queue limit should close or reopen the queue
+ * Only reopens a queue it closed itself, including when auto-close is turned off
+ * @param autoClose - Auto-close settings
+ * @param limit - Queue limit (null = no limit)
+ * @param size - Clips waiting in the main queue
+ * @param status - Whether the queue is open, and whether auto-close closed it
+ * @returns The change to make, or null to leave the queue as it is
+ */
+export function getAutoCloseChange(
+  autoClose: AutoClose,
+  limit: number | null,
+  size: number,
+  status: { isOpen: boolean; isAutoClosed: boolean }
+): 'open' | 'close' | null {
+  if (!autoClose.enabled || limit === null) {
+    return !status.isOpen && status.isAutoClosed ? 'open' : null
+  }
+  if (status.isOpen) {
+    return size >= limit ? 'close' : null
+  }
+  if (!status.isAutoClosed) return null
+
+  const reopenBelow = Math.min(autoClose.reopenBelow ?? limit, limit)
+  return size < reopenBelow ? 'open' : null
+}
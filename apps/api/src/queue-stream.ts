@@ -0,0 +1,104 @@
+/**
+ * Queue State Stream (Server-Sent Events)
+ *
+ * Pushes queue state to connected clients whenever it changes.
+ * Clients fall back to ETag polling when the stream is unavailable.
+ */
+
+import type { Request, Response } from 'express'
+
+// Comment line sent periodically so proxies don't close idle connections
+const HEARTBEAT_INTERVAL_MS = 25000
+
+// Tell EventSource how long to wait before reconnecting after a drop
+const CLIENT_RETRY_MS = 3000
+
+export class QueueStream {
+  private clients: Set<Response> = new Set()
+  private heartbeatTimer: NodeJS.Timeout | null = null
+
+  /**
+   * Register a client and send it the current state immediately
+   * @param req - Incoming request (used to detect disconnects)
+   * @param res - Response kept open for the lifetime of the stream
+   * @param id - Event ID for the initial state (the current ETag)
+   * @param state - Current queue state
+   */
+  connect(req: Request, res: Response, id: string, state: unknown): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no' // Disable nginx response buffering
+    })
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`)
+    this.send(res, 'state', id, state)
+
+    this.clients.add(res)
+    this.startHeartbeat()
+
+    req.on('close', () => {
+      this.clients.delete(res)
+      if (this.clients.size === 0) this.stopHeartbeat()
+    })
+  }
+
+  /**
+   * Send an event to every connected client
+   * @param event - Event name
+   * @param id - Event ID (clients echo it back as Last-Event-ID on reconnect)
+   * @param data - JSON-serializable payload
+   */
+  broadcast(event: string, id: string, data: unknown): void {
+    if (this.clients.size === 0) return
+
+    const payload = this.format(event, id, data)
+    for (const res of this.clients) {
+      try {
+        res.write(payload)
+      } catch (error) {
+        console.error('[Stream] Failed to write to client, dropping:', error)
+        this.clients.delete(res)
+      }
+    }
+  }
+
+  /** Number of connected clients */
+  get size(): number {
+    return this.clients.size
+  }
+
+  /** End all client connections (called on shutdown) */
+  closeAll(): void {
+    for (const res of this.clients) {
+      res.end()
+    }
+    this.clients.clear()
+    this.stopHeartbeat()
+  }
+
+  private send(res: Response, event: string, id: string, data: unknown): void {
+    res.write(this.format(event, id, data))
+  }
+
+  private format(event: string, id: string, data: unknown): string {
+    return `event: ${event}\nid: ${id}\ndata: ${JSON.stringify(data)}\n\n`
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer) return
+
+    this.heartbeatTimer = setInterval(() => {
+      for (const res of this.clients) {
+        res.write(': heartbeat\n\n')
+      }
+    }, HEARTBEAT_INTERVAL_MS)
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer)
+      this.heartbeatTimer = null
+    }
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Channel Point Redemptions
+ *
+ * Decides how a redemption is settled from its clip submission outcome and
+ * tracks redemptions whose clips are still waiting on moderation.
+ */
+
+import type { SubmissionOutcome } from '@cq/schemas/settings'
+
+import type { RedemptionStatus } from './eventsub.js'
+
+/**
+ * Redemption waiting on a moderator to approve or reject its clip
+ */
+export interface PendingRedemption {
+  rewardId: string
+  redemptionId: string
+}
+
+/**
+ * Status to settle a redemption with after submitting its clip
+ * @param outcome - Submission outcome (null if the URL was invalid or couldn't be fetched)
+ * @returns FULFILLED when queued, CANCELED (refund) when rejected, or null while pending
+ */
+export function getRedemptionStatus(outcome: SubmissionOutcome | null): RedemptionStatus | null {
+  if (outcome === 'added') return 'FULFILLED'
+  if (outcome === 'pending') return null
+  return 'CANCELED'
+}
+
+/**
+ * Redemptions keyed by the UUID of their pending clip
+ * In-memory only - after a restart they stay unfulfilled in the Twitch reward queue
+ */
+export class PendingRedemptions {
+  private redemptions = new Map<string, PendingRedemption[]>()
+
+  /** Track a redemption until its clip is approved or rejected */
+  add(clipId: string, redemption: PendingRedemption): void {
+    const existing = this.redemptions.get(clipId) ?? []
+    this.redemptions.set(clipId, [...existing, redemption])
+  }
+
+  /** Remove and return the redemptions waiting on a clip */
+  take(clipId: string): PendingRedemption[] {
+    const redemptions = this.redemptions.get(clipId) ?? []
+    this.redemptions.delete(clipId)
+    return redemptions
+  }
+
+  /** Number of clips with pending redemptions */
+  size(): number {
+    return this.redemptions.size
+  }
+}
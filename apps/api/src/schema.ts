@@ -8,15 +8,38 @@
  */
 
 import { sql } from 'drizzle-orm'
-import { index, integer, sqliteTable, text, uniqueIndex } from 'drizzle-orm/sqlite-core'
+import {
+  foreignKey,
+  index,
+  integer,
+  primaryKey,
+  sqliteTable,
+  text,
+  uniqueIndex
+} from 'drizzle-orm/sqlite-core'
 
+import type { AuditAction, AuditSource, SettingsChange } from '@cq/schemas/audit'
 import type { Clip } from '@cq/schemas/clip'
+import type { SessionSource } from '@cq/schemas/sessions'
 import type { AppSettings } from '@cq/schemas/settings'
+import type { SubmissionAttemptOutcome, SubmissionSource } from '@cq/schemas/submissions'
 import { ClipSchema, ContentType, Platform } from '@cq/schemas/clip'
 import {
   AppSettingsSchema,
+  COMMAND_NAMES,
   CommandSettingsSchema,
+  DEFAULT_AUTO_CLOSE,
+  DEFAULT_CHANNEL_POINTS_SETTINGS,
+  DEFAULT_CHAT_REPLIES,
+  DEFAULT_COMMAND_COOLDOWNS,
+  DEFAULT_COMMAND_PERMISSIONS,
+  DEFAULT_CONTENT_FILTERS,
+  DEFAULT_QUEUE_SCHEDULE,
+  DEFAULT_RATE_LIMIT_SETTINGS,
+  DEFAULT_REPLAY_COOLDOWN,
+  DEFAULT_STREAM_EVENT_SETTINGS,
   LoggerSettingsSchema,
+  MAIN_QUEUE_ID,
   PROVIDERS,
   QueueSettingsSchema,
   SoraSettingsSchema
@@ -42,15 +65,37 @@ export {
 // Re-export clip types for convenience
 export { Platform, ContentType, type Clip }
 
+/**
+ * Channels Table
+ *
+ * Twitch channels hosted by this server, keyed by broadcaster user ID.
+ * Every other table is scoped to one of them by its channel_id column.
+ */
+export const channels = sqliteTable(
+  'channels',
+  {
+    id: text('id').primaryKey(), // Twitch broadcaster user ID
+    login: text('login').notNull(), // Twitch login name (lowercase), used in /api/c/:channel
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`)
+  },
+  (table) => ({
+    loginIdx: uniqueIndex('idx_channels_login').on(table.login)
+  })
+)
+
 /**
  * Clips Table
  *
  * Normalized clip data with proper columns for efficient querying.
+ * The same clip submitted in two channels has a row in each.
  */
 export const clips = sqliteTable(
   'clips',
   {
-    id: text('id').primaryKey(), // UUID format: "platform:contentType:clip_id"
+    channelId: text('channel_id').notNull(), // Channel whose queue the clip was submitted to
+    id: text('id').notNull(), // UUID format: "platform:contentType:clip_id"
     platform: text('platform', { enum: ['twitch', 'kick', 'sora', 'streamable'] }).notNull(),
     contentType: text('content_type', { enum: ['clip', 'vod', 'highlight', 'cameo', 'video'] })
       .notNull()
@@ -65,6 +110,8 @@ export const clips = sqliteTable(
     creator: text('creator').notNull(),
     category: text('category'),
     createdAt: text('created_at'), // ISO date string from platform
+    viewCount: integer('view_count'), // Views when the clip was last fetched
+    language: text('language'), // Stream language (Twitch only)
     duration: integer('duration'), // Duration in seconds (for VODs/highlights)
     timestamp: integer('timestamp'), // Start time in seconds (from URL ?t= parameter)
     status: text('status', {
@@ -72,15 +119,23 @@ export const clips = sqliteTable(
     })
       .notNull()
       .default('approved'),
+    priority: integer('priority', { mode: 'boolean' }).notNull().default(false), // Plays ahead of regular submissions
+    queueId: text('queue_id').notNull().default(MAIN_QUEUE_ID), // Named queue an approved clip waits in
+    position: integer('position'), // Manual place among pinned clips, null when not pinned
     submittedAt: integer('submitted_at', { mode: 'timestamp' })
       .notNull()
       .default(sql`(unixepoch())`)
   },
   (table) => ({
+    pk: primaryKey({ columns: [table.channelId, table.id] }),
     platformIdx: index('idx_clips_platform').on(table.platform),
-    statusIdx: index('idx_clips_status').on(table.status),
+    statusIdx: index('idx_clips_status').on(table.channelId, table.status),
     channelIdx: index('idx_clips_channel').on(table.channel),
-    statusSubmittedIdx: index('idx_clips_status_submitted').on(table.status, table.submittedAt)
+    statusSubmittedIdx: index('idx_clips_status_submitted').on(
+      table.channelId,
+      table.status,
+      table.submittedAt
+    )
   })
 )
 
@@ -93,17 +148,46 @@ export const clipSubmitters = sqliteTable(
   'clip_submitters',
   {
     id: integer('id').primaryKey({ autoIncrement: true }),
-    clipId: text('clip_id')
-      .notNull()
-      .references(() => clips.id, { onDelete: 'cascade' }),
+    channelId: text('channel_id').notNull(),
+    clipId: text('clip_id').notNull(),
     submitter: text('submitter').notNull(),
     submittedAt: integer('submitted_at', { mode: 'timestamp' })
       .notNull()
       .default(sql`(unixepoch())`)
   },
   (table) => ({
-    clipIdIdx: index('idx_submitters_clip_id').on(table.clipId),
-    uniqueSubmission: uniqueIndex('unique_clip_submitter').on(table.clipId, table.submitter)
+    clipFk: foreignKey({
+      columns: [table.channelId, table.clipId],
+      foreignColumns: [clips.channelId, clips.id]
+    }).onDelete('cascade'),
+    clipIdIdx: index('idx_submitters_clip_id').on(table.channelId, table.clipId),
+    uniqueSubmission: uniqueIndex('unique_clip_submitter').on(
+      table.channelId,
+      table.clipId,
+      table.submitter
+    )
+  })
+)
+
+/**
+ * Sessions Table
+ *
+ * Streams (or manually started stretches) that plays are grouped by.
+ * At most one session per channel is open (endedAt is null) at a time.
+ */
+export const sessions = sqliteTable(
+  'sessions',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    channelId: text('channel_id').notNull(),
+    source: text('source').$type<SessionSource>().notNull(),
+    startedAt: integer('started_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+    endedAt: integer('ended_at', { mode: 'timestamp' }) // Null while the session is running
+  },
+  (table) => ({
+    startedAtIdx: index('idx_sessions_started_at').on(table.channelId, table.startedAt)
   })
 )
 
@@ -117,28 +201,91 @@ export const playLog = sqliteTable(
   'play_log',
   {
     id: integer('id').primaryKey({ autoIncrement: true }),
-    clipId: text('clip_id')
-      .notNull()
-      .references(() => clips.id, { onDelete: 'cascade' }),
+    channelId: text('channel_id').notNull(),
+    clipId: text('clip_id').notNull(),
     playedAt: integer('played_at', { mode: 'timestamp' })
       .notNull()
       .default(sql`(unixepoch())`),
     playedFor: integer('played_for'), // Duration watched in seconds (optional)
-    completedAt: integer('completed_at', { mode: 'timestamp' }) // When playback ended (optional)
+    completedAt: integer('completed_at', { mode: 'timestamp' }), // When playback ended (optional)
+    sessionId: integer('session_id').references(() => sessions.id, { onDelete: 'set null' }) // Session the clip was played in (optional)
   },
   (table) => ({
-    clipIdIdx: index('idx_play_log_clip_id').on(table.clipId),
-    playedAtIdx: index('idx_play_log_played_at').on(table.playedAt)
+    clipFk: foreignKey({
+      columns: [table.channelId, table.clipId],
+      foreignColumns: [clips.channelId, clips.id]
+    }).onDelete('cascade'),
+    clipIdIdx: index('idx_play_log_clip_id').on(table.channelId, table.clipId),
+    playedAtIdx: index('idx_play_log_played_at').on(table.channelId, table.playedAt),
+    sessionIdIdx: index('idx_play_log_session_id').on(table.sessionId)
+  })
+)
+
+/**
+ * Submission Attempts Table
+ *
+ * Every clip submission with its outcome, including rejected and failed ones.
+ * Not linked to clips since most attempts never reach the clips table.
+ */
+export const submissionAttempts = sqliteTable(
+  'submission_attempts',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    channelId: text('channel_id').notNull(),
+    submitter: text('submitter').notNull(),
+    url: text('url').notNull(),
+    source: text('source').$type<SubmissionSource>().notNull(),
+    outcome: text('outcome').$type<SubmissionAttemptOutcome>().notNull(),
+    reason: text('reason'), // Limits, matched filter or fetch error (optional)
+    title: text('title'), // Title of the fetched clip (optional)
+    clipId: text('clip_id'), // Set once the clip was queued or held for moderation
+    attemptedAt: integer('attempted_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`)
+  },
+  (table) => ({
+    attemptedAtIdx: index('idx_submission_attempts_attempted_at').on(
+      table.channelId,
+      table.attemptedAt
+    ),
+    submitterIdx: index('idx_submission_attempts_submitter').on(table.submitter),
+    outcomeIdx: index('idx_submission_attempts_outcome').on(table.outcome)
+  })
+)
+
+/**
+ * Audit Log Table
+ *
+ * Moderator and broadcaster actions from the web app and chat commands.
+ */
+export const auditLog = sqliteTable(
+  'audit_log',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    channelId: text('channel_id').notNull(),
+    actor: text('actor').notNull(), // Username of the moderator or broadcaster
+    source: text('source').$type<AuditSource>().notNull(),
+    action: text('action').$type<AuditAction>().notNull(),
+    clipIds: text('clip_ids', { mode: 'json' }).$type<string[]>().notNull(), // JSON: string[]
+    changes: text('changes', { mode: 'json' }).$type<SettingsChange[]>().notNull(), // JSON: SettingsChange[]
+    details: text('details'), // Chat command arguments or other context (optional)
+    createdAt: integer('created_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`)
+  },
+  (table) => ({
+    createdAtIdx: index('idx_audit_log_created_at').on(table.channelId, table.createdAt),
+    actorIdx: index('idx_audit_log_actor').on(table.actor)
   })
 )
 
 /**
  * Settings Table
  *
- * Single-row table for application settings.
+ * One row of settings per channel.
  */
 export const settings = sqliteTable('settings', {
-  id: integer('id').primaryKey().notNull().default(1),
+  channelId: text('channel_id').primaryKey(),
   version: integer('version').notNull().default(1), // Schema version for migrations
   commands: text('commands', { mode: 'json' }).notNull(), // JSON: CommandSettings
   queue: text('queue', { mode: 'json' }).notNull(), // JSON: QueueSettings
@@ -148,6 +295,23 @@ export const settings = sqliteTable('settings', {
     .default(sql`(unixepoch())`)
 })
 
+/**
+ * Queue Status Table
+ *
+ * One row per channel for whether its queue is open, so it survives restarts.
+ */
+export const queueStatus = sqliteTable('queue_status', {
+  channelId: text('channel_id').primaryKey(),
+  isOpen: integer('is_open', { mode: 'boolean' }).notNull().default(true),
+  isAutoClosed: integer('is_auto_closed', { mode: 'boolean' }).notNull().default(false), // Closed by reaching the limit
+  timerAction: text('timer_action').$type<'open' | 'close'>(), // What the one-off timer does (optional)
+  timerAt: integer('timer_at', { mode: 'timestamp' }), // When the one-off timer fires (optional)
+  isInScheduleWindow: integer('is_in_schedule_window', { mode: 'boolean' }), // Last schedule check (optional)
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`)
+})
+
 /**
  * Re-export ClipSchema from @cq/schemas for validation
  */
@@ -165,21 +329,38 @@ export const DEFAULT_SETTINGS: AppSettings = {
       'clear',
       'setlimit',
       'removelimit',
+      'setuserlimit',
       'prev',
       'next',
+      'undo',
       'removebysubmitter',
+      'ban',
+      'unban',
       'removebyplatform',
       'enableplatform',
       'disableplatform',
       'enableautomod',
       'disableautomod',
       'purgecache',
-      'purgehistory'
-    ]
+      'purgehistory',
+      'session',
+      'position',
+      'current',
+      'size',
+      'mine',
+      'eta'
+    ],
+    known: [...COMMAND_NAMES],
+    permissions: DEFAULT_COMMAND_PERMISSIONS,
+    aliases: {},
+    cooldowns: DEFAULT_COMMAND_COOLDOWNS,
+    replies: DEFAULT_CHAT_REPLIES
   },
   queue: {
     hasAutoModerationEnabled: true,
     limit: null,
+    maxPerSubmitter: null,
+    hasSubmitterLimitExemption: true,
     providers: [
       'twitch:clip',
       'twitch:vod',
@@ -189,9 +370,24 @@ export const DEFAULT_SETTINGS: AppSettings = {
       'sora:cameo',
       'streamable:video'
     ],
+    ordering: 'popularity',
     sora: {
       allowedCameos: []
-    }
+    },
+    channelPoints: DEFAULT_CHANNEL_POINTS_SETTINGS,
+    rateLimits: DEFAULT_RATE_LIMIT_SETTINGS,
+    filters: DEFAULT_CONTENT_FILTERS,
+    titleFilters: [],
+    durationLimits: {},
+    maxPlaySeconds: null,
+    maxClipAgeDays: null,
+    minViewCount: null,
+    allowedLanguages: [],
+    replayCooldown: DEFAULT_REPLAY_COOLDOWN,
+    namedQueues: [],
+    schedule: DEFAULT_QUEUE_SCHEDULE,
+    autoClose: DEFAULT_AUTO_CLOSE,
+    streamEvents: DEFAULT_STREAM_EVENT_SETTINGS
   },
   logger: {
     level: 'WARN',
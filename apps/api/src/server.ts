@@ -23,8 +23,12 @@ function validateEnvironment(): void {
     process.env.TWITCH_CLIENT_SECRET = process.env.TWITCH_CLIENT_SECRET.trim()
   if (process.env.TWITCH_BOT_TOKEN)
     process.env.TWITCH_BOT_TOKEN = process.env.TWITCH_BOT_TOKEN.trim()
+  // One or more channel logins, comma-separated
   if (process.env.TWITCH_CHANNEL_NAME)
-    process.env.TWITCH_CHANNEL_NAME = process.env.TWITCH_CHANNEL_NAME.trim()
+    process.env.TWITCH_CHANNEL_NAME = process.env.TWITCH_CHANNEL_NAME.split(',')
+      .map((login) => login.trim().toLowerCase())
+      .filter(Boolean)
+      .join(',')
   if (process.env.SESSION_SECRET) process.env.SESSION_SECRET = process.env.SESSION_SECRET.trim()
   if (process.env.API_URL) process.env.API_URL = process.env.API_URL.trim()
   if (process.env.FRONTEND_URL) process.env.FRONTEND_URL = process.env.FRONTEND_URL.trim()
@@ -67,6 +71,7 @@ function validateEnvironment(): void {
   console.log('[Server] Environment variables validated ✓')
   console.log(`[Server] Client-ID: ${clientId?.substring(0, 10)}... (${clientId?.length} chars)`)
   console.log('[Auth] Using Twitch OAuth Authorization Code + PKCE flow')
+  console.log(`[Server] Channels: ${process.env.TWITCH_CHANNEL_NAME!.split(',').join(', ')}`)
   console.log('[Auth] Broadcaster and moderators can control the queue')
 }
 
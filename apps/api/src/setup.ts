@@ -132,7 +132,7 @@ if (!CLIENT_ID || !CLIENT_SECRET) {
 console.log('🔧 Twitch Bot Token Setup')
 console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
 console.log('\nThis will open your browser to authorize the bot.')
-console.log('Scopes requested: user:read:chat')
+console.log('Scopes requested: user:read:chat user:write:chat channel:manage:redemptions')
 console.log()
 
 const app = express()
@@ -143,7 +143,7 @@ const authUrl = new URL('https://id.twitch.tv/oauth2/authorize')
 authUrl.searchParams.set('client_id', CLIENT_ID)
 authUrl.searchParams.set('redirect_uri', REDIRECT_URI)
 authUrl.searchParams.set('response_type', 'code')
-authUrl.searchParams.set('scope', 'user:read:chat')
+authUrl.searchParams.set('scope', 'user:read:chat user:write:chat channel:manage:redemptions')
 
 // Callback endpoint
 app.get('/auth/callback', async (req, res) => {
@@ -0,0 +1,88 @@
+/**
+ * Versioned Queue State
+ *
+ * Tracks a monotonic version for the queue state and keeps a bounded ring of
+ * recent changes as JSON patches, so clients that are slightly behind can
+ * catch up with a delta instead of downloading the full state.
+ */
+
+import type { JsonValue, PatchOperation } from '@cq/utils'
+import { createPatch } from '@cq/utils'
+
+// Number of recent changes kept for delta responses
+const DEFAULT_CAPACITY = 100
+
+/**
+ * Delta between two state versions
+ */
+export interface StateDelta {
+  from: number
+  version: number
+  ops: PatchOperation[]
+}
+
+interface StateChange {
+  version: number
+  ops: PatchOperation[]
+}
+
+export class VersionedState {
+  private snapshot: JsonValue = null
+  private changes: StateChange[] = []
+  private currentVersion: number
+
+  /**
+   * @param capacity - Maximum number of changes kept for deltas
+   * @param initialVersion - Starting version (defaults to the current time so
+   *   versions keep increasing across server restarts)
+   */
+  constructor(
+    private readonly capacity: number = DEFAULT_CAPACITY,
+    initialVersion: number = Date.now()
+  ) {
+    this.currentVersion = initialVersion
+  }
+
+  /** Current state version */
+  get version(): number {
+    return this.currentVersion
+  }
+
+  /**
+   * Record a new state, bumping the version if anything changed
+   * @param next - JSON-serializable state (serialized the same way clients receive it)
+   * @returns True if the state changed
+   */
+  update(next: unknown): boolean {
+    const serialized = JSON.parse(JSON.stringify(next)) as JsonValue
+    const ops = createPatch(this.snapshot, serialized)
+    if (ops.length === 0) return false
+
+    this.snapshot = serialized
+    this.currentVersion++
+    this.changes.push({ version: this.currentVersion, ops })
+    if (this.changes.length > this.capacity) {
+      this.changes.shift()
+    }
+    return true
+  }
+
+  /**
+   * Get the changes needed to bring a client at `version` up to date
+   * @returns Delta (empty ops if already current), or null if the version is
+   *   unknown or too old and the client needs a full snapshot
+   */
+  changesSince(version: number): StateDelta | null {
+    if (version === this.currentVersion) {
+      return { from: version, version, ops: [] }
+    }
+
+    const oldest = this.changes[0]
+    if (!oldest || version > this.currentVersion || version < oldest.version - 1) {
+      return null
+    }
+
+    const ops = this.changes.filter((c) => c.version > version).flatMap((c) => c.ops)
+    return { from: version, version: this.currentVersion, ops }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Submission Attempts
+ *
+ * Results of clip submissions as recorded in the submission attempt log,
+ * including failures that never produce a chat reply.
+ */
+
+import type { SubmissionFailure } from '@cq/schemas/submissions'
+
+import type { ReplyVariables, SubmissionResult } from './chat-replies.js'
+
+/**
+ * Submission that failed before there was an outcome to reply with
+ */
+export interface SubmissionFailureResult {
+  outcome: SubmissionFailure
+  reason: string
+}
+
+export type SubmissionAttemptResult = SubmissionResult | SubmissionFailureResult
+
+// Variables that explain an outcome (user and title are stored separately)
+const REASON_VARIABLES = ['provider', 'filter', 'limit', 'seconds'] as const satisfies Array<
+  keyof ReplyVariables
+>
+
+/**
+ * Check whether a submission failed without a reply outcome
+ */
+export function isSubmissionFailure(
+  result: SubmissionAttemptResult
+): result is SubmissionFailureResult {
+  return 'reason' in result
+}
+
+/**
+ * Describe why a submission got its outcome, for the attempt log
+ * @returns Reason text (e.g. "provider: twitch:vod"), or null if there is nothing to add
+ */
+export function getAttemptReason(result: SubmissionAttemptResult): string | null {
+  if (isSubmissionFailure(result)) return result.reason
+
+  const details = REASON_VARIABLES.filter((name) => result.variables[name] !== undefined).map(
+    (name) => `${name}: ${result.variables[name]}`
+  )
+  return details.length > 0 ? details.join(', ') : null
+}
@@ -0,0 +1,73 @@
+/**
+ * Clip Submission Rate Limits
+ *
+ * Throttles how often a user can submit clips and ignores the same URL when
+ * it's pasted repeatedly (e.g. several viewers sharing one link at once).
+ */
+
+import type { RateLimitRole, RateLimitSettings } from '@cq/schemas/settings'
+import { TTLCache } from '@cq/utils'
+
+import type { ChatUserRoles } from './command-permissions.js'
+
+// Upper bound for windows (matches RateLimitSettingsSchema)
+const MAX_WINDOW_MS = 3600 * 1000
+
+const ROLE_FLAGS: Record<RateLimitRole, keyof ChatUserRoles> = {
+  broadcaster: 'isBroadcaster',
+  moderator: 'isModerator',
+  vip: 'isVip',
+  subscriber: 'isSubscriber'
+}
+
+/**
+ * Seconds a user must wait between submissions
+ * Role overrides replace the default window; the most lenient matching role wins
+ */
+export function getUserRateLimitSeconds(settings: RateLimitSettings, roles: ChatUserRoles): number {
+  const overrides = Object.entries(settings.roleOverrides)
+    .filter(([role]) => roles[ROLE_FLAGS[role as RateLimitRole]])
+    .map(([, seconds]) => seconds)
+  return overrides.length > 0 ? Math.min(...overrides) : settings.userSeconds
+}
+
+export class SubmissionRateLimits {
+  // Key -> time the window ends (entries expire with the window)
+  private windows = new TTLCache<string, number>(MAX_WINDOW_MS)
+
+  /**
+   * Check whether a URL was already submitted within the window, and start the window if not
+   * @param url - Submitted URL
+   * @param seconds - Window length (0 = never a duplicate)
+   */
+  isDuplicateUrl(url: string, seconds: number): boolean {
+    return this.use(`url:${url}`, seconds) > 0
+  }
+
+  /**
+   * Check a user's submission window and start it if they can submit
+   * @param username - User submitting the clip
+   * @param seconds - Window length (0 = no limit)
+   * @returns Seconds remaining if the user is rate limited, otherwise 0
+   */
+  useUser(username: string, seconds: number): number {
+    return this.use(`user:${username.toLowerCase()}`, seconds)
+  }
+
+  /** Clear all windows */
+  clear(): void {
+    this.windows.clear()
+  }
+
+  private use(key: string, seconds: number): number {
+    const now = Date.now()
+    const endsAt = this.windows.get(key) ?? 0
+    if (endsAt > now) {
+      return Math.ceil((endsAt - now) / 1000)
+    }
+    if (seconds > 0) {
+      this.windows.set(key, now + seconds * 1000, seconds * 1000)
+    }
+    return 0
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Undo Stack
+ *
+ * The most recent destructive queue operations (clearing, removing, rejecting and
+ * advancing), kept so a moderator can take them back. In-memory only.
+ */
+
+import type { RollbackData } from '@cq/queue-ops'
+
+/** Operations kept for undo, older ones are dropped */
+export const MAX_UNDO_ENTRIES = 20
+
+/**
+ * Operations that can be undone
+ */
+export type UndoableAction = 'clear' | 'remove' | 'reject' | 'next'
+
+/**
+ * What an operation changed in one queue
+ */
+export interface QueueRollback {
+  /** Named queue the clips were taken from */
+  queueId: string
+  rollback: RollbackData
+}
+
+/**
+ * A destructive operation that can be undone
+ */
+export interface UndoEntry {
+  action: UndoableAction
+  /** Changes per queue, applied in order when undoing */
+  changes: QueueRollback[]
+  /** UUIDs of the clips the operation affected */
+  clipIds: string[]
+}
+
+export class UndoStack {
+  private entries: UndoEntry[] = []
+
+  /**
+   * @param maxEntries - Operations to keep (default: MAX_UNDO_ENTRIES)
+   */
+  constructor(private readonly maxEntries: number = MAX_UNDO_ENTRIES) {}
+
+  /** Remember an operation, dropping the oldest one when full */
+  push(entry: UndoEntry): void {
+    this.entries.push(entry)
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift()
+    }
+  }
+
+  /** Remove and return the most recent operation */
+  pop(): UndoEntry | undefined {
+    return this.entries.pop()
+  }
+
+  /** Most recent operation, without removing it */
+  peek(): UndoEntry | undefined {
+    return this.entries[this.entries.length - 1]
+  }
+
+  /** Number of operations that can be undone */
+  size(): number {
+    return this.entries.length
+  }
+}
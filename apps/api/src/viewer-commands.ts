@@ -0,0 +1,151 @@
+/**
+ * Viewer Chat Commands
+ *
+ * Read-only commands anyone in chat can run. Each builds the reply text the
+ * bot sends back, threaded on the viewer's message.
+ */
+
+import type { ViewerCommand } from '@cq/constants'
+import type { Clip } from '@cq/schemas/clip'
+import { Command } from '@cq/constants'
+
+import type { NamedQueues } from './named-queues.js'
+
+// Used for ETA when a clip has no known duration (most short clips)
+const DEFAULT_CLIP_DURATION_SECONDS = 30
+
+// Keep `mine` replies well under the chat message limit
+const MAX_LISTED_CLIPS = 5
+const MAX_TITLE_LENGTH = 40
+
+/**
+ * Queue state needed to answer viewer commands
+ */
+export interface ViewerQueueState {
+  current: Clip | null
+  /** Waiting clips in the order they play */
+  upcoming: Clip[]
+  /** Clips parked in the queues advancing doesn't pull from, by queue name */
+  parked: Array<{ name: string; clips: Clip[] }>
+  isOpen: boolean
+  limit: number | null
+}
+
+/**
+ * Split the waiting clips into the ones that play next and the parked ones
+ */
+export function getViewerQueues(
+  queues: NamedQueues
+): Pick<ViewerQueueState, 'upcoming' | 'parked'> {
+  return {
+    upcoming: queues.playOrder(),
+    parked: queues
+      .toState()
+      .filter((queue) => queue.id !== queues.activeQueueId && queue.clips.length > 0)
+      .map(({ name, clips }) => ({ name, clips }))
+  }
+}
+
+/**
+ * Build the chat reply for a viewer command
+ */
+export function getViewerCommandReply(
+  command: ViewerCommand,
+  username: string,
+  state: ViewerQueueState
+): string {
+  const ownClips = findSubmitterClips(state.upcoming, username)
+  const parkedClips = state.parked.flatMap(({ name, clips }) =>
+    findSubmitterClips(clips, username).map((found) => ({ ...found, queueName: name }))
+  )
+  const count = ownClips.length + parkedClips.length
+
+  switch (command) {
+    case Command.POSITION: {
+      if (count === 0) return 'You have no clips in the queue'
+      const positions = parkedClips.map(({ position, queueName }) => `#${position} in ${queueName}`)
+      if (ownClips.length > 0) {
+        const upcoming = ownClips.map(({ position }) => `#${position}`).join(', ')
+        positions.unshift(`${upcoming} of ${state.upcoming.length}`)
+      }
+      return count === 1
+        ? `Your clip is ${positions.join(' and ')}`
+        : `Your clips are ${positions.join(' and ')}`
+    }
+
+    case Command.MINE: {
+      if (count === 0) return 'You have no clips in the queue'
+      const entries = [
+        ...ownClips.map(
+          ({ position, clip }) => `#${position} ${truncate(clip.title, MAX_TITLE_LENGTH)}`
+        ),
+        ...parkedClips.map(
+          ({ position, clip, queueName }) =>
+            `${truncate(clip.title, MAX_TITLE_LENGTH)} (#${position} in ${queueName})`
+        )
+      ]
+      const listed = entries.slice(0, MAX_LISTED_CLIPS)
+      const remaining = entries.length - listed.length
+      const suffix = remaining > 0 ? ` (+${remaining} more)` : ''
+      return `You have ${pluralize(count, 'clip')} in the queue: ${listed.join(', ')}${suffix}`
+    }
+
+    case Command.CURRENT: {
+      if (!state.current) return 'Nothing is playing right now'
+      const submitters =
+        state.current.submitters.length > 0
+          ? ` (submitted by ${state.current.submitters.join(', ')})`
+          : ''
+      return `Now playing: ${state.current.title} from ${state.current.channel}${submitters}`
+    }
+
+    case Command.SIZE: {
+      const limit = state.limit !== null ? ` (limit ${state.limit})` : ''
+      const status = state.isOpen ? 'open' : 'closed'
+      return `${pluralize(state.upcoming.length, 'clip')} in the queue${limit}, submissions are ${status}`
+    }
+
+    case Command.ETA: {
+      const next = ownClips[0]
+      if (!next) {
+        const parked = parkedClips[0]
+        return parked
+          ? `Your clip is waiting in ${parked.queueName}, it has no play time yet`
+          : 'You have no clips in the queue'
+      }
+      if (next.position === 1) return 'Your clip is up next'
+
+      const waitSeconds = state.upcoming
+        .slice(0, next.position - 1)
+        .reduce((total, clip) => total + (clip.duration ?? DEFAULT_CLIP_DURATION_SECONDS), 0)
+      return `Your next clip (#${next.position}) should play in about ${formatWait(waitSeconds)}`
+    }
+  }
+}
+
+function findSubmitterClips(
+  upcoming: Clip[],
+  username: string
+): Array<{ position: number; clip: Clip }> {
+  const normalized = username.toLowerCase()
+  return upcoming
+    .map((clip, index) => ({ position: index + 1, clip }))
+    .filter(({ clip }) => clip.submitters.some((s) => s.toLowerCase() === normalized))
+}
+
+function formatWait(seconds: number): string {
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 1) return 'less than a minute'
+  if (minutes < 60) return pluralize(minutes, 'minute')
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return rest > 0 ? `${hours}h ${rest}m` : pluralize(hours, 'hour')
+}
+
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
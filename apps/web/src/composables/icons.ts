@@ -11,7 +11,9 @@ import IconSora from '~icons/custom/sora'
 import IconStreamable from '~icons/custom/streamable'
 import IconAlertCircle from '~icons/lucide/alert-circle'
 import IconAlertTriangle from '~icons/lucide/alert-triangle'
+import IconArrowRightLeft from '~icons/lucide/arrow-right-left'
 import IconBookOpen from '~icons/lucide/book-open'
+import IconChartColumn from '~icons/lucide/chart-column'
 import IconCheck from '~icons/lucide/check'
 import IconChevronDown from '~icons/lucide/chevron-down'
 import IconChevronLeft from '~icons/lucide/chevron-left'
@@ -21,6 +23,7 @@ import IconChevronsUpDown from '~icons/lucide/chevrons-up-down'
 import IconCircle from '~icons/lucide/circle'
 import IconCircleCheck from '~icons/lucide/circle-check'
 import IconCircleX from '~icons/lucide/circle-x'
+import IconClipboardList from '~icons/lucide/clipboard-list'
 import IconClock from '~icons/lucide/clock'
 // UI Controls
 import IconDownload from '~icons/lucide/download'
@@ -39,10 +42,13 @@ import IconMessageSquare from '~icons/lucide/message-square'
 import IconMoon from '~icons/lucide/moon'
 import IconPalette from '~icons/lucide/palette'
 import IconPause from '~icons/lucide/pause'
+import IconPin from '~icons/lucide/pin'
+import IconPinOff from '~icons/lucide/pin-off'
 // Actions
 import IconPlay from '~icons/lucide/play'
 import IconPlayCircle from '~icons/lucide/play-circle'
 import IconRotateCcw from '~icons/lucide/rotate-ccw'
+import IconScrollText from '~icons/lucide/scroll-text'
 import IconSearch from '~icons/lucide/search'
 import IconSettings from '~icons/lucide/settings'
 import IconSkipBack from '~icons/lucide/skip-back'
@@ -83,7 +89,10 @@ export const icons = {
     rotateCcw: IconRotateCcw,
     externalLink: IconExternalLink,
     logOut: IconLogOut,
-    download: IconDownload
+    download: IconDownload,
+    move: IconArrowRightLeft,
+    pin: IconPin,
+    unpin: IconPinOff
   },
 
   // Media
@@ -102,7 +111,10 @@ export const icons = {
     messageSquare: IconMessageSquare,
     palette: IconPalette,
     inbox: IconInbox,
-    star: IconStar
+    star: IconStar,
+    clipboardList: IconClipboardList,
+    scrollText: IconScrollText,
+    chartColumn: IconChartColumn
   },
 
   // Status
@@ -156,7 +168,10 @@ export const {
     rotateCcw: ActionRotateCcw,
     externalLink: ActionExternalLink,
     logOut: ActionLogOut,
-    download: ActionDownload
+    download: ActionDownload,
+    move: ActionMove,
+    pin: ActionPin,
+    unpin: ActionUnpin
   },
   media: { volume: MediaVolume, volumeMute: MediaVolumeMute },
   navigation: {
@@ -168,7 +183,10 @@ export const {
     messageSquare: NavMessageSquare,
     palette: NavPalette,
     inbox: NavInbox,
-    star: NavStar
+    star: NavStar,
+    clipboardList: NavClipboardList,
+    scrollText: NavScrollText,
+    chartColumn: NavChartColumn
   },
   status: {
     lock: StatusLock,
@@ -209,7 +227,10 @@ export const routeIcons = {
   info: NavInfo,
   'message-square': NavMessageSquare,
   palette: NavPalette,
-  inbox: NavInbox
+  inbox: NavInbox,
+  'clipboard-list': NavClipboardList,
+  'scroll-text': NavScrollText,
+  'chart-column': NavChartColumn
 } as const
 
 export type RouteIconKey = keyof typeof routeIcons
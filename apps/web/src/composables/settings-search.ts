@@ -59,12 +59,25 @@ function buildChatSettings(commands: CommandSettings): SearchResult[] {
       description: m.command_set_limit()
     },
     [Command.REMOVE_LIMIT]: { description: m.command_remove_limit() },
+    [Command.SET_USER_LIMIT]: {
+      args: [m.number().toLocaleLowerCase()],
+      description: m.command_set_user_limit()
+    },
     [Command.PREV]: { description: m.command_previous() },
     [Command.NEXT]: { description: m.command_next() },
+    [Command.UNDO]: { description: m.command_undo() },
     [Command.REMOVE_BY_SUBMITTER]: {
       args: [m.submitter().toLocaleLowerCase()],
       description: m.command_remove_by_submitter()
     },
+    [Command.BAN]: {
+      args: [m.submitter().toLocaleLowerCase()],
+      description: m.command_ban()
+    },
+    [Command.UNBAN]: {
+      args: [m.submitter().toLocaleLowerCase()],
+      description: m.command_unban()
+    },
     [Command.REMOVE_BY_PLATFORM]: {
       args: [m.platform().toLocaleLowerCase()],
       description: m.command_remove_by_platform()
@@ -80,7 +93,13 @@ function buildChatSettings(commands: CommandSettings): SearchResult[] {
     [Command.ENABLE_AUTOMOD]: { description: m.command_enable_auto_mod() },
     [Command.DISABLE_AUTOMOD]: { description: m.command_disable_auto_mod() },
     [Command.PURGE_CACHE]: { description: m.command_purge_cache() },
-    [Command.PURGE_HISTORY]: { description: m.command_purge_history() }
+    [Command.PURGE_HISTORY]: { description: m.command_purge_history() },
+    [Command.SESSION]: { args: ['start|end'], description: m.command_session() },
+    [Command.POSITION]: { description: m.command_position() },
+    [Command.CURRENT]: { description: m.command_current() },
+    [Command.SIZE]: { description: m.command_size() },
+    [Command.MINE]: { description: m.command_mine() },
+    [Command.ETA]: { description: m.command_eta() }
   }
 
   const results: SearchResult[] = [
@@ -146,6 +165,39 @@ function buildQueueSettings(queue: QueueSettings): SearchResult[] {
       settingType: 'number',
       keywords: ['queue', 'limit', 'size', 'maximum', 'clips']
     },
+    {
+      id: 'setting-queue-auto-close',
+      type: 'setting',
+      title: m.auto_close(),
+      description: m.auto_close_description(),
+      category: m.settings_queue(),
+      route: RouteNameConstants.SETTINGS_QUEUE,
+      value: queue.autoClose.enabled,
+      settingType: 'toggle',
+      keywords: ['queue', 'limit', 'close', 'reopen', 'full', 'automatic']
+    },
+    {
+      id: 'setting-queue-schedule',
+      type: 'setting',
+      title: m.queue_schedule(),
+      description: m.queue_schedule_description(),
+      category: m.settings_queue(),
+      route: RouteNameConstants.SETTINGS_QUEUE,
+      value: queue.schedule.enabled,
+      settingType: 'toggle',
+      keywords: ['queue', 'schedule', 'open', 'close', 'time', 'timezone', 'weekday', 'automatic']
+    },
+    {
+      id: 'setting-queue-stream-events',
+      type: 'setting',
+      title: m.stream_events(),
+      description: m.stream_events_description(),
+      category: m.settings_queue(),
+      route: RouteNameConstants.SETTINGS_QUEUE,
+      value: queue.streamEvents.openOnOnline || queue.streamEvents.closeOnOffline,
+      settingType: 'toggle',
+      keywords: ['queue', 'stream', 'live', 'online', 'offline', 'open', 'close', 'clear']
+    },
     {
       id: 'setting-queue-providers',
       type: 'setting',
@@ -165,6 +217,17 @@ function buildQueueSettings(queue: QueueSettings): SearchResult[] {
         'highlight',
         ...queue.providers
       ]
+    },
+    {
+      id: 'setting-queue-named-queues',
+      type: 'setting',
+      title: m.named_queues(),
+      description: m.named_queues_description(),
+      category: m.settings_queue(),
+      route: RouteNameConstants.SETTINGS_QUEUE,
+      value: queue.namedQueues.map((q) => q.name),
+      settingType: 'multiselect',
+      keywords: ['queue', 'named', 'later', 'park', 'move', 'segment']
     }
   ]
 }
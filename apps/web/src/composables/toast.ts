@@ -41,6 +41,19 @@ export function useToastNotifications() {
     })
   }
 
+  /**
+   * Confirm an operation with an Undo button on the toast
+   */
+  function undoable(detail: string, onUndo: () => void) {
+    toast.add({
+      severity: 'success',
+      summary: m.success(),
+      detail,
+      life: 10000,
+      action: { label: m.undo(), onClick: onUndo }
+    })
+  }
+
   function batchResult(succeeded: number, failed: number, operation: string) {
     const total = succeeded + failed
     if (failed === 0) {
@@ -52,5 +65,5 @@ export function useToastNotifications() {
     }
   }
 
-  return { success, error, warning, info, batchResult }
+  return { success, error, warning, info, undoable, batchResult }
 }
@@ -0,0 +1,108 @@
+import { onUnmounted, ref } from 'vue'
+
+import type { AuditAction, AuditLogEntry } from '@cq/schemas/audit'
+
+import { useChannel } from '@/stores/channel'
+import { fetchWithAuth } from '@/utils/api'
+
+export interface AuditLogFilters {
+  actor?: string
+  action?: AuditAction
+}
+
+interface AuditLogResponse {
+  entries: AuditLogEntry[]
+  nextCursor: string | null
+  hasMore: boolean
+  count: number
+}
+
+/**
+ * Composable for browsing the moderator action audit log (broadcaster only)
+ * Cursor-based pagination like useHistory, with server-side filters
+ */
+export function useAuditLog(limit = 50) {
+  const channel = useChannel()
+  const entries = ref<AuditLogEntry[]>([])
+  const filters = ref<AuditLogFilters>({})
+  const nextCursor = ref<string | null>(null)
+  const hasMore = ref(true)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  let abortController: AbortController | null = null
+
+  async function loadMore() {
+    if (loading.value || !hasMore.value) return
+
+    loading.value = true
+    error.value = null
+
+    abortController?.abort()
+    abortController = new AbortController()
+
+    try {
+      const params = new URLSearchParams({ limit: String(limit) })
+      const { actor, action } = filters.value
+      if (actor) params.set('actor', actor)
+      if (action) params.set('action', action)
+      if (nextCursor.value) params.set('cursor', nextCursor.value)
+
+      const response = await fetchWithAuth(`${channel.apiUrl}/audit?${params}`, {
+        signal: abortController.signal
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      const data: AuditLogResponse = await response.json()
+
+      entries.value.push(...data.entries)
+      nextCursor.value = data.nextCursor
+      hasMore.value = data.hasMore
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
+
+      error.value = err instanceof Error ? err.message : 'Failed to load audit log'
+      console.error('[Audit] Failed to load:', err)
+    } finally {
+      loading.value = false
+    }
+  }
+
+  function reset() {
+    abortController?.abort()
+    entries.value = []
+    nextCursor.value = null
+    hasMore.value = true
+    error.value = null
+    loading.value = false
+  }
+
+  /**
+   * Replace the filters and reload from the newest attempt
+   */
+  function setFilters(value: AuditLogFilters) {
+    filters.value = value
+    reset()
+    loadMore()
+  }
+
+  onUnmounted(() => {
+    abortController?.abort()
+  })
+
+  return {
+    entries,
+    filters,
+    loading,
+    error,
+    hasMore,
+    loadMore,
+    reset,
+    setFilters
+  }
+}
@@ -1,18 +1,19 @@
 import { onUnmounted, ref } from 'vue'
 
 import type { Clip } from '@cq/platforms'
+import type { Session } from '@cq/schemas/sessions'
 
-import { env } from '@/config'
+import { useChannel } from '@/stores/channel'
 import { fetchWithAuth } from '@/utils/api'
 
-const { API_URL } = env
-
 export interface PlayLogEntry {
   id: number
   clip: Clip
   playedAt: Date
   playedFor?: number
   completedAt?: Date
+  /** Stream or manual session the clip was played in */
+  sessionId?: number
 }
 
 interface HistoryResponse {
@@ -22,17 +23,28 @@ interface HistoryResponse {
   count: number
 }
 
+interface SessionsResponse {
+  entries: Session[]
+  nextCursor: string | null
+  hasMore: boolean
+  count: number
+}
+
 /**
  * Composable for history browsing with cursor-based pagination
  *
  * Features:
  * - Cursor-based pagination (efficient for large datasets)
+ * - Optional filter to a single session
  * - Infinite scroll support
  * - Error handling with retry logic
  * - Automatic cleanup on unmount
  */
 export function useHistory(limit = 50) {
+  const channel = useChannel()
   const entries = ref<PlayLogEntry[]>([])
+  const sessions = ref<Session[]>([])
+  const sessionId = ref<number | null>(null)
   const nextCursor = ref<string | null>(null)
   const hasMore = ref(true)
   const loading = ref(false)
@@ -50,11 +62,11 @@ export function useHistory(limit = 50) {
     abortController = new AbortController()
 
     try {
-      const url = nextCursor.value
-        ? `${API_URL}/api/history?limit=${limit}&cursor=${encodeURIComponent(nextCursor.value)}`
-        : `${API_URL}/api/history?limit=${limit}`
+      const params = new URLSearchParams({ limit: String(limit) })
+      if (sessionId.value !== null) params.set('session', String(sessionId.value))
+      if (nextCursor.value) params.set('cursor', nextCursor.value)
 
-      const response = await fetchWithAuth(url, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/history?${params}`, {
         signal: abortController.signal
       })
 
@@ -94,16 +106,46 @@ export function useHistory(limit = 50) {
     loading.value = false
   }
 
+  /**
+   * Show only plays from one session (null = all) and reload from the newest play
+   */
+  function setSession(value: number | null) {
+    sessionId.value = value
+    reset()
+    loadMore()
+  }
+
+  /**
+   * Load the most recent sessions for grouping and filtering
+   */
+  async function loadSessions() {
+    try {
+      const response = await fetchWithAuth(`${channel.apiUrl}/sessions?limit=100`)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      const data: SessionsResponse = await response.json()
+      sessions.value = data.entries
+    } catch (err) {
+      console.error('[History] Failed to load sessions:', err)
+    }
+  }
+
   onUnmounted(() => {
     abortController?.abort()
   })
 
   return {
     entries,
+    sessions,
+    sessionId,
     loading,
     error,
     hasMore,
     loadMore,
-    reset
+    loadSessions,
+    reset,
+    setSession
   }
 }
@@ -0,0 +1,70 @@
+import { onUnmounted, ref } from 'vue'
+
+import type { QueueStats } from '@cq/schemas/stats'
+
+import { useChannel } from '@/stores/channel'
+import { fetchWithAuth } from '@/utils/api'
+
+export interface StatsRange {
+  from?: Date
+  to?: Date
+}
+
+/**
+ * Composable for queue analytics over a date range (moderators only)
+ */
+export function useStats(limit = 10) {
+  const channel = useChannel()
+  const stats = ref<QueueStats | null>(null)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  let abortController: AbortController | null = null
+
+  /**
+   * Load the figures for a date range, replacing any request still running
+   */
+  async function load(range: StatsRange = {}) {
+    loading.value = true
+    error.value = null
+
+    abortController?.abort()
+    abortController = new AbortController()
+
+    try {
+      const params = new URLSearchParams({ limit: String(limit) })
+      if (range.from) params.set('from', range.from.toISOString())
+      if (range.to) params.set('to', range.to.toISOString())
+
+      const response = await fetchWithAuth(`${channel.apiUrl}/stats?${params}`, {
+        signal: abortController.signal
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      stats.value = await response.json()
+      loading.value = false
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
+
+      error.value = err instanceof Error ? err.message : 'Failed to load stats'
+      loading.value = false
+      console.error('[Stats] Failed to load:', err)
+    }
+  }
+
+  onUnmounted(() => {
+    abortController?.abort()
+  })
+
+  return {
+    stats,
+    loading,
+    error,
+    load
+  }
+}
@@ -0,0 +1,114 @@
+import { onUnmounted, ref } from 'vue'
+
+import type {
+  SubmissionAttempt,
+  SubmissionAttemptOutcome,
+  SubmissionSource
+} from '@cq/schemas/submissions'
+
+import { useChannel } from '@/stores/channel'
+import { fetchWithAuth } from '@/utils/api'
+
+export interface SubmissionAttemptFilters {
+  submitter?: string
+  outcome?: SubmissionAttemptOutcome
+  source?: SubmissionSource
+}
+
+interface SubmissionAttemptsResponse {
+  entries: SubmissionAttempt[]
+  nextCursor: string | null
+  hasMore: boolean
+  count: number
+}
+
+/**
+ * Composable for browsing the submission attempt log (moderators only)
+ * Cursor-based pagination like useHistory, with server-side filters
+ */
+export function useSubmissionAttempts(limit = 50) {
+  const channel = useChannel()
+  const entries = ref<SubmissionAttempt[]>([])
+  const filters = ref<SubmissionAttemptFilters>({})
+  const nextCursor = ref<string | null>(null)
+  const hasMore = ref(true)
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  let abortController: AbortController | null = null
+
+  async function loadMore() {
+    if (loading.value || !hasMore.value) return
+
+    loading.value = true
+    error.value = null
+
+    abortController?.abort()
+    abortController = new AbortController()
+
+    try {
+      const params = new URLSearchParams({ limit: String(limit) })
+      const { submitter, outcome, source } = filters.value
+      if (submitter) params.set('submitter', submitter)
+      if (outcome) params.set('outcome', outcome)
+      if (source) params.set('source', source)
+      if (nextCursor.value) params.set('cursor', nextCursor.value)
+
+      const response = await fetchWithAuth(`${channel.apiUrl}/submissions?${params}`, {
+        signal: abortController.signal
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      const data: SubmissionAttemptsResponse = await response.json()
+
+      entries.value.push(...data.entries)
+      nextCursor.value = data.nextCursor
+      hasMore.value = data.hasMore
+    } catch (err) {
+      if (err instanceof Error && err.name === 'AbortError') {
+        return
+      }
+
+      error.value = err instanceof Error ? err.message : 'Failed to load submissions'
+      console.error('[Submissions] Failed to load:', err)
+    } finally {
+      loading.value = false
+    }
+  }
+
+  function reset() {
+    abortController?.abort()
+    entries.value = []
+    nextCursor.value = null
+    hasMore.value = true
+    error.value = null
+    loading.value = false
+  }
+
+  /**
+   * Replace the filters and reload from the newest attempt
+   */
+  function setFilters(value: SubmissionAttemptFilters) {
+    filters.value = value
+    reset()
+    loadMore()
+  }
+
+  onUnmounted(() => {
+    abortController?.abort()
+  })
+
+  return {
+    entries,
+    filters,
+    loading,
+    error,
+    hasMore,
+    loadMore,
+    reset,
+    setFilters
+  }
+}
@@ -5,11 +5,13 @@ import { createRouter, createWebHistory } from 'vue-router'
 import type { RouteIconKey } from '@/composables/icons'
 import { config } from '@/config'
 import * as m from '@/paraglide/messages'
+import { useChannel } from '@/stores/channel'
 import { useLogger } from '@/stores/logger'
 import { useUser } from '@/stores/user'
 import HistoryPage from '@/views/HistoryPage.vue'
 import QueuePage from '@/views/QueuePage.vue'
 import AboutSettings from '@/views/settings/AboutSettings.vue'
+import AuditSettings from '@/views/settings/AuditSettings.vue'
 import ChatSettings from '@/views/settings/ChatSettings.vue'
 import LoggerSettings from '@/views/settings/LoggerSettings.vue'
 import OtherSettings from '@/views/settings/OtherSettings.vue'
@@ -20,24 +22,29 @@ declare module 'vue-router' {
   interface RouteMeta {
     icon: RouteIconKey
     requiresAuth: boolean
+    /** Only for moderators and the broadcaster */
+    requiresModerator?: boolean
   }
 }
 
 export enum RouteNameConstants {
   QUEUE = 'queue',
   HISTORY = 'history',
+  SUBMISSIONS = 'submissions',
+  STATS = 'stats',
   SETTINGS = 'settings',
   SETTINGS_CHAT = 'settings_chat',
   SETTINGS_QUEUE = 'settings_queue',
   SETTINGS_PREFERENCES = 'settings_preferences',
   SETTINGS_LOGS = 'settings_logs',
+  SETTINGS_AUDIT = 'settings_audit',
   SETTINGS_OTHER = 'settings_other',
   SETTINGS_ABOUT = 'settings_about'
 }
 
 export const routes: RouteRecordRaw[] = [
   {
-    path: '/',
+    path: '/c/:channel',
     name: RouteNameConstants.QUEUE,
     component: QueuePage,
     meta: {
@@ -46,7 +53,7 @@ export const routes: RouteRecordRaw[] = [
     }
   },
   {
-    path: '/history',
+    path: '/c/:channel/history',
     name: RouteNameConstants.HISTORY,
     component: HistoryPage,
     meta: {
@@ -55,7 +62,27 @@ export const routes: RouteRecordRaw[] = [
     }
   },
   {
-    path: '/settings',
+    path: '/c/:channel/submissions',
+    name: RouteNameConstants.SUBMISSIONS,
+    component: () => import('@/views/SubmissionsPage.vue'),
+    meta: {
+      icon: 'clipboard-list',
+      requiresAuth: true,
+      requiresModerator: true
+    }
+  },
+  {
+    path: '/c/:channel/stats',
+    name: RouteNameConstants.STATS,
+    component: () => import('@/views/StatsPage.vue'),
+    meta: {
+      icon: 'chart-column',
+      requiresAuth: true,
+      requiresModerator: true
+    }
+  },
+  {
+    path: '/c/:channel/settings',
     name: RouteNameConstants.SETTINGS,
     redirect: { name: RouteNameConstants.SETTINGS_CHAT },
     component: () => import('@/views/SettingsPage.vue'),
@@ -100,6 +127,15 @@ export const routes: RouteRecordRaw[] = [
           requiresAuth: true
         }
       },
+      {
+        path: 'audit',
+        name: RouteNameConstants.SETTINGS_AUDIT,
+        component: AuditSettings,
+        meta: {
+          icon: 'scroll-text',
+          requiresAuth: true
+        }
+      },
       {
         path: 'other',
         name: RouteNameConstants.SETTINGS_OTHER,
@@ -127,8 +163,9 @@ const router = createRouter({
   routes: [
     ...routes,
     {
+      // Pages outside a channel open the default channel (see beforeEach)
       path: '/:pathMatch(.*)*',
-      redirect: { name: RouteNameConstants.QUEUE }
+      component: QueuePage
     }
   ]
 })
@@ -137,16 +174,50 @@ router.beforeEach(async (to, from, next) => {
   document.title = config.title
   const logger = useLogger()
   const user = useUser()
+  const channel = useChannel()
+
+  // Every page belongs to a hosted channel, open the last or first one otherwise
+  await channel.ensureChannels()
+  const login = String(to.params.channel ?? '').toLowerCase()
+  if (!channel.channels.includes(login)) {
+    if (!channel.defaultChannel) {
+      logger.error('[Router]: No hosted channels found.')
+      next(false)
+      return
+    }
+    logger.debug(`[Router]: Unknown channel, redirecting to default channel from ${to.fullPath}.`)
+    next({
+      name: RouteNameConstants.QUEUE,
+      params: { channel: channel.defaultChannel },
+      query: to.query
+    })
+    return
+  }
+
+  const previousChannel = channel.login
+  channel.setChannel(login)
 
   // Wait for initial auth check to complete (prevents race condition on page refresh)
   await user.ensureInitialized()
 
+  // Roles differ per channel
+  if (user.isLoggedIn && previousChannel && previousChannel !== channel.login) {
+    await user.fetchUserRole()
+  }
+
   // Redirect to queue if trying to access protected route while not logged in
   if (!user.isLoggedIn && to.meta.requiresAuth) {
     logger.debug(`[Router]: User is not logged in, redirecting to queue page from ${to.fullPath}.`)
     next({ name: RouteNameConstants.QUEUE })
     return
   }
+  if (!user.canControlQueue && to.meta.requiresModerator) {
+    logger.debug(
+      `[Router]: User is not a moderator, redirecting to queue page from ${to.fullPath}.`
+    )
+    next({ name: RouteNameConstants.QUEUE })
+    return
+  }
   logger.debug(`[Router]: Navigating from ${from.fullPath} to ${to.fullPath}.`)
   next()
 })
@@ -161,11 +232,14 @@ export default router
 export const routeTranslations = {
   [RouteNameConstants.QUEUE]: m.queue,
   [RouteNameConstants.HISTORY]: m.history,
+  [RouteNameConstants.SUBMISSIONS]: m.submissions,
+  [RouteNameConstants.STATS]: m.stats,
   [RouteNameConstants.SETTINGS]: m.settings,
   [RouteNameConstants.SETTINGS_CHAT]: m.settings_chat,
   [RouteNameConstants.SETTINGS_QUEUE]: m.settings_queue,
   [RouteNameConstants.SETTINGS_PREFERENCES]: m.settings_preferences,
   [RouteNameConstants.SETTINGS_LOGS]: m.logs,
+  [RouteNameConstants.SETTINGS_AUDIT]: m.settings_audit,
   [RouteNameConstants.SETTINGS_OTHER]: m.settings_other,
   [RouteNameConstants.SETTINGS_ABOUT]: m.settings_about
 }
@@ -175,5 +249,9 @@ export const routeTranslations = {
  */
 export const allowedRoutes = computed(() => {
   const user = useUser()
-  return routes.filter((r) => (r.meta?.requiresAuth && user.isLoggedIn) || !r.meta?.requiresAuth)
+  return routes.filter(
+    (r) =>
+      ((r.meta?.requiresAuth && user.isLoggedIn) || !r.meta?.requiresAuth) &&
+      (!r.meta?.requiresModerator || user.canControlQueue)
+  )
 })
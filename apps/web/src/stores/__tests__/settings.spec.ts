@@ -1,6 +1,7 @@
 import { createPinia, setActivePinia } from 'pinia'
 import { beforeEach, describe, expect, it } from 'vitest'
 
+import { Command } from '@/types/commands'
 import {
   DEFAULT_COMMAND_SETTINGS,
   DEFAULT_LOGGER_SETTINGS,
@@ -36,6 +37,33 @@ describe('settings.ts', () => {
         prefix: '~dsa'
       })
     ).toEqual(true)
+    expect(
+      settings.isCommandsSettingsModified({
+        ...DEFAULT_COMMAND_SETTINGS,
+        replies: {
+          ...DEFAULT_COMMAND_SETTINGS.replies,
+          queueFull: { enabled: false, template: 'Full' }
+        }
+      })
+    ).toEqual(true)
+    expect(
+      settings.isCommandsSettingsModified({
+        ...DEFAULT_COMMAND_SETTINGS,
+        permissions: { ...DEFAULT_COMMAND_SETTINGS.permissions, clear: ['broadcaster'] }
+      })
+    ).toEqual(true)
+    expect(
+      settings.isCommandsSettingsModified({
+        ...DEFAULT_COMMAND_SETTINGS,
+        aliases: { skip: Command.NEXT }
+      })
+    ).toEqual(true)
+    expect(
+      settings.isCommandsSettingsModified({
+        ...DEFAULT_COMMAND_SETTINGS,
+        cooldowns: { ...DEFAULT_COMMAND_SETTINGS.cooldowns, next: { global: 10, user: 0 } }
+      })
+    ).toEqual(true)
     expect(settings.isCommandsSettingsModified(settings.$state.commands)).toEqual(false)
     expect(
       settings.isQueueSettingsModified({
@@ -43,6 +71,92 @@ describe('settings.ts', () => {
         limit: 1000
       })
     ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        channelPoints: { ...DEFAULT_QUEUE_SETTINGS.channelPoints, priority: true }
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        ordering: 'roundRobin'
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        maxPerSubmitter: 3
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        rateLimits: { ...DEFAULT_QUEUE_SETTINGS.rateLimits, roleOverrides: { moderator: 0 } }
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        filters: { ...DEFAULT_QUEUE_SETTINGS.filters, channels: { allowed: [], blocked: ['x'] } }
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        titleFilters: [
+          {
+            pattern: 'spoiler',
+            isRegex: false,
+            isCaseSensitive: false,
+            isWholeWord: true,
+            action: 'pending'
+          }
+        ]
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        durationLimits: { 'twitch:vod': { min: null, max: 600 } }
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        maxClipAgeDays: 7,
+        allowedLanguages: ['en']
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        replayCooldown: { mode: 'sessions', length: 2, action: 'pending' }
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        namedQueues: [{ id: 'later', name: 'Later', isOpen: true, limit: null }]
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        schedule: {
+          enabled: true,
+          timezone: 'Europe/Berlin',
+          windows: [{ days: [5], start: '20:00', end: '23:00' }]
+        },
+        autoClose: { enabled: true, reopenBelow: 10 }
+      })
+    ).toEqual(true)
+    expect(
+      settings.isQueueSettingsModified({
+        ...DEFAULT_QUEUE_SETTINGS,
+        streamEvents: { openOnOnline: true, closeOnOffline: true, clearOnOffline: false }
+      })
+    ).toEqual(true)
     expect(settings.isQueueSettingsModified(settings.$state.queue)).toEqual(false)
     expect(
       settings.isLoggerSettingsModified({
@@ -0,0 +1,81 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+
+import { useTypedLocalStorage } from '@/composables/storage'
+import { env } from '@/config'
+import { ChannelsSchema } from '@/utils/schemas'
+import { useLogger } from './logger'
+
+const { API_URL } = env
+
+/**
+ * The hosted channel being shown (the :channel route param).
+ * Queue, settings and history requests go to that channel's API.
+ */
+export const useChannel = defineStore('channel', () => {
+  const logger = useLogger()
+
+  const login = ref<string | undefined>(undefined)
+  const channels = ref<string[]>([])
+  const lastChannel = useTypedLocalStorage<string | null>('cq-channel', null)
+
+  // Base URL of the channel's API routes
+  const apiUrl = computed(() => `${API_URL}/api/c/${encodeURIComponent(login.value ?? '')}`)
+
+  /**
+   * Switch to a channel, remembering it for the next visit
+   */
+  function setChannel(value: string): void {
+    login.value = value.toLowerCase()
+    lastChannel.value = login.value
+  }
+
+  /**
+   * Fetch the channels the server hosts
+   */
+  async function loadChannels(): Promise<void> {
+    try {
+      const response = await fetch(`${API_URL}/api/channels`)
+      if (!response.ok) {
+        throw new Error(`Failed to load channels: ${response.statusText}`)
+      }
+
+      const parseResult = ChannelsSchema.safeParse(await response.json())
+      if (!parseResult.success) {
+        logger.error(
+          `[Channel]: Invalid channel data from server: ${JSON.stringify(parseResult.error.issues)}`
+        )
+        return
+      }
+      channels.value = parseResult.data.channels
+    } catch (error: unknown) {
+      logger.error(`[Channel]: Failed to load channels: ${error}`)
+    }
+  }
+
+  /**
+   * Fetch the channels once, later calls reuse the list
+   */
+  async function ensureChannels(): Promise<void> {
+    if (channels.value.length === 0) {
+      await loadChannels()
+    }
+  }
+
+  // Channel to open when none is given, the last one shown if it is still hosted
+  const defaultChannel = computed(() =>
+    lastChannel.value && channels.value.includes(lastChannel.value)
+      ? lastChannel.value
+      : channels.value[0]
+  )
+
+  return {
+    login,
+    channels,
+    apiUrl,
+    defaultChannel,
+    setChannel,
+    loadChannels,
+    ensureChannels
+  }
+})
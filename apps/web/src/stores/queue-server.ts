@@ -1,13 +1,16 @@
 /**
- * Queue Store (Server-Backed with Polling)
+ * Queue Store (Server-Backed with Push + Polling Fallback)
  *
- * Manages queue state by polling the server every 2 seconds.
- * Uses ETag for efficient bandwidth usage (304 Not Modified).
+ * Receives queue state pushed by the server over Server-Sent Events.
+ * Falls back to polling every 2 seconds while the stream is unavailable.
+ * Once a state version is known, both paths exchange JSON patch deltas
+ * instead of the full state.
  *
  * Architecture:
  * - Server monitors Twitch chat via EventSub
  * - Server manages queue state in SQLite + memory
- * - Frontend polls GET /api/queue every 2s with ETag
+ * - Frontend subscribes to GET /api/c/:channel/queue/stream for state and patch events
+ * - Frontend polls GET /api/c/:channel/queue?since=<version> every 2s when the stream drops
  * - Frontend sends control commands via REST API
  */
 
@@ -15,15 +18,17 @@ import { defineStore } from 'pinia'
 import { computed, ref } from 'vue'
 
 import type { Clip, PlayLogEntry } from '@cq/platforms'
+import type { ClipOrdering, NamedQueue, SubmissionOutcome } from '@cq/schemas/settings'
+import type { PatchOperation } from '@cq/utils'
 import { ClipList, toClipUUID } from '@cq/platforms'
+import { MAIN_QUEUE_ID } from '@cq/schemas/settings'
+import { applyPatch } from '@cq/utils'
 
-import { env } from '@/config'
 import { fetchWithAuth } from '@/utils/api'
+import { useChannel } from './channel'
 import { useLogger } from './logger'
 import { useSettings } from './settings'
 
-const { API_URL } = env
-
 // Polling configuration
 const BASE_POLL_INTERVAL_MS = 2000 // 2 seconds (normal)
 const IDLE_POLL_INTERVAL_MS = 10000 // 10 seconds (idle)
@@ -32,25 +37,110 @@ const MAX_POLL_INTERVAL_MS = 30000 // 30 seconds (max backoff)
 const POLL_JITTER_MS = 500 // ±500ms random jitter
 const MAX_CONSECUTIVE_ERRORS = 5 // Stop after 5 errors
 
+// Stream configuration
+const BASE_STREAM_RETRY_MS = 5000 // 5 seconds (first reconnect attempt)
+const MAX_STREAM_RETRY_MS = 60000 // 60 seconds (max backoff)
+
+/**
+ * A named queue with its clips, as returned by the server
+ */
+export interface NamedQueueState extends NamedQueue {
+  clips: Clip[]
+}
+
+/**
+ * Full queue state as returned by the server
+ */
+interface QueueState {
+  current: Clip | null
+  upcoming: Clip[]
+  queues?: NamedQueueState[]
+  activeQueueId?: string
+  playHistory: PlayLogEntry[]
+  historyPosition: number
+  isOpen: boolean
+  openTimer?: QueueTimer | null
+  stream?: StreamStatus | null
+  version?: number
+  settings?: {
+    commands: { prefix: string; allowed: string[] }
+    queue: {
+      hasAutoModerationEnabled: boolean
+      limit: number | null
+      providers: string[]
+      ordering: ClipOrdering
+    }
+    logger: { level: string; limit: number }
+  }
+}
+
+/**
+ * A pending one-off open or close (at = epoch milliseconds)
+ */
+export interface QueueTimer {
+  action: 'open' | 'close'
+  at: number
+}
+
+/**
+ * Whether the channel is streaming (startedAt = epoch milliseconds, null when offline)
+ */
+export interface StreamStatus {
+  isLive: boolean
+  startedAt: number | null
+}
+
+/**
+ * Changes between two state versions
+ */
+interface QueueStateDelta {
+  from: number
+  version: number
+  ops: PatchOperation[]
+}
+
 export const useQueueServer = defineStore('queue-server', () => {
   const logger = useLogger()
+  const channel = useChannel()
 
   // State (synced from server via polling)
   const isOpen = ref<boolean>(true)
+  const openTimer = ref<QueueTimer | null>(null) // When the queue opens or closes on its own
+  const stream = ref<StreamStatus | null>(null) // null = not known yet
   const playHistory = ref<PlayLogEntry[]>([])
   const current = ref<Clip | undefined>(undefined)
   const upcoming = ref<ClipList>(new ClipList())
+  const queues = ref<NamedQueueState[]>([]) // Named queues besides the main (upcoming) queue
+  const activeQueueId = ref<string>(MAIN_QUEUE_ID) // Queue advancing pulls from
   const historyPosition = ref<number>(-1) // -1 = queue mode, >= 0 = navigating history
   const isInitialized = ref<boolean>(false)
 
   // Polling state
   let pollTimeout: ReturnType<typeof setTimeout> | null = null
   let lastETag: string | null = null
+  let lastVersion: number | null = null
+  let serverState: QueueState | null = null // Last state received, base for patches
   let consecutiveErrors = 0
   let currentPollInterval = BASE_POLL_INTERVAL_MS
   let lastActivityTime = Date.now()
 
+  // Stream state
+  let eventSource: EventSource | null = null
+  let streamRetryTimeout: ReturnType<typeof setTimeout> | null = null
+  let streamRetryDelay = BASE_STREAM_RETRY_MS
+  const isStreamConnected = ref<boolean>(false)
+
   // Computed
+  /**
+   * Build the upcoming list with the queue's ordering strategy
+   * Clips arrive already ordered by the server, the strategy keeps optimistic updates in line
+   */
+  function toClipList(clips: Clip[], ordering = useSettings().queue.ordering): ClipList {
+    const list = new ClipList(...clips)
+    list.setOrdering(ordering)
+    return list
+  }
+
   const hasClips = computed(() => upcoming.value.size() > 0)
   const isEmpty = computed(() => upcoming.value.size() === 0)
   const size = computed(() => upcoming.value.size())
@@ -76,6 +166,9 @@ export const useQueueServer = defineStore('queue-server', () => {
   function schedulePoll(): void {
     if (!isInitialized.value) return
 
+    // Stream delivers state changes, no need to poll
+    if (isStreamConnected.value) return
+
     if (pollTimeout) {
       clearTimeout(pollTimeout)
     }
@@ -90,17 +183,21 @@ export const useQueueServer = defineStore('queue-server', () => {
 
   /**
    * Fetch queue state from server
-   * Uses ETag for efficient caching (304 Not Modified)
+   * Requests a delta since the last known version, or uses ETag for the full
+   * state (304 Not Modified when unchanged)
    * Implements exponential backoff on errors
    */
   async function fetchQueueState(): Promise<boolean> {
     try {
       const headers: HeadersInit = {}
-      if (lastETag) {
+      let url = `${channel.apiUrl}/queue`
+      if (lastVersion !== null) {
+        url += `?since=${lastVersion}`
+      } else if (lastETag) {
         headers['If-None-Match'] = lastETag
       }
 
-      const response = await fetch(`${API_URL}/api/queue`, {
+      const response = await fetch(url, {
         headers,
         credentials: 'include'
       })
@@ -136,8 +233,9 @@ export const useQueueServer = defineStore('queue-server', () => {
     } catch (error) {
       logger.error(`[Queue]: Failed to fetch queue state: ${error}`)
 
-      // Clear stale ETag on error
+      // Clear stale ETag and version on error
       lastETag = null
+      lastVersion = null
 
       // Increment error counter
       consecutiveErrors++
@@ -161,26 +259,48 @@ export const useQueueServer = defineStore('queue-server', () => {
 
   /**
    * Update local state from server response
+   * Accepts a full state or a delta against the last received version
    */
-  function updateState(data: {
-    current: Clip | null
-    upcoming: Clip[]
-    playHistory: PlayLogEntry[]
-    historyPosition: number
-    isOpen: boolean
-    settings?: {
-      commands: { prefix: string; allowed: string[] }
-      queue: { hasAutoModerationEnabled: boolean; limit: number | null; providers: string[] }
-      logger: { level: string; limit: number }
+  function updateState(payload: QueueState | QueueStateDelta): void {
+    let data: QueueState
+    if ('ops' in payload) {
+      // Already have this version or newer (e.g. from a command response)
+      if (lastVersion !== null && payload.version <= lastVersion) return
+
+      if (!serverState || payload.from !== lastVersion) {
+        logger.debug('[Queue]: Missed state version, requesting full state')
+        resync()
+        return
+      }
+
+      try {
+        data = applyPatch(serverState, payload.ops)
+      } catch (error) {
+        logger.warn(`[Queue]: Failed to apply state patch, requesting full state: ${error}`)
+        resync()
+        return
+      }
+      data.version = payload.version
+    } else {
+      // Ignore snapshots older than what we already have
+      if (lastVersion !== null && payload.version !== undefined && payload.version < lastVersion) {
+        return
+      }
+      data = payload
     }
-  }): void {
+
+    serverState = data
+    lastVersion = data.version ?? null
+
     logger.debug('[Queue]: Updating state from server')
 
     // Update current clip
     current.value = data.current || undefined
 
     // Update upcoming queue (batch add for O(n log n) instead of O(n² log n))
-    upcoming.value = new ClipList(...data.upcoming)
+    upcoming.value = toClipList(data.upcoming, data.settings?.queue.ordering)
+    queues.value = data.queues ?? []
+    activeQueueId.value = data.activeQueueId ?? MAIN_QUEUE_ID
 
     // Update history (batch add)
     playHistory.value = data.playHistory || []
@@ -190,18 +310,97 @@ export const useQueueServer = defineStore('queue-server', () => {
 
     // Update queue open/close status
     isOpen.value = data.isOpen
+    openTimer.value = data.openTimer ?? null
+    stream.value = data.stream ?? null
 
     // Update settings if provided (for real-time sync across clients)
     if (data.settings) {
       const settingsStore = useSettings()
       // Cast to frontend types (server returns validated zod-inferred types)
       settingsStore.commands = data.settings.commands as typeof settingsStore.commands
-      settingsStore.queue = data.settings.queue as typeof settingsStore.queue
+      // Private queue settings are left out of the queue state, so keep the loaded ones
+      settingsStore.queue = {
+        ...settingsStore.queue,
+        ...data.settings.queue
+      } as typeof settingsStore.queue
       settingsStore.logger = data.settings.logger as typeof settingsStore.logger
       logger.debug('[Queue]: Settings synchronized from server')
     }
   }
 
+  /**
+   * Discard the local version and fetch the full state
+   */
+  function resync(): void {
+    lastVersion = null
+    lastETag = null
+    serverState = null
+    fetchQueueState()
+  }
+
+  /**
+   * Connect to the server push stream
+   * Polling is paused while connected and resumes when the stream drops
+   */
+  function connectStream(): void {
+    if (!isInitialized.value || eventSource) return
+
+    // EventSource unavailable (e.g. non-browser environments), keep polling
+    if (typeof EventSource === 'undefined') return
+
+    logger.debug('[Queue]: Connecting to state stream')
+    const source = new EventSource(`${channel.apiUrl}/queue/stream`, { withCredentials: true })
+    eventSource = source
+
+    source.addEventListener('open', () => {
+      logger.info('[Queue]: State stream connected, pausing polling')
+      isStreamConnected.value = true
+      streamRetryDelay = BASE_STREAM_RETRY_MS
+      consecutiveErrors = 0
+
+      if (pollTimeout) {
+        clearTimeout(pollTimeout)
+        pollTimeout = null
+      }
+    })
+
+    const handleStreamEvent = (event: Event) => {
+      try {
+        updateState(JSON.parse((event as MessageEvent<string>).data))
+      } catch (error) {
+        logger.error(`[Queue]: Failed to parse stream event: ${error}`)
+      }
+    }
+    source.addEventListener('state', handleStreamEvent)
+    source.addEventListener('patch', handleStreamEvent)
+
+    source.addEventListener('error', () => {
+      // Close instead of letting EventSource retry so polling can take over
+      disconnectStream()
+      if (!isInitialized.value) return
+
+      logger.warn(`[Queue]: State stream dropped, polling until reconnect in ${streamRetryDelay}ms`)
+      fetchQueueState()
+
+      streamRetryTimeout = setTimeout(() => {
+        streamRetryTimeout = null
+        connectStream()
+      }, streamRetryDelay)
+      streamRetryDelay = Math.min(streamRetryDelay * 2, MAX_STREAM_RETRY_MS)
+    })
+  }
+
+  /**
+   * Close the server push stream
+   */
+  function disconnectStream(): void {
+    if (eventSource) {
+      eventSource.close()
+      eventSource = null
+    }
+    isStreamConnected.value = false
+  }
+
   /**
    * Mark activity for adaptive polling
    */
@@ -224,8 +423,9 @@ export const useQueueServer = defineStore('queue-server', () => {
     isInitialized.value = true
     logger.info('[Queue]: Starting adaptive polling (base: 2s, idle: 10s, active: 500ms)')
 
-    // Fetch initial state immediately, then schedule polling
+    // Fetch initial state immediately, then schedule polling until the stream connects
     fetchQueueState()
+    connectStream()
   }
 
   /**
@@ -241,8 +441,17 @@ export const useQueueServer = defineStore('queue-server', () => {
       pollTimeout = null
     }
 
+    if (streamRetryTimeout) {
+      clearTimeout(streamRetryTimeout)
+      streamRetryTimeout = null
+    }
+    disconnectStream()
+    streamRetryDelay = BASE_STREAM_RETRY_MS
+
     isInitialized.value = false
     lastETag = null
+    lastVersion = null
+    serverState = null
     consecutiveErrors = 0
     currentPollInterval = BASE_POLL_INTERVAL_MS
   }
@@ -257,13 +466,15 @@ export const useQueueServer = defineStore('queue-server', () => {
     // Optimistic update: predict next state
     const previousCurrent = current.value
     const previousUpcoming = upcoming.value.toArray()
+    const previousQueues = queues.value.map((q) => ({ ...q, clips: [...q.clips] }))
     const previousHistory = [...playHistory.value]
 
     try {
-      // Optimistically update UI
-      current.value = upcoming.value.shift()
+      // Optimistically update UI (the main queue takes over once the active queue is empty)
+      const activeQueue = queues.value.find((q) => q.id === activeQueueId.value)
+      current.value = activeQueue?.clips.length ? activeQueue.clips.shift() : upcoming.value.shift()
 
-      const response = await fetchWithAuth(`${API_URL}/api/queue/advance`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/advance`, {
         method: 'POST'
       })
 
@@ -284,7 +495,8 @@ export const useQueueServer = defineStore('queue-server', () => {
 
       // Revert optimistic update
       current.value = previousCurrent
-      upcoming.value = new ClipList(...previousUpcoming)
+      upcoming.value = toClipList(previousUpcoming)
+      queues.value = previousQueues
       playHistory.value = previousHistory
 
       throw error
@@ -307,7 +519,7 @@ export const useQueueServer = defineStore('queue-server', () => {
       const lastEntry = playHistory.value.pop()
       current.value = lastEntry?.clip
 
-      const response = await fetchWithAuth(`${API_URL}/api/queue/previous`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/previous`, {
         method: 'POST'
       })
 
@@ -327,7 +539,7 @@ export const useQueueServer = defineStore('queue-server', () => {
 
       // Revert optimistic update
       current.value = previousCurrent
-      upcoming.value = new ClipList(...previousUpcoming)
+      upcoming.value = toClipList(previousUpcoming)
       playHistory.value = previousHistory
 
       throw error
@@ -344,7 +556,7 @@ export const useQueueServer = defineStore('queue-server', () => {
       // Optimistically clear queue
       upcoming.value.clear()
 
-      const response = await fetchWithAuth(`${API_URL}/api/queue`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue`, {
         method: 'DELETE'
       })
 
@@ -363,7 +575,7 @@ export const useQueueServer = defineStore('queue-server', () => {
       logger.error(`[Queue]: Failed to clear: ${error}`)
 
       // Revert optimistic update
-      upcoming.value = new ClipList(...previousUpcoming)
+      upcoming.value = toClipList(previousUpcoming)
 
       throw error
     }
@@ -378,7 +590,7 @@ export const useQueueServer = defineStore('queue-server', () => {
       // Optimistically open queue
       isOpen.value = true
 
-      const response = await fetchWithAuth(`${API_URL}/api/queue/open`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/open`, {
         method: 'POST'
       })
 
@@ -412,7 +624,7 @@ export const useQueueServer = defineStore('queue-server', () => {
       // Optimistically close queue
       isOpen.value = false
 
-      const response = await fetchWithAuth(`${API_URL}/api/queue/close`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/close`, {
         method: 'POST'
       })
 
@@ -446,7 +658,7 @@ export const useQueueServer = defineStore('queue-server', () => {
       // Optimistically clear history
       playHistory.value = []
 
-      const response = await fetchWithAuth(`${API_URL}/api/queue/history`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/history`, {
         method: 'DELETE'
       })
 
@@ -471,12 +683,16 @@ export const useQueueServer = defineStore('queue-server', () => {
     }
   }
 
-  async function submit(url: string, submitter: string): Promise<void> {
+  /**
+   * Submit a clip on behalf of a viewer
+   * @returns Submission outcome (null if the URL was invalid or the clip couldn't be fetched)
+   */
+  async function submit(url: string, submitter: string): Promise<SubmissionOutcome | null> {
     markActivity()
 
     // No optimistic update for submit (we don't have clip metadata yet)
     try {
-      const response = await fetchWithAuth(`${API_URL}/api/queue/submit`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/submit`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -493,8 +709,9 @@ export const useQueueServer = defineStore('queue-server', () => {
         updateState(data.state)
       }
 
-      logger.info('[Queue]: Submitted clip')
+      logger.info(`[Queue]: Submitted clip (${data.outcome ?? 'invalid'})`)
       schedulePoll()
+      return data.outcome ?? null
     } catch (error) {
       logger.error(`[Queue]: Failed to submit clip: ${error}`)
       throw error
@@ -514,7 +731,7 @@ export const useQueueServer = defineStore('queue-server', () => {
         upcoming.value.remove(clipToRemove)
       }
 
-      const response = await fetchWithAuth(`${API_URL}/api/queue/remove`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/remove`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -537,7 +754,7 @@ export const useQueueServer = defineStore('queue-server', () => {
       logger.error(`[Queue]: Failed to remove clip: ${error}`)
 
       // Revert optimistic update
-      upcoming.value = new ClipList(...previousUpcoming)
+      upcoming.value = toClipList(previousUpcoming)
 
       throw error
     }
@@ -559,7 +776,7 @@ export const useQueueServer = defineStore('queue-server', () => {
         current.value = clipToPlay
       }
 
-      const response = await fetchWithAuth(`${API_URL}/api/queue/play`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/play`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -583,13 +800,209 @@ export const useQueueServer = defineStore('queue-server', () => {
 
       // Revert optimistic update
       current.value = previousCurrent
-      upcoming.value = new ClipList(...previousUpcoming)
+      upcoming.value = toClipList(previousUpcoming)
       playHistory.value = previousHistory
 
       throw error
     }
   }
 
+  /**
+   * Move a waiting clip to another queue
+   * @param queueId - Target queue (MAIN_QUEUE_ID for the main queue)
+   */
+  async function moveClip(clipId: string, queueId: string): Promise<void> {
+    markActivity()
+
+    try {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/move`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ clipId, queueId })
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      const data = await response.json()
+      if (data.state) {
+        updateState(data.state)
+      }
+
+      logger.info(`[Queue]: Moved clip to ${queueId}`)
+      schedulePoll()
+    } catch (error) {
+      logger.error(`[Queue]: Failed to move clip: ${error}`)
+      throw error
+    }
+  }
+
+  /**
+   * Undo the most recent clear, removal, rejection or advance
+   */
+  async function undo(): Promise<void> {
+    markActivity()
+
+    try {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/undo`, {
+        method: 'POST'
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      const data = await response.json()
+      if (data.state) {
+        updateState(data.state)
+      }
+
+      logger.info(`[Queue]: Undid ${data.undone}`)
+      schedulePoll()
+    } catch (error) {
+      logger.error(`[Queue]: Failed to undo: ${error}`)
+      throw error
+    }
+  }
+
+  /**
+   * Pin a waiting clip so it plays next, or unpin it
+   * @param pinned - False to let the ordering strategy place the clip again
+   */
+  async function pin(clipId: string, pinned = true): Promise<void> {
+    markActivity()
+
+    // Optimistic update (main queue only, named queues update from the response)
+    const previousUpcoming = upcoming.value.toArray().map((c) => ({ ...c }))
+    const clipToPin = previousUpcoming.find((c) => toClipUUID(c) === clipId)
+
+    try {
+      if (clipToPin) {
+        if (pinned) {
+          upcoming.value.pin(clipToPin)
+        } else {
+          upcoming.value.unpin(clipToPin)
+        }
+      }
+
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/pin`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ clipId, pinned })
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      const data = await response.json()
+      if (data.state) {
+        updateState(data.state)
+      }
+
+      logger.info(`[Queue]: ${pinned ? 'Pinned' : 'Unpinned'} clip`)
+      schedulePoll()
+    } catch (error) {
+      logger.error(`[Queue]: Failed to pin clip: ${error}`)
+
+      // Revert optimistic update
+      upcoming.value = toClipList(previousUpcoming)
+
+      throw error
+    }
+  }
+
+  /**
+   * Pin clips of one queue in the given order (the rest keep the ordering strategy)
+   * @param clipIds - Clips to pin, in play order
+   */
+  async function reorder(clipIds: string[]): Promise<void> {
+    markActivity()
+
+    // Optimistic update (main queue only, named queues update from the response)
+    const previousUpcoming = upcoming.value.toArray().map((c) => ({ ...c }))
+    const isMainQueue = previousUpcoming.some((c) => toClipUUID(c) === clipIds[0])
+
+    try {
+      if (isMainQueue) {
+        upcoming.value.reorder(clipIds)
+      }
+
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/reorder`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ clipIds })
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      const data = await response.json()
+      if (data.state) {
+        updateState(data.state)
+      }
+
+      logger.info('[Queue]: Reordered clips')
+      schedulePoll()
+    } catch (error) {
+      logger.error(`[Queue]: Failed to reorder clips: ${error}`)
+
+      // Revert optimistic update
+      upcoming.value = toClipList(previousUpcoming)
+
+      throw error
+    }
+  }
+
+  /**
+   * Choose the queue advancing pulls from
+   */
+  async function setActiveQueue(queueId: string): Promise<void> {
+    markActivity()
+
+    // Optimistic update
+    const previousActiveQueueId = activeQueueId.value
+
+    try {
+      activeQueueId.value = queueId
+
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/active`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ queueId })
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+
+      const data = await response.json()
+      if (data.state) {
+        updateState(data.state)
+      }
+
+      logger.info(`[Queue]: Playing from ${queueId}`)
+      schedulePoll()
+    } catch (error) {
+      logger.error(`[Queue]: Failed to set active queue: ${error}`)
+
+      // Revert optimistic update
+      activeQueueId.value = previousActiveQueueId
+
+      throw error
+    }
+  }
+
   async function removeFromHistory(clipId: string): Promise<void> {
     markActivity()
 
@@ -597,7 +1010,7 @@ export const useQueueServer = defineStore('queue-server', () => {
     const previousHistory = [...playHistory.value]
 
     try {
-      const response = await fetchWithAuth(`${API_URL}/api/queue/history/${clipId}`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/history/${clipId}`, {
         method: 'DELETE'
       })
 
@@ -637,7 +1050,7 @@ export const useQueueServer = defineStore('queue-server', () => {
         }
       })
 
-      const response = await fetchWithAuth(`${API_URL}/api/queue/batch/remove`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/batch/remove`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -660,7 +1073,7 @@ export const useQueueServer = defineStore('queue-server', () => {
       logger.error(`[Queue]: Failed to batch remove clips: ${error}`)
 
       // Revert optimistic update
-      upcoming.value = new ClipList(...previousUpcoming)
+      upcoming.value = toClipList(previousUpcoming)
 
       throw error
     }
@@ -671,7 +1084,7 @@ export const useQueueServer = defineStore('queue-server', () => {
 
     // No optimistic update (pending clips not shown in UI)
     try {
-      const response = await fetchWithAuth(`${API_URL}/api/queue/batch/approve`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/batch/approve`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -701,7 +1114,7 @@ export const useQueueServer = defineStore('queue-server', () => {
 
     // No optimistic update (pending clips not shown in UI)
     try {
-      const response = await fetchWithAuth(`${API_URL}/api/queue/batch/reject`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/batch/reject`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
@@ -730,7 +1143,7 @@ export const useQueueServer = defineStore('queue-server', () => {
     markActivity()
 
     try {
-      const response = await fetchWithAuth(`${API_URL}/api/queue/rejected`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/rejected`, {
         method: 'GET',
         credentials: 'include'
       })
@@ -754,7 +1167,7 @@ export const useQueueServer = defineStore('queue-server', () => {
 
     // No optimistic update (restored clip goes to pending/approved)
     try {
-      const response = await fetchWithAuth(`${API_URL}/api/queue/rejected/${clipId}/restore`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/rejected/${clipId}/restore`, {
         method: 'POST'
       })
 
@@ -789,7 +1202,7 @@ export const useQueueServer = defineStore('queue-server', () => {
         current.value = clipToReplay.clip
       }
 
-      const response = await fetchWithAuth(`${API_URL}/api/queue/history/${clipId}/replay`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/queue/history/${clipId}/replay`, {
         method: 'POST'
       })
 
@@ -819,13 +1232,18 @@ export const useQueueServer = defineStore('queue-server', () => {
     // State
     current,
     upcoming,
+    queues,
+    activeQueueId,
     playHistory,
     historyPosition,
     isNavigatingHistory,
     isOpen,
+    openTimer,
+    stream,
     hasClips,
     isEmpty,
     size,
+    isStreamConnected,
 
     // Lifecycle
     initialize,
@@ -841,6 +1259,11 @@ export const useQueueServer = defineStore('queue-server', () => {
     submit,
     remove,
     play,
+    moveClip,
+    setActiveQueue,
+    undo,
+    pin,
+    reorder,
     removeFromHistory,
     batchRemove,
     batchApprove,
@@ -2,16 +2,33 @@ import { defineStore } from 'pinia'
 import { computed, ref } from 'vue'
 
 import type {
+  CommandCooldown,
+  CommandRole,
   Provider,
   CommandSettings as SharedCommandSettings,
   LoggerSettings as SharedLoggerSettings,
   QueueSettings as SharedQueueSettings,
   SoraSettings
 } from '@cq/schemas/settings'
-import { PROVIDERS } from '@cq/schemas/settings'
+import {
+  COMMAND_ROLES,
+  DEFAULT_AUTO_CLOSE,
+  DEFAULT_CHANNEL_POINTS_SETTINGS,
+  DEFAULT_CHAT_REPLIES,
+  DEFAULT_COMMAND_COOLDOWNS,
+  DEFAULT_COMMAND_PERMISSIONS,
+  DEFAULT_CONTENT_FILTERS,
+  DEFAULT_QUEUE_SCHEDULE,
+  DEFAULT_RATE_LIMIT_SETTINGS,
+  DEFAULT_REPLAY_COOLDOWN,
+  DEFAULT_STREAM_EVENT_SETTINGS,
+  PROVIDERS,
+  RateLimitRoleSchema,
+  SUBMISSION_OUTCOMES
+} from '@cq/schemas/settings'
 
 import type { LogLevel } from '@/stores/logger'
-import { env } from '@/config'
+import { useChannel } from '@/stores/channel'
 import { useLogger } from '@/stores/logger'
 import { Command } from '@/types/commands'
 import { fetchWithAuth } from '@/utils/api'
@@ -20,8 +37,30 @@ import { SettingsSchema } from '@/utils/schemas'
 /**
  * Settings for commands.
  */
-export interface CommandSettings extends Omit<SharedCommandSettings, 'allowed'> {
+export interface CommandSettings
+  extends Omit<
+    SharedCommandSettings,
+    'allowed' | 'known' | 'permissions' | 'aliases' | 'cooldowns'
+  > {
   allowed: Command[]
+  known: Command[]
+  permissions: Partial<Record<Command, CommandRole[]>>
+  aliases: Record<string, Command>
+  cooldowns: Partial<Record<Command, CommandCooldown>>
+}
+
+/**
+ * Roles allowed to run a command (falls back to the default for unset commands)
+ */
+export function getCommandRoles(settings: CommandSettings, command: Command): CommandRole[] {
+  return settings.permissions[command] ?? DEFAULT_COMMAND_PERMISSIONS[command]
+}
+
+/**
+ * Cooldowns for a command (no cooldown when unset)
+ */
+export function getCommandCooldown(settings: CommandSettings, command: Command): CommandCooldown {
+  return settings.cooldowns[command] ?? { global: 0, user: 0 }
 }
 
 /**
@@ -41,16 +80,38 @@ export interface LoggerSettings extends Omit<SharedLoggerSettings, 'level'> {
 
 export const DEFAULT_COMMAND_SETTINGS: CommandSettings = {
   prefix: '!cq',
-  allowed: Object.values(Command)
+  allowed: Object.values(Command),
+  known: Object.values(Command),
+  permissions: DEFAULT_COMMAND_PERMISSIONS,
+  aliases: {},
+  cooldowns: DEFAULT_COMMAND_COOLDOWNS,
+  replies: DEFAULT_CHAT_REPLIES
 }
 
 export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
   hasAutoModerationEnabled: true,
   limit: null,
+  maxPerSubmitter: null,
+  hasSubmitterLimitExemption: true,
   providers: [...PROVIDERS],
+  ordering: 'popularity',
   sora: {
     allowedCameos: []
-  }
+  },
+  channelPoints: DEFAULT_CHANNEL_POINTS_SETTINGS,
+  rateLimits: DEFAULT_RATE_LIMIT_SETTINGS,
+  filters: DEFAULT_CONTENT_FILTERS,
+  titleFilters: [],
+  durationLimits: {},
+  maxPlaySeconds: null,
+  maxClipAgeDays: null,
+  minViewCount: null,
+  allowedLanguages: [],
+  replayCooldown: DEFAULT_REPLAY_COOLDOWN,
+  namedQueues: [],
+  schedule: DEFAULT_QUEUE_SCHEDULE,
+  autoClose: DEFAULT_AUTO_CLOSE,
+  streamEvents: DEFAULT_STREAM_EVENT_SETTINGS
 }
 
 export const DEFAULT_LOGGER_SETTINGS: LoggerSettings = {
@@ -58,19 +119,34 @@ export const DEFAULT_LOGGER_SETTINGS: LoggerSettings = {
   limit: 100
 }
 
-const { API_URL } = env
-
 export const useSettings = defineStore('settings', () => {
   const commands = ref<CommandSettings>({
     ...DEFAULT_COMMAND_SETTINGS,
-    allowed: [...DEFAULT_COMMAND_SETTINGS.allowed]
+    allowed: [...DEFAULT_COMMAND_SETTINGS.allowed],
+    known: [...DEFAULT_COMMAND_SETTINGS.known],
+    permissions: structuredClone(DEFAULT_COMMAND_SETTINGS.permissions),
+    aliases: { ...DEFAULT_COMMAND_SETTINGS.aliases },
+    cooldowns: structuredClone(DEFAULT_COMMAND_SETTINGS.cooldowns),
+    replies: structuredClone(DEFAULT_COMMAND_SETTINGS.replies)
   })
   const queue = ref<QueueSettings>({
     ...DEFAULT_QUEUE_SETTINGS,
-    providers: [...DEFAULT_QUEUE_SETTINGS.providers]
+    providers: [...DEFAULT_QUEUE_SETTINGS.providers],
+    channelPoints: { ...DEFAULT_QUEUE_SETTINGS.channelPoints },
+    rateLimits: structuredClone(DEFAULT_QUEUE_SETTINGS.rateLimits),
+    filters: structuredClone(DEFAULT_QUEUE_SETTINGS.filters),
+    titleFilters: structuredClone(DEFAULT_QUEUE_SETTINGS.titleFilters),
+    durationLimits: structuredClone(DEFAULT_QUEUE_SETTINGS.durationLimits),
+    allowedLanguages: [...DEFAULT_QUEUE_SETTINGS.allowedLanguages],
+    replayCooldown: { ...DEFAULT_QUEUE_SETTINGS.replayCooldown },
+    namedQueues: structuredClone(DEFAULT_QUEUE_SETTINGS.namedQueues),
+    schedule: structuredClone(DEFAULT_QUEUE_SETTINGS.schedule),
+    autoClose: { ...DEFAULT_QUEUE_SETTINGS.autoClose },
+    streamEvents: { ...DEFAULT_QUEUE_SETTINGS.streamEvents }
   })
   const logger = ref<LoggerSettings>({ ...DEFAULT_LOGGER_SETTINGS })
   const log = useLogger()
+  const channel = useChannel()
   const isInitialized = ref<boolean>(false)
 
   const isCommandsSettingsModified = computed(() => {
@@ -79,6 +155,28 @@ export const useSettings = defineStore('settings', () => {
         commands.value.prefix !== c.prefix ||
         Object.values(Command).some(
           (cmd) => commands.value.allowed.includes(cmd) !== c.allowed.includes(cmd)
+        ) ||
+        Object.values(Command).some((cmd) => {
+          const currentRoles = getCommandRoles(commands.value, cmd)
+          const newRoles = getCommandRoles(c, cmd)
+          return COMMAND_ROLES.some(
+            (role) => currentRoles.includes(role) !== newRoles.includes(role)
+          )
+        }) ||
+        Object.values(Command).some((cmd) => {
+          const currentCooldown = getCommandCooldown(commands.value, cmd)
+          const newCooldown = getCommandCooldown(c, cmd)
+          return (
+            currentCooldown.global !== newCooldown.global ||
+            currentCooldown.user !== newCooldown.user
+          )
+        }) ||
+        Object.keys(commands.value.aliases).length !== Object.keys(c.aliases).length ||
+        Object.entries(commands.value.aliases).some(([alias, cmd]) => c.aliases[alias] !== cmd) ||
+        SUBMISSION_OUTCOMES.some(
+          (outcome) =>
+            commands.value.replies[outcome].enabled !== c.replies[outcome].enabled ||
+            commands.value.replies[outcome].template !== c.replies[outcome].template
         )
       )
     }
@@ -89,7 +187,22 @@ export const useSettings = defineStore('settings', () => {
       // Check basic settings
       if (
         queue.value.hasAutoModerationEnabled !== q.hasAutoModerationEnabled ||
-        queue.value.limit !== q.limit
+        queue.value.limit !== q.limit ||
+        queue.value.maxPerSubmitter !== q.maxPerSubmitter ||
+        queue.value.hasSubmitterLimitExemption !== q.hasSubmitterLimitExemption ||
+        queue.value.ordering !== q.ordering ||
+        queue.value.maxPlaySeconds !== q.maxPlaySeconds ||
+        queue.value.maxClipAgeDays !== q.maxClipAgeDays ||
+        queue.value.minViewCount !== q.minViewCount ||
+        queue.value.allowedLanguages.join(',') !== q.allowedLanguages.join(',') ||
+        queue.value.replayCooldown.mode !== q.replayCooldown.mode ||
+        queue.value.replayCooldown.length !== q.replayCooldown.length ||
+        queue.value.replayCooldown.action !== q.replayCooldown.action ||
+        queue.value.autoClose.enabled !== q.autoClose.enabled ||
+        queue.value.autoClose.reopenBelow !== q.autoClose.reopenBelow ||
+        queue.value.streamEvents.openOnOnline !== q.streamEvents.openOnOnline ||
+        queue.value.streamEvents.closeOnOffline !== q.streamEvents.closeOnOffline ||
+        queue.value.streamEvents.clearOnOffline !== q.streamEvents.clearOnOffline
       ) {
         return true
       }
@@ -106,6 +219,41 @@ export const useSettings = defineStore('settings', () => {
         return true
       }
 
+      // Check channel point settings
+      const currentChannelPoints = queue.value.channelPoints
+      if (
+        currentChannelPoints.enabled !== q.channelPoints.enabled ||
+        currentChannelPoints.rewardId !== q.channelPoints.rewardId ||
+        currentChannelPoints.autoApprove !== q.channelPoints.autoApprove ||
+        currentChannelPoints.priority !== q.channelPoints.priority ||
+        currentChannelPoints.refundOnReject !== q.channelPoints.refundOnReject
+      ) {
+        return true
+      }
+
+      // Check rate limit settings
+      const currentRateLimits = queue.value.rateLimits
+      if (
+        currentRateLimits.userSeconds !== q.rateLimits.userSeconds ||
+        currentRateLimits.duplicateUrlSeconds !== q.rateLimits.duplicateUrlSeconds ||
+        RateLimitRoleSchema.options.some(
+          (role) => currentRateLimits.roleOverrides[role] !== q.rateLimits.roleOverrides[role]
+        )
+      ) {
+        return true
+      }
+
+      // Check content, title and duration filters, named queues and the schedule
+      if (
+        JSON.stringify(queue.value.filters) !== JSON.stringify(q.filters) ||
+        JSON.stringify(queue.value.titleFilters) !== JSON.stringify(q.titleFilters) ||
+        JSON.stringify(queue.value.durationLimits) !== JSON.stringify(q.durationLimits) ||
+        JSON.stringify(queue.value.namedQueues) !== JSON.stringify(q.namedQueues) ||
+        JSON.stringify(queue.value.schedule) !== JSON.stringify(q.schedule)
+      ) {
+        return true
+      }
+
       return false
     }
   })
@@ -127,14 +275,30 @@ export const useSettings = defineStore('settings', () => {
   function $reset(): void {
     commands.value = {
       ...DEFAULT_COMMAND_SETTINGS,
-      allowed: [...DEFAULT_COMMAND_SETTINGS.allowed]
+      allowed: [...DEFAULT_COMMAND_SETTINGS.allowed],
+      known: [...DEFAULT_COMMAND_SETTINGS.known],
+      permissions: structuredClone(DEFAULT_COMMAND_SETTINGS.permissions),
+      aliases: { ...DEFAULT_COMMAND_SETTINGS.aliases },
+      cooldowns: structuredClone(DEFAULT_COMMAND_SETTINGS.cooldowns),
+      replies: structuredClone(DEFAULT_COMMAND_SETTINGS.replies)
     }
     queue.value = {
       ...DEFAULT_QUEUE_SETTINGS,
       providers: [...DEFAULT_QUEUE_SETTINGS.providers],
       sora: {
         allowedCameos: [...DEFAULT_QUEUE_SETTINGS.sora.allowedCameos]
-      }
+      },
+      channelPoints: { ...DEFAULT_QUEUE_SETTINGS.channelPoints },
+      rateLimits: structuredClone(DEFAULT_QUEUE_SETTINGS.rateLimits),
+      filters: structuredClone(DEFAULT_QUEUE_SETTINGS.filters),
+      titleFilters: structuredClone(DEFAULT_QUEUE_SETTINGS.titleFilters),
+      durationLimits: structuredClone(DEFAULT_QUEUE_SETTINGS.durationLimits),
+      allowedLanguages: [...DEFAULT_QUEUE_SETTINGS.allowedLanguages],
+      replayCooldown: { ...DEFAULT_QUEUE_SETTINGS.replayCooldown },
+      namedQueues: structuredClone(DEFAULT_QUEUE_SETTINGS.namedQueues),
+      schedule: structuredClone(DEFAULT_QUEUE_SETTINGS.schedule),
+      autoClose: { ...DEFAULT_QUEUE_SETTINGS.autoClose },
+      streamEvents: { ...DEFAULT_QUEUE_SETTINGS.streamEvents }
     }
     logger.value = { ...DEFAULT_LOGGER_SETTINGS }
   }
@@ -145,7 +309,7 @@ export const useSettings = defineStore('settings', () => {
    */
   async function loadSettings(): Promise<void> {
     try {
-      const response = await fetchWithAuth(`${API_URL}/api/settings`)
+      const response = await fetchWithAuth(`${channel.apiUrl}/settings`)
       if (!response.ok) {
         throw new Error(`Failed to load settings: ${response.statusText}`)
       }
@@ -176,7 +340,7 @@ export const useSettings = defineStore('settings', () => {
    */
   async function saveSettings(): Promise<void> {
     try {
-      const response = await fetchWithAuth(`${API_URL}/api/settings`, {
+      const response = await fetchWithAuth(`${channel.apiUrl}/settings`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -7,12 +7,14 @@ import twitch from '@cq/services/twitch'
 import { env } from '@/config'
 import { clearAuthEvents, emitAuthEvent } from '@/utils/events'
 import { UserRoleSchema } from '@/utils/schemas'
+import { useChannel } from './channel'
 import { useLogger } from './logger'
 
 const { API_URL } = env
 
 export const useUser = defineStore('user', () => {
   const logger = useLogger()
+  const channel = useChannel()
   const router = useRouter()
 
   const isLoggedIn = ref<boolean>(false)
@@ -44,12 +46,12 @@ export const useUser = defineStore('user', () => {
 
   /**
    * Fetch user role information from backend
-   * (broadcaster/moderator status for the configured channel)
+   * (broadcaster/moderator status for the current channel)
    * Backend reads token from httpOnly cookie automatically
    */
   async function fetchUserRole(): Promise<void> {
     try {
-      const response = await fetch(`${API_URL}/api/auth/me`, {
+      const response = await fetch(`${channel.apiUrl}/auth/me`, {
         credentials: 'include' // Send cookies
       })
 
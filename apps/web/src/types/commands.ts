@@ -2,6 +2,7 @@
  * Re-export Command enum from shared constants
  *
  * Commands are executed by the backend server. This enum is used in the frontend
- * settings UI to allow users to configure which commands are enabled.
+ * settings UI to allow users to configure which commands are enabled. Viewer commands
+ * can be run by anyone in chat.
  */
-export { Command } from '@cq/constants/commands'
+export { Command, isViewerCommand } from '@cq/constants/commands'
@@ -22,3 +22,10 @@ export const ApiErrorSchema = z.object({
 })
 
 export type ApiError = z.infer<typeof ApiErrorSchema>
+
+/**
+ * Schema for the hosted channel list (GET /api/channels)
+ */
+export const ChannelsSchema = z.object({
+  channels: z.array(z.string())
+})
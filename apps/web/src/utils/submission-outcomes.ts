@@ -0,0 +1,78 @@
+import type { SubmissionOutcome } from '@cq/schemas/settings'
+import type { SubmissionAttemptOutcome, SubmissionSource } from '@cq/schemas/submissions'
+
+import * as m from '@/paraglide/messages'
+
+/**
+ * Short label for a clip submission outcome (shown for chat replies and rejected clips)
+ */
+export function getSubmissionOutcomeLabel(outcome: SubmissionOutcome): string {
+  switch (outcome) {
+    case 'added':
+      return m.reply_added()
+    case 'pending':
+      return m.reply_pending()
+    case 'queueClosed':
+      return m.reply_queue_closed()
+    case 'queueFull':
+      return m.reply_queue_full()
+    case 'providerDisabled':
+      return m.reply_provider_disabled()
+    case 'rateLimited':
+      return m.reply_rate_limited()
+    case 'cameoNotAllowed':
+      return m.reply_cameo_not_allowed()
+    case 'submitterLimit':
+      return m.reply_submitter_limit()
+    case 'submitterBlocked':
+      return m.reply_submitter_blocked()
+    case 'contentBlocked':
+      return m.reply_content_blocked()
+    case 'titleBlocked':
+      return m.reply_title_blocked()
+    case 'tooShort':
+      return m.reply_too_short()
+    case 'tooLong':
+      return m.reply_too_long()
+    case 'tooOld':
+      return m.reply_too_old()
+    case 'tooFewViews':
+      return m.reply_too_few_views()
+    case 'languageNotAllowed':
+      return m.reply_language_not_allowed()
+    case 'recentlyPlayed':
+      return m.reply_recently_played()
+  }
+}
+
+/**
+ * Short label for a submission attempt outcome, including failures without a chat reply
+ */
+export function getSubmissionAttemptOutcomeLabel(outcome: SubmissionAttemptOutcome): string {
+  switch (outcome) {
+    case 'duplicateUrl':
+      return m.submission_duplicate_url()
+    case 'invalidUrl':
+      return m.submission_invalid_url()
+    case 'fetchFailed':
+      return m.submission_fetch_failed()
+    case 'error':
+      return m.submission_error()
+    default:
+      return getSubmissionOutcomeLabel(outcome)
+  }
+}
+
+/**
+ * Label for where a submission came from
+ */
+export function getSubmissionSourceLabel(source: SubmissionSource): string {
+  switch (source) {
+    case 'chat':
+      return m.submission_source_chat()
+    case 'redemption':
+      return m.submission_source_redemption()
+    case 'api':
+      return m.submission_source_api()
+  }
+}
@@ -8,16 +8,46 @@ export enum Command {
   CLEAR = 'clear',
   SET_LIMIT = 'setlimit',
   REMOVE_LIMIT = 'removelimit',
+  SET_USER_LIMIT = 'setuserlimit',
   PREV = 'prev',
   NEXT = 'next',
+  UNDO = 'undo',
   REMOVE_BY_SUBMITTER = 'removebysubmitter',
+  BAN = 'ban',
+  UNBAN = 'unban',
   REMOVE_BY_PLATFORM = 'removebyplatform',
   ENABLE_PLATFORM = 'enableplatform',
   DISABLE_PLATFORM = 'disableplatform',
   ENABLE_AUTOMOD = 'enableautomod',
   DISABLE_AUTOMOD = 'disableautomod',
   PURGE_CACHE = 'purgecache',
-  PURGE_HISTORY = 'purgehistory'
+  PURGE_HISTORY = 'purgehistory',
+  SESSION = 'session',
+  POSITION = 'position',
+  CURRENT = 'current',
+  SIZE = 'size',
+  MINE = 'mine',
+  ETA = 'eta'
 }
 
 export type CommandValue = `${Command}`
+
+/**
+ * Read-only commands anyone in chat can run (answered with a chat reply)
+ */
+export const VIEWER_COMMANDS = [
+  Command.POSITION,
+  Command.CURRENT,
+  Command.SIZE,
+  Command.MINE,
+  Command.ETA
+] as const
+
+export type ViewerCommand = (typeof VIEWER_COMMANDS)[number]
+
+/**
+ * Check whether a command is available to viewers
+ */
+export function isViewerCommand(command: string): command is ViewerCommand {
+  return (VIEWER_COMMANDS as readonly string[]).includes(command)
+}
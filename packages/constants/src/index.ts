@@ -3,5 +3,11 @@
  * Centralized constants for commands and platforms
  */
 
-export { Command, type CommandValue } from './commands.js'
+export {
+  Command,
+  VIEWER_COMMANDS,
+  isViewerCommand,
+  type CommandValue,
+  type ViewerCommand
+} from './commands.js'
 export { Platform, type PlatformValue } from './platforms.js'
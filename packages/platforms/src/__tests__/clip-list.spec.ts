@@ -2,6 +2,7 @@ import { beforeEach, describe, expect, it } from 'vitest'
 
 import { ClipList } from '../clip-list'
 import { Platform } from '../types'
+import { toClipUUID } from '../utils'
 import { clipFromKick, clipFromTwitch } from './mocks'
 
 describe('clip-list.ts', () => {
@@ -295,6 +296,54 @@ describe('clip-list.ts', () => {
     expect(clipList2.toArray()[0]?.submitters?.length).toEqual(1)
   })
 
+  it('sorts priority clips ahead of clips with more submitters', () => {
+    const clipList2 = new ClipList()
+    clipList2.add({ ...clipFromTwitch, id: 'test', submitters: ['a'] })
+    clipList2.add({ ...clipFromTwitch, id: 'test', submitters: ['b'] })
+    clipList2.add({ ...clipFromTwitch, id: 'test2', submitters: ['c'], priority: true })
+    clipList2.add({ ...clipFromTwitch, id: 'test3', submitters: ['d'] })
+    clipList2.add({ ...clipFromTwitch, id: 'test3', submitters: ['e'], priority: true })
+    const clipListArray2 = clipList2.toArray()
+    expect(clipListArray2.map((c) => c.id)).toEqual(['test3', 'test2', 'test'])
+  })
+
+  it('keeps submission order when switching to fifo', () => {
+    const clipList2 = new ClipList()
+    clipList2.add({ ...clipFromTwitch, id: 'test', submitters: ['a'] })
+    clipList2.add({ ...clipFromTwitch, id: 'test2', submitters: ['b'] })
+    clipList2.add({ ...clipFromTwitch, id: 'test2', submitters: ['c'] })
+    expect(clipList2.toArray().map((c) => c.id)).toEqual(['test2', 'test'])
+
+    clipList2.setOrdering('fifo')
+    expect(clipList2.ordering).toEqual('fifo')
+    expect(clipList2.toArray().map((c) => c.id)).toEqual(['test', 'test2'])
+
+    // Clips put back at the front stay there
+    clipList2.unshift({ ...clipFromTwitch, id: 'test3', submitters: ['d'] })
+    clipList2.add({ ...clipFromTwitch, id: 'test4', submitters: ['e'] })
+    expect(clipList2.toArray().map((c) => c.id)).toEqual(['test3', 'test', 'test2', 'test4'])
+  })
+
+  it('plays pinned clips first in their manual order', () => {
+    const clipList2 = new ClipList()
+    clipList2.add({ ...clipFromTwitch, id: 'test', submitters: ['a'], priority: true })
+    clipList2.add({ ...clipFromTwitch, id: 'test2', submitters: ['b'] })
+    clipList2.add({ ...clipFromTwitch, id: 'test3', submitters: ['c'] })
+    const uuid = (id: string) => toClipUUID({ ...clipFromTwitch, id })
+
+    clipList2.pin({ ...clipFromTwitch, id: 'test3' })
+    clipList2.pin({ ...clipFromTwitch, id: 'test2' })
+    expect(clipList2.toArray().map((c) => c.id)).toEqual(['test2', 'test3', 'test'])
+
+    clipList2.reorder([uuid('test3'), uuid('test2')])
+    clipList2.add({ ...clipFromTwitch, id: 'test4', submitters: ['d'], priority: true })
+    expect(clipList2.toArray().map((c) => c.id)).toEqual(['test3', 'test2', 'test', 'test4'])
+
+    clipList2.unpin({ ...clipFromTwitch, id: 'test3' })
+    expect(clipList2.toArray().map((c) => c.id)).toEqual(['test2', 'test', 'test4', 'test3'])
+    expect(clipList2.shift()?.position).toBeUndefined()
+  })
+
   it('adds multiple clips with the same id if they are from different providers', () => {
     const clipList2 = new ClipList()
     clipList2.add({ ...clipFromTwitch, id: 'test', submitters: ['s'] })
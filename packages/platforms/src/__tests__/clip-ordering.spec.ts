@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Clip } from '../types'
+import { orderClips } from '../clip-ordering'
+import { clipFromTwitch } from './mocks'
+
+function clip(id: string, submitters: string[], extra: Partial<Clip> = {}): Clip {
+  return { ...clipFromTwitch, id, submitters, ...extra }
+}
+
+const ids = (clips: Clip[]) => clips.map((c) => c.id)
+
+describe('clip-ordering.ts', () => {
+  // Sequence = position in this array (submission order)
+  const clips = [
+    clip('a1', ['alice']),
+    clip('a2', ['alice']),
+    clip('b1', ['bob', 'carol']),
+    clip('a3', ['alice']),
+    clip('c1', ['carol'])
+  ]
+  const sequenceOf = (c: Clip) => clips.findIndex((other) => other.id === c.id)
+
+  it('orders by number of submitters for popularity', () => {
+    const shuffled = [clips[4]!, clips[0]!, clips[2]!, clips[1]!, clips[3]!]
+    expect(ids(orderClips(shuffled, 'popularity', sequenceOf))).toEqual([
+      'b1',
+      'c1',
+      'a1',
+      'a2',
+      'a3'
+    ])
+  })
+
+  it('breaks popularity ties by oldest submission', () => {
+    const shuffled = [clips[4]!, clips[0]!, clips[2]!, clips[1]!, clips[3]!]
+    expect(ids(orderClips(shuffled, 'popularityOldestFirst', sequenceOf))).toEqual([
+      'b1',
+      'a1',
+      'a2',
+      'a3',
+      'c1'
+    ])
+  })
+
+  it('orders by submission for fifo', () => {
+    expect(ids(orderClips([...clips].reverse(), 'fifo', sequenceOf))).toEqual([
+      'a1',
+      'a2',
+      'b1',
+      'a3',
+      'c1'
+    ])
+  })
+
+  it('takes one clip per submitter in turn for round-robin', () => {
+    expect(ids(orderClips(clips, 'roundRobin', sequenceOf))).toEqual(['a1', 'b1', 'c1', 'a2', 'a3'])
+  })
+
+  it('is idempotent for round-robin', () => {
+    const once = orderClips(clips, 'roundRobin', sequenceOf)
+    const twice = orderClips(once, 'roundRobin', (c) => once.indexOf(c))
+    expect(ids(twice)).toEqual(ids(once))
+  })
+
+  it('orders weighted random the same way regardless of input order', () => {
+    const ordered = ids(orderClips(clips, 'weightedRandom', sequenceOf))
+    expect(ids(orderClips([...clips].reverse(), 'weightedRandom', sequenceOf))).toEqual(ordered)
+    expect([...ordered].sort()).toEqual(['a1', 'a2', 'a3', 'b1', 'c1'])
+  })
+
+  it('puts priority clips first for every strategy', () => {
+    const withPriority = [...clips, clip('d1', ['dave'], { priority: true })]
+    const sequence = (c: Clip) => withPriority.indexOf(c)
+    for (const ordering of ['popularity', 'fifo', 'roundRobin', 'weightedRandom'] as const) {
+      expect(orderClips(withPriority, ordering, sequence)[0]?.id).toEqual('d1')
+    }
+  })
+
+  it('puts pinned clips first in their manual order', () => {
+    const withPins = [
+      ...clips,
+      clip('d1', ['dave'], { priority: true }),
+      clip('e1', ['erin'], { position: 1 }),
+      clip('f1', ['frank'], { position: 0 })
+    ]
+    const sequence = (c: Clip) => withPins.indexOf(c)
+    expect(ids(orderClips(withPins, 'popularity', sequence).slice(0, 3))).toEqual([
+      'f1',
+      'e1',
+      'd1'
+    ])
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest'
+
+import type { TitleFilterRule } from '@cq/schemas/settings'
+
+import { matchTitleFilter, toTitleFilterRegExp } from '../title-filters'
+
+function rule(pattern: string, extra: Partial<TitleFilterRule> = {}): TitleFilterRule {
+  return {
+    pattern,
+    isRegex: false,
+    isCaseSensitive: false,
+    isWholeWord: false,
+    action: 'reject',
+    ...extra
+  }
+}
+
+describe('title-filters.ts', () => {
+  it('matches plain text case-insensitively by default', () => {
+    expect(matchTitleFilter('A BadWord appears', [rule('badword')])).not.toBeNull()
+    expect(
+      matchTitleFilter('A BadWord appears', [rule('badword', { isCaseSensitive: true })])
+    ).toBe(null)
+  })
+
+  it('escapes plain text patterns', () => {
+    expect(matchTitleFilter('costs $5 (wow)', [rule('$5 (wow)')])).not.toBeNull()
+    expect(matchTitleFilter('costs 5', [rule('.5')])).toBeNull()
+  })
+
+  it('only matches whole words when enabled', () => {
+    const wholeWord = rule('ass', { isWholeWord: true })
+
+    expect(matchTitleFilter('what a class act', [wholeWord])).toBeNull()
+    expect(matchTitleFilter('what an ass', [wholeWord])).not.toBeNull()
+    expect(matchTitleFilter('what a class act', [rule('ass')])).not.toBeNull()
+  })
+
+  it('matches regular expressions', () => {
+    const regex = rule('fr[e3]{2}\\s*v-?bucks', { isRegex: true })
+
+    expect(matchTitleFilter('FREE vbucks here', [regex])).not.toBeNull()
+    expect(matchTitleFilter('fr33 v-bucks', [regex])).not.toBeNull()
+    expect(matchTitleFilter('free stuff', [regex])).toBeNull()
+  })
+
+  it('ignores invalid regular expressions', () => {
+    expect(toTitleFilterRegExp(rule('(unclosed', { isRegex: true }))).toBeNull()
+    expect(matchTitleFilter('(unclosed', [rule('(unclosed', { isRegex: true })])).toBeNull()
+  })
+
+  it('prefers reject rules over pending rules', () => {
+    const rules = [rule('spoiler', { action: 'pending' }), rule('slur', { action: 'reject' })]
+
+    expect(matchTitleFilter('spoiler slur', rules)?.action).toBe('reject')
+    expect(matchTitleFilter('spoiler', rules)?.action).toBe('pending')
+  })
+})
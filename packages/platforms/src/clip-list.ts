@@ -1,4 +1,7 @@
+import type { ClipOrdering } from '@cq/schemas/settings'
+
 import type { Clip, Platform } from './types'
+import { orderClips } from './clip-ordering'
 import { toClipUUID } from './utils'
 
 /**
@@ -54,6 +57,14 @@ export class PlayHistory {
     }
   }
 
+  /**
+   * Remove a play log entry from the history
+   * @param id - ID of the entry to remove
+   */
+  public remove(id: number): void {
+    this._entries = this._entries.filter((entry) => entry.id !== id)
+  }
+
   /**
    * Get the most recent play log entry
    * @returns The most recent entry or undefined if history is empty
@@ -130,6 +141,10 @@ export class BasicClipList {
           c.submitters = [...submitters, submitter]
           this._clips[index] = c
         }
+        // Priority sticks once any submission asks for it
+        if (clip.priority && c !== undefined) {
+          c.priority = true
+        }
       } else {
         // Normalize submitters to lowercase on initial add
         const normalizedClip = {
@@ -220,20 +235,96 @@ export class BasicClipList {
 }
 
 /**
- * A list of clips. Clips are sorted by the number of submitters.
+ * A list of clips. Pinned clips come first in their manual order, then priority clips,
+ * then clips are ordered by the ordering strategy (by the number of submitters unless changed).
  */
 export class ClipList extends BasicClipList {
+  private _ordering: ClipOrdering = 'popularity'
+  // Clip UUID -> when the clip was first added (lower = earlier)
+  private _sequences = new Map<string, number>()
+  private _firstSequence = 0
+  private _lastSequence = 0
+
+  constructor(...clips: Clip[]) {
+    super()
+    this.add(...clips)
+  }
+
+  /**
+   * Get the ordering strategy.
+   * @returns The ordering strategy.
+   */
+  public get ordering(): ClipOrdering {
+    return this._ordering
+  }
+
+  /**
+   * Change the ordering strategy and reorder the clips.
+   * @param ordering - The ordering strategy.
+   */
+  public setOrdering(ordering: ClipOrdering): void {
+    this._ordering = ordering
+    this.sort()
+  }
+
   /**
    * Add clips to the list.
    * @param clips - The clips to add.
    * @returns The clips.
    */
   public override add(...clips: Clip[]): Clip[] {
+    clips.forEach((clip) => {
+      const uuid = toClipUUID(clip)
+      if (!this._sequences.has(uuid)) {
+        this._sequences.set(uuid, ++this._lastSequence)
+      }
+    })
     super.add(...clips)
     this.sort()
     return this._clips
   }
 
+  /**
+   * Add a clip to the front of the list. It counts as the oldest clip.
+   * @param clip - The clip to add.
+   * @returns The new length of the list.
+   */
+  public override unshift(clip: Clip): number {
+    this._sequences.set(toClipUUID(clip), --this._firstSequence)
+    return super.unshift(clip)
+  }
+
+  /**
+   * Get the first clip in the list. It is no longer pinned.
+   * @returns The first clip.
+   */
+  public override shift(): Clip | undefined {
+    const clip = super.shift()
+    if (clip) {
+      this._sequences.delete(toClipUUID(clip))
+      delete clip.position
+    }
+    return clip
+  }
+
+  /**
+   * Get the last clip in the list.
+   * @returns The last clip.
+   */
+  public override pop(): Clip | undefined {
+    const clip = super.pop()
+    if (clip) this._sequences.delete(toClipUUID(clip))
+    return clip
+  }
+
+  /**
+   * Clear the list.
+   */
+  public override clear(): void {
+    super.clear()
+    this._sequences.clear()
+  }
+
   /**
    * Remove submitters from a clip. If the clip has no other submitters it will be
    * removed completely.
@@ -252,6 +343,7 @@ export class ClipList extends BasicClipList {
     } else {
       // No submitter provided, remove the entire clip
       this._clips.splice(index, 1)
+      this._sequences.delete(toClipUUID(clip))
     }
     this.sort()
   }
@@ -272,7 +364,60 @@ export class ClipList extends BasicClipList {
    * @param platform - The platform to remove.
    */
   public removeByPlatform(platform: Platform): void {
-    this._clips = this._clips.filter((c) => c.platform.toLowerCase() !== platform.toLowerCase())
+    this._clips = this._clips.filter((c) => {
+      const isRemoved = c.platform.toLowerCase() === platform.toLowerCase()
+      if (isRemoved) this._sequences.delete(toClipUUID(c))
+      return !isRemoved
+    })
+  }
+
+  /**
+   * Pin a clip so it plays before unpinned clips.
+   * @param clip - The clip to pin.
+   * @param index - Place among the pinned clips (default: 0, plays next).
+   */
+  public pin(clip: Clip, index: number = 0): void {
+    if (!this.includes(clip)) return
+    const pinned = this.pinnedIds(clip)
+    pinned.splice(index, 0, toClipUUID(clip))
+    this.reorder(pinned)
+  }
+
+  /**
+   * Unpin a clip so the ordering strategy places it again.
+   * @param clip - The clip to unpin.
+   */
+  public unpin(clip: Clip): void {
+    this.reorder(this.pinnedIds(clip))
+  }
+
+  /**
+   * Pin clips in the given order and unpin all others.
+   * @param clipIds - UUIDs of the clips to pin, in play order. Unknown UUIDs are ignored.
+   */
+  public reorder(clipIds: string[]): void {
+    const positions = new Map(clipIds.map((id, index) => [id, index]))
+    for (const c of this._clips) {
+      const index = positions.get(toClipUUID(c))
+      if (index === undefined) {
+        delete c.position
+      } else {
+        c.position = index
+      }
+    }
+    this.sort()
+  }
+
+  /**
+   * UUIDs of the pinned clips in play order.
+   * @param except - A clip to leave out.
+   */
+  private pinnedIds(except?: Clip): string[] {
+    const exceptId = except && toClipUUID(except)
+    return this._clips
+      .filter((c) => c.position !== undefined)
+      .map((c) => toClipUUID(c))
+      .filter((id) => id !== exceptId)
   }
 
   /**
@@ -286,6 +431,7 @@ export class ClipList extends BasicClipList {
       if (c.submitters.length === 1) {
         // Remove the clip from the list
         this._clips.splice(index, 1)
+        this._sequences.delete(toClipUUID(c))
       } else if (c.submitters.length > 1) {
         // Remove only the submitter
         const submitters = c.submitters.filter((s) => !(s === submitter))
@@ -296,11 +442,15 @@ export class ClipList extends BasicClipList {
   }
 
   /**
-   * Sort the clips by the number of submitters.
+   * Sort the clips by pin, then priority, then the ordering strategy.
    */
   private sort(): void {
-    this._clips = this._clips.sort((a, b) => {
-      return b.submitters.length - a.submitters.length
-    })
+    // Also guards against sorting during super() before fields are initialized
+    if (this._clips.length < 2) return
+    this._clips = orderClips(
+      this._clips,
+      this._ordering,
+      (clip) => this._sequences.get(toClipUUID(clip)) ?? 0
+    )
   }
 }
@@ -0,0 +1,104 @@
+import type { ClipOrdering } from '@cq/schemas/settings'
+
+import type { Clip } from './types'
+import { toClipUUID } from './utils'
+
+/**
+ * Order clips with a queue ordering strategy. Pinned clips always come first in
+ * their manual order, then priority clips.
+ * @param clips - The clips to order.
+ * @param ordering - The ordering strategy.
+ * @param sequenceOf - When a clip was first added (lower = earlier).
+ * @returns The ordered clips (a new array).
+ */
+export function orderClips(
+  clips: Clip[],
+  ordering: ClipOrdering,
+  sequenceOf: (clip: Clip) => number
+): Clip[] {
+  const pinned = clips
+    .filter((c) => c.position !== undefined)
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0) || sequenceOf(a) - sequenceOf(b))
+  const unpinned = clips.filter((c) => c.position === undefined)
+  const priority = unpinned.filter((c) => c.priority)
+  const regular = unpinned.filter((c) => !c.priority)
+  return [
+    ...pinned,
+    ...orderByStrategy(priority, ordering, sequenceOf),
+    ...orderByStrategy(regular, ordering, sequenceOf)
+  ]
+}
+
+function orderByStrategy(
+  clips: Clip[],
+  ordering: ClipOrdering,
+  sequenceOf: (clip: Clip) => number
+): Clip[] {
+  const bySequence = (a: Clip, b: Clip) => sequenceOf(a) - sequenceOf(b)
+  const bySubmitters = (a: Clip, b: Clip) => b.submitters.length - a.submitters.length
+
+  switch (ordering) {
+    case 'popularity':
+      return [...clips].sort(bySubmitters)
+    case 'popularityOldestFirst':
+      return [...clips].sort((a, b) => bySubmitters(a, b) || bySequence(a, b))
+    case 'fifo':
+      return [...clips].sort(bySequence)
+    case 'roundRobin':
+      return roundRobin([...clips].sort(bySequence))
+    case 'weightedRandom':
+      return [...clips].sort((a, b) => randomKey(b) - randomKey(a) || bySequence(a, b))
+  }
+}
+
+/**
+ * Take one clip per submitter in turn, submitters in order of their oldest clip.
+ * Clips are grouped by their first submitter.
+ * @param clips - Clips in submission order.
+ */
+function roundRobin(clips: Clip[]): Clip[] {
+  const groups = new Map<string, Clip[]>()
+  for (const clip of clips) {
+    const submitter = clip.submitters[0]?.toLowerCase() ?? ''
+    const group = groups.get(submitter)
+    if (group) {
+      group.push(clip)
+    } else {
+      groups.set(submitter, [clip])
+    }
+  }
+
+  const ordered: Clip[] = []
+  const queues = [...groups.values()]
+  for (let round = 0; ordered.length < clips.length; round++) {
+    for (const queue of queues) {
+      const clip = queue[round]
+      if (clip) ordered.push(clip)
+    }
+  }
+  return ordered
+}
+
+/**
+ * Weighted random sort key (Efraimidis-Spirakis), higher plays sooner.
+ * Derived from the clip UUID instead of Math.random so the order is the same on
+ * every client and after restarts.
+ * @param clip - The clip.
+ */
+function randomKey(clip: Clip): number {
+  const weight = Math.max(clip.submitters.length, 1)
+  return Math.pow(hashToUnit(toClipUUID(clip)), 1 / weight)
+}
+
+/**
+ * Hash a string to a number in (0, 1) using 32-bit FNV-1a.
+ * @param value - The string to hash.
+ */
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return ((hash >>> 0) + 0.5) / 0x100000000
+}
@@ -6,9 +6,11 @@ import { TwitchPlatform } from './twitch'
 import { Platform } from './types'
 
 export * from './clip-list'
+export * from './clip-ordering'
 export * from './kick'
 export * from './sora'
 export * from './streamable'
+export * from './title-filters'
 export * from './twitch'
 export * from './types'
 export * from './utils'
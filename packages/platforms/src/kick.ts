@@ -31,6 +31,7 @@ export class KickPlatform extends BasePlatform {
         creator: clip.creator.username,
         category: clip.category.name,
         createdAt: clip.created_at,
+        viewCount: clip.view_count,
         url,
         embedUrl: clip.clip_url,
         videoUrl: clip.video_url,
@@ -0,0 +1,32 @@
+import type { TitleFilterRule } from '@cq/schemas/settings'
+
+// Letters, numbers and underscores count as part of a word (Unicode aware)
+const WORD_START = '(?<![\\p{L}\\p{N}_])'
+const WORD_END = '(?![\\p{L}\\p{N}_])'
+
+/**
+ * Build the regular expression for a title filter rule.
+ * @param rule - The rule.
+ * @returns The expression, or null if the rule's regex is invalid.
+ */
+export function toTitleFilterRegExp(rule: TitleFilterRule): RegExp | null {
+  const source = rule.isRegex ? rule.pattern : rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const bounded = rule.isWholeWord ? `${WORD_START}(?:${source})${WORD_END}` : source
+  try {
+    return new RegExp(bounded, rule.isCaseSensitive ? 'u' : 'iu')
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Find the title filter rule a clip title matches.
+ * Reject rules win over pending rules so one match can't soften another.
+ * @param title - The clip title.
+ * @param rules - The title filter rules.
+ * @returns The matching rule, or null if the title is allowed.
+ */
+export function matchTitleFilter(title: string, rules: TitleFilterRule[]): TitleFilterRule | null {
+  const matches = rules.filter((rule) => toTitleFilterRegExp(rule)?.test(title))
+  return matches.find((rule) => rule.action === 'reject') ?? matches[0] ?? null
+}
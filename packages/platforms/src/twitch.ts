@@ -67,6 +67,8 @@ export class TwitchPlatform extends BasePlatform {
         creator: clip.creator_name,
         category: games[0]?.name,
         createdAt: clip.created_at,
+        viewCount: clip.view_count,
+        language: clip.language,
         url,
         embedUrl: clip.embed_url,
         videoUrl: undefined, // Fetched client-side to avoid backend URL expiration handling
@@ -114,6 +116,8 @@ export class TwitchPlatform extends BasePlatform {
         creator: video.user_name,
         category: undefined, // Videos don't have direct category mapping
         createdAt: video.created_at,
+        viewCount: video.view_count,
+        language: video.language,
         url,
         embedUrl: `https://player.twitch.tv/?video=${id}&parent=localhost`,
         videoUrl, // Direct HLS URL for direct playback
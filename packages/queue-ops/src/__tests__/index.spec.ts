@@ -5,14 +5,15 @@ import { Platform } from '@cq/constants'
 import { ClipList, PlayHistory } from '@cq/platforms'
 import { ContentType } from '@cq/schemas/clip'
 
-import type { DatabaseOperations, QueueState } from '../index'
+import type { DatabaseOperations, QueueState, UndoDatabaseOperations } from '../index'
 import {
   advanceQueue,
   clearHistory,
   clearQueue,
   jumpToHistoryClip,
   playClip,
-  previousClip
+  previousClip,
+  undoOperation
 } from '../index'
 
 // Helper to create mock clip
@@ -494,4 +495,64 @@ describe('queue-ops', () => {
       expect(state.queue.toArray()).toHaveLength(0) // Nothing to preserve
     })
   })
+
+  describe('undoOperation', () => {
+    let undoDb: UndoDatabaseOperations
+
+    beforeEach(() => {
+      undoDb = {
+        updateClipStatus: vi.fn(),
+        restoreClip: vi.fn(),
+        deletePlayLog: vi.fn()
+      }
+    })
+
+    it('puts cleared clips back in order', async () => {
+      const clip1 = createMockClip('clip1', 'First Clip')
+      const clip2 = createMockClip('clip2', 'Second Clip')
+      state.queue.setOrdering('fifo')
+      state.queue.add(clip1, clip2)
+
+      const rollback = await clearQueue(state, mockDb)
+      state.queue.add(createMockClip('clip3', 'Submitted After Clear'))
+      await undoOperation(state, undoDb, rollback, toClipUUID)
+
+      expect(state.queue.toArray().map((c) => c.id)).toEqual(['clip1', 'clip2', 'clip3'])
+      expect(undoDb.restoreClip).toHaveBeenCalledTimes(2)
+    })
+
+    it('goes back to the clip that was playing before advancing', async () => {
+      const clip1 = createMockClip('clip1', 'First Clip')
+      const clip2 = createMockClip('clip2', 'Second Clip')
+      state.current = clip1
+      state.queue.add(clip2)
+
+      const rollback = await advanceQueue(state, mockDb, toClipUUID)
+      await undoOperation(state, undoDb, rollback!, toClipUUID)
+
+      expect(state.current).toEqual(clip1)
+      expect(state.queue.toArray()).toEqual([clip2])
+      expect(state.playHistory.size()).toBe(0)
+      expect(undoDb.deletePlayLog).toHaveBeenCalledWith(1)
+      expect(undoDb.updateClipStatus).toHaveBeenCalledWith(toClipUUID(clip1), 'approved')
+    })
+
+    it('refuses to undo advancing once another clip plays', async () => {
+      const clip1 = createMockClip('clip1', 'First Clip')
+      state.current = clip1
+      state.queue.add(createMockClip('clip2', 'Second Clip'))
+
+      const rollback = await advanceQueue(state, mockDb, toClipUUID)
+      state.current = createMockClip('clip3', 'Played From History')
+
+      await expect(undoOperation(state, undoDb, rollback!, toClipUUID)).rejects.toThrow()
+      expect(undoDb.deletePlayLog).not.toHaveBeenCalled()
+    })
+
+    it('sets rejected clips back to pending', async () => {
+      await undoOperation(state, undoDb, { rejectedClipIds: ['twitch:clip:a'] }, toClipUUID)
+
+      expect(undoDb.updateClipStatus).toHaveBeenCalledWith('twitch:clip:a', 'pending')
+    })
+  })
 })
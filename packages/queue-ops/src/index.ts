@@ -27,10 +27,35 @@ export interface DatabaseOperations {
   deletePlayLogsByClipStatus: (status: 'played') => void | Promise<void>
 }
 
+/**
+ * Database operations needed to undo queue operations
+ */
+export interface UndoDatabaseOperations {
+  updateClipStatus: DatabaseOperations['updateClipStatus']
+  /** Make a clip approved again, inserting it if it was deleted */
+  restoreClip: (clip: Clip) => void | Promise<void>
+  deletePlayLog: (playLogId: number) => void | Promise<void>
+}
+
+/**
+ * What an operation changed, enough to undo it
+ */
 export interface RollbackData {
-  previousCurrent: Clip | null
+  /** Current clip before the operation (only set if the operation moved on to another clip) */
+  previousCurrent?: Clip | null
+  /** Clips the operation took out of the queue, as they were */
   previousQueue?: Clip[]
-  previousHistory?: Clip[]
+  /** Play log entry the operation added */
+  playLogId?: number
+  /** Pending clips the operation rejected */
+  rejectedClipIds?: string[]
+}
+
+/**
+ * Copy a clip so later changes to the queue don't affect it (e.g. removed submitters)
+ */
+export function snapshotClip(clip: Clip): Clip {
+  return { ...clip, submitters: [...clip.submitters] }
 }
 
 /**
@@ -44,7 +69,7 @@ export async function advanceQueue(
   state: QueueState,
   db: DatabaseOperations,
   toClipUUID: (clip: Clip) => string
-): Promise<void> {
+): Promise<RollbackData | null> {
   // Check if we're navigating through history
   if (state.historyPosition >= 0) {
     // Move forward in history timeline
@@ -54,7 +79,7 @@ export async function advanceQueue(
       // Still more history ahead - just move pointer
       state.historyPosition++
       state.current = historyEntries[state.historyPosition]!.clip
-      return
+      return null
     } else {
       // Reached end of history - try to switch to queue mode
       const nextClip = state.queue.shift()
@@ -64,7 +89,7 @@ export async function advanceQueue(
         state.current = nextClip
       }
       // else: queue is empty, stay on current history clip (don't change state)
-      return
+      return null
     }
   }
 
@@ -73,6 +98,8 @@ export async function advanceQueue(
   let playLogId: number | null = null
   let nextClip: Clip | undefined
   let queueModified = false
+  const next = state.queue.toArray()[0]
+  const previousQueue = next ? [snapshotClip(next)] : []
 
   try {
     // Log current clip play to database and add to history
@@ -99,6 +126,9 @@ export async function advanceQueue(
     queueModified = true
     state.current = nextClip ?? null
     state.historyPosition = -1 // Stay in queue mode
+
+    if (!previousCurrent && !nextClip) return null
+    return { previousCurrent, previousQueue, ...(playLogId !== null && { playLogId }) }
   } catch (error) {
     // Rollback in-memory changes on database failure
     // Note: Database rollback happens via transaction in db layer
@@ -144,12 +174,14 @@ export async function previousClip(state: QueueState): Promise<void> {
  * Clear the queue
  * Removes all approved clips from queue and database
  */
-export async function clearQueue(state: QueueState, db: DatabaseOperations): Promise<void> {
+export async function clearQueue(state: QueueState, db: DatabaseOperations): Promise<RollbackData> {
   const previousQueue = state.queue.toArray()
 
   try {
+    const rollback = { previousQueue: previousQueue.map(snapshotClip) }
     state.queue.clear()
     await db.deleteClipsByStatus('approved')
+    return rollback
   } catch (error) {
     // Rollback in-memory changes on database failure
     previousQueue.forEach((clip: Clip) => state.queue.add(clip))
@@ -262,3 +294,64 @@ export async function jumpToHistoryClip(
   state.historyPosition = index
   state.current = historyEntries[index]!.clip
 }
+
+/**
+ * Check that an operation can still be undone
+ * Undoing a move to another clip needs that clip to still be playing from the queue
+ */
+export function canUndo(
+  state: QueueState,
+  rollback: RollbackData,
+  toClipUUID: (clip: Clip) => string
+): boolean {
+  if (rollback.previousCurrent === undefined) return true
+  if (state.historyPosition !== -1) return false
+  if (!state.current) return true
+
+  const currentId = toClipUUID(state.current)
+  return (rollback.previousQueue ?? []).some((clip) => toClipUUID(clip) === currentId)
+}
+
+/**
+ * Undo a queue operation
+ * Clips go back in the queue as the oldest clips, the previous current clip plays again
+ * and the play log entry the operation added is deleted
+ */
+export async function undoOperation(
+  state: QueueState,
+  db: UndoDatabaseOperations,
+  rollback: RollbackData,
+  toClipUUID: (clip: Clip) => string
+): Promise<void> {
+  if (!canUndo(state, rollback, toClipUUID)) {
+    throw new Error('Current clip changed since the operation')
+  }
+
+  if (rollback.playLogId !== undefined) {
+    await db.deletePlayLog(rollback.playLogId)
+    state.playHistory.remove(rollback.playLogId)
+  }
+
+  if (rollback.previousCurrent !== undefined) {
+    if (rollback.previousCurrent) {
+      await db.updateClipStatus(toClipUUID(rollback.previousCurrent), 'approved')
+    }
+    state.current = rollback.previousCurrent
+  }
+
+  // Unshift in reverse so the clips keep their order, then let the ordering place them
+  const previousQueue = rollback.previousQueue ?? []
+  for (const clip of [...previousQueue].reverse()) {
+    await db.restoreClip(clip)
+    // Without submitters the whole clip is removed, not just its first submitter
+    state.queue.remove({ ...clip, submitters: [] })
+    state.queue.unshift(clip)
+  }
+  if (previousQueue.length > 0) {
+    state.queue.setOrdering(state.queue.ordering)
+  }
+
+  for (const clipId of rollback.rejectedClipIds ?? []) {
+    await db.updateClipStatus(clipId, 'pending')
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Audit Log Schemas
+ * Record of moderator actions from the web app and chat commands
+ */
+import { z } from 'zod'
+
+import type { CommandName } from './settings.js'
+import { COMMAND_NAMES } from './settings.js'
+
+/**
+ * Actions only available from the web app (chat commands are logged by command name)
+ */
+export const WEB_AUDIT_ACTIONS = [
+  'submit',
+  'remove',
+  'approve',
+  'reject',
+  'restore',
+  'play',
+  'replay',
+  'move',
+  'setactivequeue',
+  'pin',
+  'unpin',
+  'reorder',
+  'deletehistory',
+  'updatesettings'
+] as const
+
+export type WebAuditAction = (typeof WEB_AUDIT_ACTIONS)[number]
+
+export const AUDIT_ACTIONS = [...COMMAND_NAMES, ...WEB_AUDIT_ACTIONS] as const
+
+export type AuditAction = CommandName | WebAuditAction
+
+/**
+ * Where an action was taken
+ */
+export const AUDIT_SOURCES = ['web', 'chat'] as const
+
+export type AuditSource = (typeof AUDIT_SOURCES)[number]
+
+/**
+ * A single changed setting, addressed by its dotted path (e.g. "queue.limit")
+ */
+export interface SettingsChange {
+  path: string
+  from: unknown
+  to: unknown
+}
+
+/**
+ * Audit Log Entry
+ * Response entry from /api/c/:channel/audit
+ */
+export interface AuditLogEntry {
+  id: number
+  /** Username of the moderator or broadcaster */
+  actor: string
+  source: AuditSource
+  action: AuditAction
+  /** UUIDs of the clips the action affected */
+  clipIds: string[]
+  /** Settings changed by the action */
+  changes: SettingsChange[]
+  /** Chat command arguments or other context */
+  details: string | null
+  createdAt: string
+}
+
+/**
+ * Audit Log Query Schema
+ * Filters and cursor pagination for /api/c/:channel/audit
+ */
+export const AuditLogQuerySchema = z.object({
+  actor: z.string().trim().min(1).max(100).optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  cursor: z.string().max(100).optional(), // base64-encoded entry ID
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+})
+
+export type AuditLogQuery = z.infer<typeof AuditLogQuerySchema>
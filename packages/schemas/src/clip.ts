@@ -110,6 +110,14 @@ export interface Clip {
    * The created at time of the clip.
    */
   createdAt?: string
+  /**
+   * The number of views when the clip was fetched.
+   */
+  viewCount?: number
+  /**
+   * The language of the stream (Twitch only, e.g. "en", or "other").
+   */
+  language?: string
   /**
    * Duration in seconds (for VODs and highlights).
    */
@@ -122,6 +130,14 @@ export interface Clip {
    * Cameo usernames (Sora only, lowercase for case-insensitive matching).
    */
   cameos?: string[]
+  /**
+   * Whether the clip plays ahead of regular submissions (e.g. redeemed with channel points).
+   */
+  priority?: boolean
+  /**
+   * Manual place among pinned clips (lower plays sooner). Pinned clips play before all others.
+   */
+  position?: number
 }
 
 /**
@@ -141,7 +157,11 @@ export const ClipSchema = z.object({
   submitters: z.array(z.string()).default([]),
   category: z.string().optional(),
   createdAt: z.string().optional(),
+  viewCount: z.number().int().nonnegative().optional(),
+  language: z.string().optional(),
   duration: z.number().int().positive().optional(),
   timestamp: z.number().int().nonnegative().optional(),
-  cameos: z.array(z.string()).optional()
+  cameos: z.array(z.string()).optional(),
+  priority: z.boolean().optional(),
+  position: z.number().int().nonnegative().optional()
 })
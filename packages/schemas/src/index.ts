@@ -10,13 +10,69 @@ export {
   LoggerSettingsSchema,
   AppSettingsSchema,
   SoraSettingsSchema,
+  ChannelPointsSettingsSchema,
+  RateLimitSettingsSchema,
+  RateLimitRoleSchema,
+  ContentFiltersSchema,
+  FilterListSchema,
+  TitleFilterRuleSchema,
+  FILTER_ACTIONS,
+  DurationLimitSchema,
+  NamedQueueSchema,
+  MAIN_QUEUE_ID,
+  MAX_NAMED_QUEUES,
+  ReplayCooldownSchema,
+  REPLAY_COOLDOWN_MODES,
+  REPLAY_SESSION_GAP_HOURS,
+  ChatReplySchema,
+  ChatRepliesSchema,
+  ClipOrderingSchema,
+  CLIP_ORDERINGS,
+  CommandNameSchema,
+  CommandRoleSchema,
+  CommandPermissionsSchema,
+  CommandCooldownSchema,
+  CommandCooldownsSchema,
+  CommandAliasesSchema,
+  COMMAND_NAMES,
+  LEGACY_COMMAND_NAMES,
+  COMMAND_ROLES,
+  DEFAULT_COMMAND_PERMISSIONS,
+  DEFAULT_COMMAND_COOLDOWNS,
+  DEFAULT_CHANNEL_POINTS_SETTINGS,
+  DEFAULT_RATE_LIMIT_SETTINGS,
+  DEFAULT_CONTENT_FILTERS,
+  DEFAULT_REPLAY_COOLDOWN,
   PROVIDERS,
   ProviderSchema,
+  SUBMISSION_OUTCOMES,
+  DEFAULT_CHAT_REPLIES,
   type CommandSettings,
   type QueueSettings,
   type LoggerSettings,
   type AppSettings,
   type SoraSettings,
+  type ChannelPointsSettings,
+  type RateLimitSettings,
+  type RateLimitRole,
+  type ContentFilters,
+  type FilterList,
+  type TitleFilterRule,
+  type FilterAction,
+  type DurationLimit,
+  type NamedQueue,
+  type ReplayCooldown,
+  type ReplayCooldownMode,
+  type ChatReply,
+  type ChatReplies,
+  type ClipOrdering,
+  type CommandName,
+  type CommandRole,
+  type CommandPermissions,
+  type CommandCooldown,
+  type CommandCooldowns,
+  type CommandAliases,
+  type SubmissionOutcome,
   type Provider
 } from './settings.js'
 
@@ -37,3 +93,42 @@ export {
 
 // Clip
 export { Platform, ClipSchema, type Clip } from './clip.js'
+
+// Submissions
+export {
+  SUBMISSION_FAILURES,
+  SUBMISSION_ATTEMPT_OUTCOMES,
+  SUBMISSION_SOURCES,
+  SubmissionAttemptsQuerySchema,
+  type SubmissionFailure,
+  type SubmissionAttemptOutcome,
+  type SubmissionSource,
+  type SubmissionAttempt,
+  type SubmissionAttemptsQuery
+} from './submissions.js'
+
+// Sessions
+export {
+  SESSION_SOURCES,
+  SessionsQuerySchema,
+  type SessionSource,
+  type Session,
+  type SessionsQuery
+} from './sessions.js'
+
+// Stats
+export { StatsQuerySchema, type StatsCount, type QueueStats, type StatsQuery } from './stats.js'
+
+// Audit
+export {
+  AUDIT_ACTIONS,
+  AUDIT_SOURCES,
+  WEB_AUDIT_ACTIONS,
+  AuditLogQuerySchema,
+  type AuditAction,
+  type AuditSource,
+  type WebAuditAction,
+  type SettingsChange,
+  type AuditLogEntry,
+  type AuditLogQuery
+} from './audit.js'
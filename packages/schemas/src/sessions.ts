@@ -0,0 +1,37 @@
+/**
+ * Session Schemas
+ * Streams (or manually started stretches) that plays are grouped by in the history
+ */
+import { z } from 'zod'
+
+/**
+ * How a session was started
+ */
+export const SESSION_SOURCES = ['stream', 'manual'] as const
+
+export type SessionSource = (typeof SESSION_SOURCES)[number]
+
+/**
+ * Session
+ * Response entry from /api/c/:channel/sessions
+ */
+export interface Session {
+  id: number
+  source: SessionSource
+  startedAt: string
+  /** When the session ended (null while it is running) */
+  endedAt: string | null
+  /** Number of plays during the session */
+  playCount: number
+}
+
+/**
+ * Sessions Query Schema
+ * Cursor pagination for /api/c/:channel/sessions
+ */
+export const SessionsQuerySchema = z.object({
+  cursor: z.string().max(100).optional(), // base64-encoded session ID
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+})
+
+export type SessionsQuery = z.infer<typeof SessionsQuerySchema>
@@ -4,31 +4,249 @@
  */
 import { z } from 'zod'
 
+/**
+ * Clip submission outcomes the bot can reply to in chat
+ */
+export const SUBMISSION_OUTCOMES = [
+  'added',
+  'pending',
+  'queueClosed',
+  'queueFull',
+  'providerDisabled',
+  'rateLimited',
+  'cameoNotAllowed',
+  'submitterLimit',
+  'submitterBlocked',
+  'contentBlocked',
+  'titleBlocked',
+  'tooShort',
+  'tooLong',
+  'tooOld',
+  'tooFewViews',
+  'languageNotAllowed',
+  'recentlyPlayed'
+] as const
+
+export type SubmissionOutcome = (typeof SUBMISSION_OUTCOMES)[number]
+
+/**
+ * Chat Reply Schema
+ * Template sent as a threaded reply to the submitting message.
+ * Placeholders: {user}, {title}, {provider}, {limit}, {seconds}, {filter}
+ */
+export const ChatReplySchema = z.object({
+  enabled: z.boolean(),
+  template: z.string().min(1).max(500) // Twitch chat message limit
+})
+
+export type ChatReply = z.infer<typeof ChatReplySchema>
+
+export const DEFAULT_CHAT_REPLIES: Record<SubmissionOutcome, ChatReply> = {
+  added: { enabled: false, template: '{title} was added to the queue' },
+  pending: { enabled: false, template: '{title} is waiting for moderator approval' },
+  queueClosed: { enabled: true, template: 'The queue is closed right now' },
+  queueFull: { enabled: true, template: 'The queue is full ({limit} clips), try again later' },
+  providerDisabled: { enabled: true, template: '{provider} links are not accepted right now' },
+  rateLimited: { enabled: true, template: 'Slow down! Wait {seconds}s before submitting again' },
+  cameoNotAllowed: { enabled: true, template: 'Sora cameos in that clip are not allowed' },
+  submitterLimit: { enabled: true, template: 'You already have {limit} clips in the queue' },
+  submitterBlocked: { enabled: false, template: 'You are not allowed to submit clips' },
+  contentBlocked: { enabled: true, template: 'Clips from that {filter} are not allowed' },
+  titleBlocked: { enabled: true, template: 'That clip title is not allowed' },
+  tooShort: { enabled: true, template: 'That clip is too short (minimum {limit}s)' },
+  tooLong: { enabled: true, template: 'That clip is too long (maximum {limit}s)' },
+  tooOld: { enabled: true, template: 'Only clips from the last {limit} days are accepted' },
+  tooFewViews: { enabled: true, template: 'Only clips with at least {limit} views are accepted' },
+  languageNotAllowed: { enabled: true, template: 'Clips in that language are not accepted' },
+  recentlyPlayed: { enabled: true, template: '{title} was played recently' }
+}
+
+/**
+ * Chat Replies Schema
+ * One reply per submission outcome (enabled flag + template)
+ * Outcomes added later default so existing settings stay valid
+ */
+export const ChatRepliesSchema = z.object({
+  added: ChatReplySchema,
+  pending: ChatReplySchema,
+  queueClosed: ChatReplySchema,
+  queueFull: ChatReplySchema,
+  providerDisabled: ChatReplySchema,
+  rateLimited: ChatReplySchema,
+  cameoNotAllowed: ChatReplySchema,
+  submitterLimit: ChatReplySchema.default(DEFAULT_CHAT_REPLIES.submitterLimit),
+  submitterBlocked: ChatReplySchema.default(DEFAULT_CHAT_REPLIES.submitterBlocked),
+  contentBlocked: ChatReplySchema.default(DEFAULT_CHAT_REPLIES.contentBlocked),
+  titleBlocked: ChatReplySchema.default(DEFAULT_CHAT_REPLIES.titleBlocked),
+  tooShort: ChatReplySchema.default(DEFAULT_CHAT_REPLIES.tooShort),
+  tooLong: ChatReplySchema.default(DEFAULT_CHAT_REPLIES.tooLong),
+  tooOld: ChatReplySchema.default(DEFAULT_CHAT_REPLIES.tooOld),
+  tooFewViews: ChatReplySchema.default(DEFAULT_CHAT_REPLIES.tooFewViews),
+  languageNotAllowed: ChatReplySchema.default(DEFAULT_CHAT_REPLIES.languageNotAllowed),
+  recentlyPlayed: ChatReplySchema.default(DEFAULT_CHAT_REPLIES.recentlyPlayed)
+})
+
+export type ChatReplies = z.infer<typeof ChatRepliesSchema>
+
+/**
+ * Chat command names (mirrors the Command enum in @cq/constants)
+ */
+export const COMMAND_NAMES = [
+  'open',
+  'close',
+  'clear',
+  'setlimit',
+  'removelimit',
+  'setuserlimit',
+  'prev',
+  'next',
+  'undo',
+  'removebysubmitter',
+  'ban',
+  'unban',
+  'removebyplatform',
+  'enableplatform',
+  'disableplatform',
+  'enableautomod',
+  'disableautomod',
+  'purgecache',
+  'purgehistory',
+  'session',
+  'position',
+  'current',
+  'size',
+  'mine',
+  'eta'
+] as const
+
+export type CommandName = (typeof COMMAND_NAMES)[number]
+
+export const CommandNameSchema = z.enum(COMMAND_NAMES)
+
+/**
+ * Commands that existed before settings recorded the commands they know about
+ * Settings saved without `known` were chosen from these
+ */
+export const LEGACY_COMMAND_NAMES = [
+  'open',
+  'close',
+  'clear',
+  'setlimit',
+  'removelimit',
+  'prev',
+  'next',
+  'removebysubmitter',
+  'removebyplatform',
+  'enableplatform',
+  'disableplatform',
+  'enableautomod',
+  'disableautomod',
+  'purgecache',
+  'purgehistory'
+] as const satisfies ReadonlyArray<CommandName>
+
+/**
+ * Chat roles a command can be granted to
+ * `everyone` includes viewers without any badge
+ */
+export const COMMAND_ROLES = ['broadcaster', 'moderator', 'vip', 'subscriber', 'everyone'] as const
+
+export type CommandRole = (typeof COMMAND_ROLES)[number]
+
+export const CommandRoleSchema = z.enum(COMMAND_ROLES)
+
+// Read-only commands answered in chat, open to everyone by default
+const VIEWER_COMMAND_NAMES: readonly CommandName[] = ['position', 'current', 'size', 'mine', 'eta']
+
+/**
+ * Default roles per command: viewer commands for everyone, the rest for mods and the broadcaster
+ */
+export const DEFAULT_COMMAND_PERMISSIONS = Object.fromEntries(
+  COMMAND_NAMES.map((name) => [
+    name,
+    VIEWER_COMMAND_NAMES.includes(name) ? ['everyone'] : ['broadcaster', 'moderator']
+  ])
+) as Record<CommandName, CommandRole[]>
+
+/**
+ * Command Permissions Schema
+ * Roles allowed to run each command (missing commands use DEFAULT_COMMAND_PERMISSIONS)
+ */
+export const CommandPermissionsSchema = z.partialRecord(
+  CommandNameSchema,
+  z.array(CommandRoleSchema)
+)
+
+export type CommandPermissions = z.infer<typeof CommandPermissionsSchema>
+
+/**
+ * Command Cooldown Schema
+ * Seconds before a command can run again (0 = no cooldown)
+ */
+export const CommandCooldownSchema = z.object({
+  /** Applies to everyone after anyone runs the command */
+  global: z.number().int().min(0).max(3600),
+  /** Applies to the user who ran the command */
+  user: z.number().int().min(0).max(3600)
+})
+
+export type CommandCooldown = z.infer<typeof CommandCooldownSchema>
+
+/**
+ * Default cooldowns: queue navigation guards against double-advancing,
+ * viewer commands guard against chat floods
+ */
+export const DEFAULT_COMMAND_COOLDOWNS: Partial<Record<CommandName, CommandCooldown>> = {
+  next: { global: 3, user: 0 },
+  prev: { global: 3, user: 0 },
+  position: { global: 0, user: 15 },
+  mine: { global: 0, user: 15 },
+  eta: { global: 0, user: 15 },
+  current: { global: 15, user: 0 },
+  size: { global: 15, user: 0 }
+}
+
+/**
+ * Command Cooldowns Schema
+ * Cooldown per command (missing commands have no cooldown)
+ */
+export const CommandCooldownsSchema = z.partialRecord(CommandNameSchema, CommandCooldownSchema)
+
+export type CommandCooldowns = z.infer<typeof CommandCooldownsSchema>
+
+/**
+ * Command Aliases Schema
+ * Maps an alternate name typed in chat (lowercase, no spaces) to a command
+ */
+export const CommandAliasesSchema = z.record(
+  z
+    .string()
+    .min(1)
+    .max(25)
+    .regex(/^[^\sA-Z]+$/, 'Aliases must be lowercase without spaces'),
+  CommandNameSchema
+)
+
+export type CommandAliases = z.infer<typeof CommandAliasesSchema>
+
 /**
  * Command Settings Schema
- * Controls chat command prefix and allowed commands
+ * Controls chat command prefix, allowed commands, role permissions, aliases, cooldowns,
+ * and bot replies
  */
 export const CommandSettingsSchema = z.object({
   prefix: z.string().min(1),
-  allowed: z.array(
-    z.enum([
-      'open',
-      'close',
-      'clear',
-      'setlimit',
-      'removelimit',
-      'prev',
-      'next',
-      'removebysubmitter',
-      'removebyplatform',
-      'enableplatform',
-      'disableplatform',
-      'enableautomod',
-      'disableautomod',
-      'purgecache',
-      'purgehistory'
-    ])
-  )
+  allowed: z.array(CommandNameSchema),
+  /** Commands that existed when the settings were saved (newer ones get allowed on load) */
+  known: z.array(CommandNameSchema).default([...LEGACY_COMMAND_NAMES]),
+  /** Roles allowed to run each command */
+  permissions: CommandPermissionsSchema.default(DEFAULT_COMMAND_PERMISSIONS),
+  /** User-defined alternate command names (e.g. skip -> next) */
+  aliases: CommandAliasesSchema.default({}),
+  /** Global and per-user cooldowns per command */
+  cooldowns: CommandCooldownsSchema.default(DEFAULT_COMMAND_COOLDOWNS),
+  /** Bot replies to clip submissions (threaded on the original chat message) */
+  replies: ChatRepliesSchema.default(DEFAULT_CHAT_REPLIES)
 })
 
 export type CommandSettings = z.infer<typeof CommandSettingsSchema>
@@ -55,6 +273,26 @@ export type Provider = (typeof PROVIDERS)[number]
 
 export const ProviderSchema = z.enum(PROVIDERS)
 
+/**
+ * Queue ordering strategies:
+ * - popularity = most submitters first (ties keep their current position)
+ * - popularityOldestFirst = most submitters first, oldest submission first among ties
+ * - fifo = first submitted, first played
+ * - roundRobin = one clip per submitter in turn
+ * - weightedRandom = shuffled, clips with more submitters tend to play sooner
+ */
+export const CLIP_ORDERINGS = [
+  'popularity',
+  'popularityOldestFirst',
+  'fifo',
+  'roundRobin',
+  'weightedRandom'
+] as const
+
+export type ClipOrdering = (typeof CLIP_ORDERINGS)[number]
+
+export const ClipOrderingSchema = z.enum(CLIP_ORDERINGS)
+
 /**
  * Sora-specific Settings Schema
  * Controls Sora cameo content filtering
@@ -70,6 +308,305 @@ export const SoraSettingsSchema = z.object({
 
 export type SoraSettings = z.infer<typeof SoraSettingsSchema>
 
+/**
+ * Channel Points Settings Schema
+ * Lets viewers submit clips by redeeming a custom channel point reward
+ */
+export const ChannelPointsSettingsSchema = z.object({
+  /** Whether reward redemptions submit clips */
+  enabled: z.boolean().default(false),
+  /** Custom reward ID whose user input is the clip URL */
+  rewardId: z.string().max(64).default(''),
+  /** Skip moderation for redeemed clips */
+  autoApprove: z.boolean().default(true),
+  /** Move redeemed clips ahead of regular submissions */
+  priority: z.boolean().default(false),
+  /**
+   * Refund the points when the clip is rejected.
+   * Twitch only allows this for rewards created by the app's client ID.
+   */
+  refundOnReject: z.boolean().default(true)
+})
+
+export type ChannelPointsSettings = z.infer<typeof ChannelPointsSettingsSchema>
+
+export const DEFAULT_CHANNEL_POINTS_SETTINGS: ChannelPointsSettings = {
+  enabled: false,
+  rewardId: '',
+  autoApprove: true,
+  priority: false,
+  refundOnReject: true
+}
+
+/**
+ * Filter List Schema
+ * Case-insensitive names to accept or reject (stored lowercase)
+ */
+export const FilterListSchema = z.object({
+  /** Only these are accepted (empty = everything) */
+  allowed: z.array(z.string().min(1)).default([]),
+  /** These are always rejected, even if allowed */
+  blocked: z.array(z.string().min(1)).default([])
+})
+
+export type FilterList = z.infer<typeof FilterListSchema>
+
+const EMPTY_FILTER_LIST: FilterList = { allowed: [], blocked: [] }
+
+/**
+ * Content Filters Schema
+ * Allow/deny lists checked before a clip is queued.
+ * Clips without a category only fail the category blocklist, never its allowlist.
+ */
+export const ContentFiltersSchema = z.object({
+  /** Chat usernames submitting clips */
+  submitters: FilterListSchema.default(EMPTY_FILTER_LIST),
+  /** Channel the clip was taken from */
+  channels: FilterListSchema.default(EMPTY_FILTER_LIST),
+  /** User who made the clip */
+  creators: FilterListSchema.default(EMPTY_FILTER_LIST),
+  /** Game or category of the clip */
+  categories: FilterListSchema.default(EMPTY_FILTER_LIST)
+})
+
+export type ContentFilters = z.infer<typeof ContentFiltersSchema>
+
+export const DEFAULT_CONTENT_FILTERS: ContentFilters = {
+  submitters: { allowed: [], blocked: [] },
+  channels: { allowed: [], blocked: [] },
+  creators: { allowed: [], blocked: [] },
+  categories: { allowed: [], blocked: [] }
+}
+
+/**
+ * What happens to a clip caught by a title filter or the replay cooldown
+ * `reject` drops it, `pending` holds it for moderator approval
+ */
+export const FILTER_ACTIONS = ['reject', 'pending'] as const
+
+export type FilterAction = (typeof FILTER_ACTIONS)[number]
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Title Filter Rule Schema
+ * A banned word or regex pattern checked against clip titles
+ */
+export const TitleFilterRuleSchema = z
+  .object({
+    pattern: z.string().min(1).max(200),
+    /** Treat pattern as a regular expression instead of plain text */
+    isRegex: z.boolean().default(false),
+    isCaseSensitive: z.boolean().default(false),
+    /** Only match the pattern as a whole word */
+    isWholeWord: z.boolean().default(false),
+    action: z.enum(FILTER_ACTIONS).default('reject')
+  })
+  .refine((rule) => !rule.isRegex || isValidRegex(rule.pattern), {
+    message: 'Invalid regular expression',
+    path: ['pattern']
+  })
+
+export type TitleFilterRule = z.infer<typeof TitleFilterRuleSchema>
+
+/**
+ * How the replay cooldown window is measured
+ * Sessions are the recorded stream sessions, or split by gaps of REPLAY_SESSION_GAP_HOURS
+ * without any plays when none were recorded
+ */
+export const REPLAY_COOLDOWN_MODES = ['off', 'hours', 'sessions'] as const
+
+export type ReplayCooldownMode = (typeof REPLAY_COOLDOWN_MODES)[number]
+
+export const REPLAY_SESSION_GAP_HOURS = 4
+
+/**
+ * Replay Cooldown Schema
+ * Catches resubmissions of clips that were played recently
+ */
+export const ReplayCooldownSchema = z.object({
+  mode: z.enum(REPLAY_COOLDOWN_MODES).default('off'),
+  /** Window length in hours or sessions, depending on mode */
+  length: z.number().int().positive().max(8760).default(24),
+  action: z.enum(FILTER_ACTIONS).default('reject')
+})
+
+export type ReplayCooldown = z.infer<typeof ReplayCooldownSchema>
+
+export const DEFAULT_REPLAY_COOLDOWN: ReplayCooldown = {
+  mode: 'off',
+  length: 24,
+  action: 'reject'
+}
+
+/**
+ * The queue submissions, approvals and restores always go to
+ */
+export const MAIN_QUEUE_ID = 'main'
+
+export const MAX_NAMED_QUEUES = 5
+
+/**
+ * Named Queue Schema
+ * An extra queue next to the main one (e.g. "later", "mod picks").
+ * Clips only get in by being moved there by a moderator.
+ */
+export const NamedQueueSchema = z.object({
+  /** Lowercase slug used in routes */
+  id: z
+    .string()
+    .regex(/^[a-z0-9-]{1,20}$/, 'Use 1-20 lowercase letters, digits or dashes')
+    .refine((id) => id !== MAIN_QUEUE_ID, 'Reserved queue ID'),
+  name: z.string().trim().min(1).max(30),
+  /** Whether clips can be moved into the queue */
+  isOpen: z.boolean().default(true),
+  /** Most clips the queue holds (null = no limit) */
+  limit: z.number().int().positive().nullable().default(null)
+})
+
+export type NamedQueue = z.infer<typeof NamedQueueSchema>
+
+/**
+ * Duration Limit Schema
+ * Accepted clip length in seconds, measured from the clip's start timestamp
+ */
+export const DurationLimitSchema = z.object({
+  /** Shortest accepted clip (null = no minimum) */
+  min: z.number().int().positive().nullable().default(null),
+  /** Longest accepted clip (null = no maximum) */
+  max: z.number().int().positive().nullable().default(null)
+})
+
+export type DurationLimit = z.infer<typeof DurationLimitSchema>
+
+/**
+ * Chat roles that can have their own submission rate limit
+ */
+export const RateLimitRoleSchema = CommandRoleSchema.exclude(['everyone'])
+
+export type RateLimitRole = z.infer<typeof RateLimitRoleSchema>
+
+// Seconds, 0 = no limit
+const RateLimitWindowSchema = z.number().int().min(0).max(3600)
+
+/**
+ * Rate Limit Settings Schema
+ * Throttles clip submissions per user and per URL
+ */
+export const RateLimitSettingsSchema = z.object({
+  /** Seconds a user must wait between submissions */
+  userSeconds: RateLimitWindowSchema.default(10),
+  /** Seconds the same URL is ignored after it was submitted */
+  duplicateUrlSeconds: RateLimitWindowSchema.default(5),
+  /** Per-role replacements for userSeconds (the most lenient matching role wins) */
+  roleOverrides: z.partialRecord(RateLimitRoleSchema, RateLimitWindowSchema).default({})
+})
+
+export type RateLimitSettings = z.infer<typeof RateLimitSettingsSchema>
+
+export const DEFAULT_RATE_LIMIT_SETTINGS: RateLimitSettings = {
+  userSeconds: 10,
+  duplicateUrlSeconds: 5,
+  roleOverrides: {}
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// 24-hour HH:MM
+const TimeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM (24-hour)')
+
+export const MAX_SCHEDULE_WINDOWS = 20
+
+/**
+ * Schedule Window Schema
+ * A weekly time range the queue is open in, in the schedule's timezone.
+ * Windows that end before they start run past midnight into the next day.
+ */
+export const ScheduleWindowSchema = z
+  .object({
+    /** Days the window starts on, 0 = Sunday */
+    days: z.array(z.number().int().min(0).max(6)).min(1),
+    start: TimeOfDaySchema,
+    end: TimeOfDaySchema
+  })
+  .refine((window) => window.start !== window.end, {
+    message: 'Start and end must differ',
+    path: ['end']
+  })
+
+export type ScheduleWindow = z.infer<typeof ScheduleWindowSchema>
+
+/**
+ * Queue Schedule Schema
+ * Opens the queue when a window starts and closes it when the window ends.
+ * Opening or closing by hand in between holds until the next start or end.
+ */
+export const QueueScheduleSchema = z.object({
+  enabled: z.boolean().default(false),
+  /** IANA timezone of the windows (e.g. "Europe/Berlin") */
+  timezone: z.string().refine(isValidTimeZone, 'Unknown timezone').default('UTC'),
+  windows: z.array(ScheduleWindowSchema).max(MAX_SCHEDULE_WINDOWS).default([])
+})
+
+export type QueueSchedule = z.infer<typeof QueueScheduleSchema>
+
+export const DEFAULT_QUEUE_SCHEDULE: QueueSchedule = {
+  enabled: false,
+  timezone: 'UTC',
+  windows: []
+}
+
+/**
+ * Auto Close Schema
+ * Closes the queue when it reaches its limit and reopens it once it drains,
+ * with a gap between the two so it doesn't flap on every clip
+ */
+export const AutoCloseSchema = z.object({
+  enabled: z.boolean().default(false),
+  /** Reopen once fewer clips than this are waiting (null = below the limit) */
+  reopenBelow: z.number().int().positive().nullable().default(null)
+})
+
+export type AutoClose = z.infer<typeof AutoCloseSchema>
+
+export const DEFAULT_AUTO_CLOSE: AutoClose = {
+  enabled: false,
+  reopenBelow: null
+}
+
+/**
+ * Stream Event Settings Schema
+ * What happens to the queue when the stream goes live or offline
+ */
+export const StreamEventSettingsSchema = z.object({
+  openOnOnline: z.boolean().default(false),
+  closeOnOffline: z.boolean().default(false),
+  /** Clear the main queue when the stream goes offline */
+  clearOnOffline: z.boolean().default(false)
+})
+
+export type StreamEventSettings = z.infer<typeof StreamEventSettingsSchema>
+
+export const DEFAULT_STREAM_EVENT_SETTINGS: StreamEventSettings = {
+  openOnOnline: false,
+  closeOnOffline: false,
+  clearOnOffline: false
+}
+
 /**
  * Queue Settings Schema
  * Controls queue behavior and platform filtering
@@ -77,9 +614,50 @@ export type SoraSettings = z.infer<typeof SoraSettingsSchema>
 export const QueueSettingsSchema = z.object({
   hasAutoModerationEnabled: z.boolean(),
   limit: z.number().int().positive().nullable(),
+  /** Most clips one viewer can have in the queue at once (null = no limit) */
+  maxPerSubmitter: z.number().int().positive().nullable().default(null),
+  /** Whether the broadcaster, mods and VIPs ignore maxPerSubmitter */
+  hasSubmitterLimitExemption: z.boolean().default(true),
   providers: z.array(ProviderSchema).default([...PROVIDERS]),
+  /** How upcoming clips are ordered */
+  ordering: ClipOrderingSchema.default('popularity'),
   /** Sora-specific filtering settings (cameo username allowlist) */
-  sora: SoraSettingsSchema.default({ allowedCameos: [] })
+  sora: SoraSettingsSchema.default({ allowedCameos: [] }),
+  /** Channel point reward redemptions */
+  channelPoints: ChannelPointsSettingsSchema.default(DEFAULT_CHANNEL_POINTS_SETTINGS),
+  /** Submission rate limits */
+  rateLimits: RateLimitSettingsSchema.default(DEFAULT_RATE_LIMIT_SETTINGS),
+  /** Submitter, channel, creator and category allow/deny lists */
+  filters: ContentFiltersSchema.default(DEFAULT_CONTENT_FILTERS),
+  /** Banned words and patterns checked against clip titles */
+  titleFilters: z.array(TitleFilterRuleSchema).max(100).default([]),
+  /** Duration limits per provider (clips with unknown duration are accepted) */
+  durationLimits: z.partialRecord(ProviderSchema, DurationLimitSchema).default({}),
+  /** Seconds a clip plays before the player moves on (null = play to the end) */
+  maxPlaySeconds: z.number().int().positive().nullable().default(null),
+  /** Oldest accepted clip in days (null = any age, clips without a date are accepted) */
+  maxClipAgeDays: z.number().int().positive().nullable().default(null),
+  /** Fewest views a clip needs (null = any, clips without a view count are accepted) */
+  minViewCount: z.number().int().positive().nullable().default(null),
+  /** Accepted stream languages, lowercase (empty = any, clips without a language are accepted) */
+  allowedLanguages: z.array(z.string().min(1)).default([]),
+  /** Reject or hold resubmissions of recently played clips */
+  replayCooldown: ReplayCooldownSchema.default(DEFAULT_REPLAY_COOLDOWN),
+  /** Extra queues clips can be parked in, besides the main queue */
+  namedQueues: z
+    .array(NamedQueueSchema)
+    .max(MAX_NAMED_QUEUES)
+    .refine(
+      (queues) => new Set(queues.map((q) => q.id)).size === queues.length,
+      'Queue IDs must be unique'
+    )
+    .default([]),
+  /** Weekly windows the queue opens and closes on its own */
+  schedule: QueueScheduleSchema.default(DEFAULT_QUEUE_SCHEDULE),
+  /** Close the queue at its limit and reopen it when it drains */
+  autoClose: AutoCloseSchema.default(DEFAULT_AUTO_CLOSE),
+  /** Open, close or clear the queue when the stream goes live or offline */
+  streamEvents: StreamEventSettingsSchema.default(DEFAULT_STREAM_EVENT_SETTINGS)
 })
 
 export type QueueSettings = z.infer<typeof QueueSettingsSchema>
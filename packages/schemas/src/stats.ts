@@ -0,0 +1,62 @@
+/**
+ * Stats Schemas
+ * Queue analytics computed from clips, submitters and the play log
+ */
+import { z } from 'zod'
+
+/**
+ * Stats Query Schema
+ * Optional date range for /api/c/:channel/stats (both ends inclusive)
+ */
+export const StatsQuerySchema = z
+  .object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(50).default(10) // Entries per top list
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'from must not be after to',
+    path: ['from']
+  })
+
+export type StatsQuery = z.infer<typeof StatsQuerySchema>
+
+/**
+ * A name with how often it occurred (submitter, platform, category, ...)
+ */
+export interface StatsCount {
+  name: string
+  count: number
+}
+
+/**
+ * Queue Stats
+ * Response from /api/c/:channel/stats
+ */
+export interface QueueStats {
+  from: string | null
+  to: string | null
+  /** Clips submitted in the range, by current status */
+  clips: {
+    total: number
+    approved: number
+    pending: number
+    rejected: number
+    played: number
+  }
+  /** Share of moderated clips that were approved (null when none were moderated) */
+  approvalRate: number | null
+  /** Share of moderated clips that were rejected (null when none were moderated) */
+  rejectionRate: number | null
+  topSubmitters: StatsCount[]
+  platforms: StatsCount[]
+  contentTypes: StatsCount[]
+  topCategories: StatsCount[]
+  topChannels: StatsCount[]
+  /** Plays in the range, including replays */
+  plays: number
+  /** Average seconds from submission to first play (null without plays) */
+  averageWaitSeconds: number | null
+  /** Plays per hour of session time in the range (null without sessions) */
+  playsPerHour: number | null
+}
@@ -0,0 +1,58 @@
+/**
+ * Submission Attempt Schemas
+ * Log of every clip submission, including the ones that never reached the queue
+ */
+import { z } from 'zod'
+
+import { SUBMISSION_OUTCOMES } from './settings.js'
+
+/**
+ * Attempts that failed before there was an outcome to reply with
+ */
+export const SUBMISSION_FAILURES = ['duplicateUrl', 'invalidUrl', 'fetchFailed', 'error'] as const
+
+export type SubmissionFailure = (typeof SUBMISSION_FAILURES)[number]
+
+export const SUBMISSION_ATTEMPT_OUTCOMES = [...SUBMISSION_OUTCOMES, ...SUBMISSION_FAILURES] as const
+
+export type SubmissionAttemptOutcome = (typeof SUBMISSION_ATTEMPT_OUTCOMES)[number]
+
+/**
+ * Where a submission came from
+ */
+export const SUBMISSION_SOURCES = ['chat', 'redemption', 'api'] as const
+
+export type SubmissionSource = (typeof SUBMISSION_SOURCES)[number]
+
+/**
+ * Submission Attempt
+ * Response entry from /api/c/:channel/submissions
+ */
+export interface SubmissionAttempt {
+  id: number
+  submitter: string
+  url: string
+  source: SubmissionSource
+  outcome: SubmissionAttemptOutcome
+  /** Details behind the outcome (limits, matched filter, fetch error) */
+  reason: string | null
+  /** Title of the fetched clip */
+  title: string | null
+  /** UUID of the clip, once it was queued or held for moderation */
+  clipId: string | null
+  attemptedAt: string
+}
+
+/**
+ * Submission Attempts Query Schema
+ * Filters and cursor pagination for /api/c/:channel/submissions
+ */
+export const SubmissionAttemptsQuerySchema = z.object({
+  submitter: z.string().trim().min(1).max(100).optional(),
+  outcome: z.enum(SUBMISSION_ATTEMPT_OUTCOMES).optional(),
+  source: z.enum(SUBMISSION_SOURCES).optional(),
+  cursor: z.string().max(100).optional(), // base64-encoded attempt ID
+  limit: z.coerce.number().int().min(1).max(100).default(50)
+})
+
+export type SubmissionAttemptsQuery = z.infer<typeof SubmissionAttemptsQuerySchema>
@@ -5,26 +5,32 @@ export interface ToastOptions {
   summary?: string
   detail?: string
   life?: number
+  /** Button shown on the toast (e.g. Undo) */
+  action?: { label: string; onClick: () => void }
 }
 
 export function useToast() {
   function add(options: ToastOptions) {
     const message = options.detail || options.summary || ''
     const title = options.summary && options.detail ? options.summary : undefined
+    const data =
+      title || options.action
+        ? { ...(title && { description: message }), action: options.action }
+        : undefined
 
     switch (options.severity) {
       case 'success':
-        toast.success(title || message, title ? { description: message } : undefined)
+        toast.success(title || message, data)
         break
       case 'error':
-        toast.error(title || message, title ? { description: message } : undefined)
+        toast.error(title || message, data)
         break
       case 'warn':
-        toast.warning(title || message, title ? { description: message } : undefined)
+        toast.warning(title || message, data)
         break
       case 'info':
       default:
-        toast.info(title || message, title ? { description: message } : undefined)
+        toast.info(title || message, data)
         break
     }
   }
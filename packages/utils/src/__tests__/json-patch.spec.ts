@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest'
+
+import type { JsonValue } from '../json-patch'
+import { applyPatch, createPatch } from '../json-patch'
+
+function roundTrip(from: JsonValue, to: JsonValue) {
+  const ops = createPatch(from, to)
+  expect(applyPatch(from, ops)).toEqual(to)
+  return ops
+}
+
+describe('json-patch', () => {
+  describe('createPatch', () => {
+    it('returns no operations for equal documents', () => {
+      expect(createPatch({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual([])
+    })
+
+    it('replaces changed primitive values', () => {
+      const ops = roundTrip({ isOpen: true, limit: 5 }, { isOpen: false, limit: 5 })
+
+      expect(ops).toEqual([{ op: 'replace', path: '/isOpen', value: false }])
+    })
+
+    it('adds and removes object keys', () => {
+      const ops = roundTrip({ a: 1, b: 2 }, { a: 1, c: 3 })
+
+      expect(ops).toEqual([
+        { op: 'remove', path: '/b' },
+        { op: 'add', path: '/c', value: 3 }
+      ])
+    })
+
+    it('escapes special characters in keys', () => {
+      const ops = roundTrip({ 'a/b': 1, 'c~d': 1 }, { 'a/b': 2, 'c~d': 2 })
+
+      expect(ops.map((o) => o.path)).toEqual(['/a~1b', '/c~0d'])
+    })
+
+    it('removes a shifted element with a single operation', () => {
+      const ops = roundTrip([{ id: 'a' }, { id: 'b' }, { id: 'c' }], [{ id: 'b' }, { id: 'c' }])
+
+      expect(ops).toEqual([{ op: 'remove', path: '/0' }])
+    })
+
+    it('appends to an array with a single operation', () => {
+      const ops = roundTrip([1, 2], [1, 2, 3])
+
+      expect(ops).toEqual([{ op: 'add', path: '/2', value: 3 }])
+    })
+
+    it('handles a window that drops the oldest entry and appends a new one', () => {
+      const ops = roundTrip([1, 2, 3, 4], [2, 3, 4, 5])
+
+      expect(ops).toHaveLength(2)
+    })
+
+    it('patches only changed fields of an element modified in place', () => {
+      const ops = roundTrip(
+        { upcoming: [{ id: 'a', submitters: ['x'] }, { id: 'b' }] },
+        { upcoming: [{ id: 'a', submitters: ['x', 'y'] }, { id: 'b' }] }
+      )
+
+      expect(ops).toEqual([{ op: 'add', path: '/upcoming/0/submitters/1', value: 'y' }])
+    })
+
+    it('handles reordered elements', () => {
+      roundTrip([{ id: 'a' }, { id: 'b' }, { id: 'c' }], [{ id: 'c' }, { id: 'a' }, { id: 'b' }])
+    })
+
+    it('handles large arrays without LCS', () => {
+      const from = Array.from({ length: 200 }, (_, i) => i)
+      const to = Array.from({ length: 150 }, (_, i) => i * 2)
+
+      roundTrip(from, to)
+    })
+
+    it('replaces values that change type', () => {
+      const ops = roundTrip({ current: null }, { current: { id: 'a' } })
+
+      expect(ops).toEqual([{ op: 'replace', path: '/current', value: { id: 'a' } }])
+    })
+  })
+
+  describe('applyPatch', () => {
+    it('does not modify the input document', () => {
+      const doc = { a: [1, 2] }
+
+      applyPatch(doc, [{ op: 'add', path: '/a/-', value: 3 }])
+
+      expect(doc).toEqual({ a: [1, 2] })
+    })
+
+    it('replaces the root document', () => {
+      expect(applyPatch({ a: 1 }, [{ op: 'replace', path: '', value: { b: 2 } }])).toEqual({
+        b: 2
+      })
+    })
+
+    it('throws for missing paths', () => {
+      expect(() => applyPatch({ a: 1 }, [{ op: 'replace', path: '/b', value: 2 }])).toThrow()
+      expect(() => applyPatch({ a: 1 }, [{ op: 'add', path: '/b/c', value: 2 }])).toThrow()
+    })
+
+    it('throws for out of range array indexes', () => {
+      expect(() => applyPatch([1], [{ op: 'remove', path: '/1' }])).toThrow()
+      expect(() => applyPatch([1], [{ op: 'add', path: '/3', value: 2 }])).toThrow()
+    })
+  })
+})
@@ -1,6 +1,6 @@
 /**
  * Shared Utils Package
- * Common utilities for HTTP, caching, and URL handling
+ * Common utilities for HTTP, caching, URL handling, and JSON patches
  */
 
 export { createAuthHeaders, fetchJSON, fetchJSONWithAuth } from './http.js'
@@ -8,3 +8,5 @@ export { createAuthHeaders, fetchJSON, fetchJSONWithAuth } from './http.js'
 export { TTLCache, type CacheEntry } from './cache.js'
 
 export { safeParseURL, extractIdFromPath, matchesHostname } from './url.js'
+
+export { createPatch, applyPatch, type JsonValue, type PatchOperation } from './json-patch.js'
@@ -0,0 +1,232 @@
+/**
+ * Shared JSON Patch Utilities
+ * Minimal RFC 6902 subset (add/remove/replace) for syncing state deltas
+ */
+
+export type JsonValue =
+  | null
+  | boolean
+  | number
+  | string
+  | JsonValue[]
+  | { [key: string]: JsonValue }
+
+export interface PatchOperation {
+  op: 'add' | 'remove' | 'replace'
+  /** JSON Pointer (RFC 6901) to the target location */
+  path: string
+  /** New value (add/replace only) */
+  value?: JsonValue
+}
+
+// Above this many element comparisons, arrays are diffed position by position instead of via LCS
+const MAX_LCS_CELLS = 10_000
+
+/**
+ * Create a patch that transforms one JSON document into another
+ * Arrays are diffed by element so inserts and removals don't rewrite every later index
+ */
+export function createPatch(from: JsonValue, to: JsonValue): PatchOperation[] {
+  const ops: PatchOperation[] = []
+  diffValue(from, to, '', ops)
+  return ops
+}
+
+/**
+ * Apply a patch to a JSON document
+ * @returns A new document (the input is not modified)
+ * @throws Error if an operation targets a path that doesn't exist
+ */
+export function applyPatch<T>(document: T, ops: PatchOperation[]): T {
+  let root = structuredClone(document) as unknown as JsonValue
+
+  for (const operation of ops) {
+    const tokens = parsePointer(operation.path)
+
+    if (tokens.length === 0) {
+      if (operation.op === 'remove') throw new Error('Cannot remove document root')
+      root = structuredClone(operation.value ?? null)
+      continue
+    }
+
+    const parent = resolveParent(root, tokens)
+    const key = tokens[tokens.length - 1]!
+
+    if (Array.isArray(parent)) {
+      const index = key === '-' ? parent.length : Number(key)
+      const maxIndex = operation.op === 'add' ? parent.length : parent.length - 1
+      if (!Number.isInteger(index) || index < 0 || index > maxIndex) {
+        throw new Error(`Invalid array index in patch path: ${operation.path}`)
+      }
+
+      if (operation.op === 'add') {
+        parent.splice(index, 0, structuredClone(operation.value ?? null))
+      } else if (operation.op === 'remove') {
+        parent.splice(index, 1)
+      } else {
+        parent[index] = structuredClone(operation.value ?? null)
+      }
+    } else {
+      if (operation.op !== 'add' && !(key in parent)) {
+        throw new Error(`Patch path not found: ${operation.path}`)
+      }
+
+      if (operation.op === 'remove') {
+        delete parent[key]
+      } else {
+        parent[key] = structuredClone(operation.value ?? null)
+      }
+    }
+  }
+
+  return root as unknown as T
+}
+
+function diffValue(from: JsonValue, to: JsonValue, path: string, ops: PatchOperation[]): void {
+  if (Array.isArray(from) && Array.isArray(to)) {
+    diffArray(from, to, path, ops)
+  } else if (isObject(from) && isObject(to)) {
+    diffObject(from, to, path, ops)
+  } else if (!isEqual(from, to)) {
+    ops.push({ op: 'replace', path, value: to })
+  }
+}
+
+function diffObject(
+  from: { [key: string]: JsonValue },
+  to: { [key: string]: JsonValue },
+  path: string,
+  ops: PatchOperation[]
+): void {
+  for (const key of Object.keys(from)) {
+    if (!(key in to)) {
+      ops.push({ op: 'remove', path: `${path}/${escapeToken(key)}` })
+    }
+  }
+
+  for (const [key, value] of Object.entries(to)) {
+    const childPath = `${path}/${escapeToken(key)}`
+    if (key in from) {
+      diffValue(from[key]!, value, childPath, ops)
+    } else {
+      ops.push({ op: 'add', path: childPath, value })
+    }
+  }
+}
+
+function diffArray(from: JsonValue[], to: JsonValue[], path: string, ops: PatchOperation[]): void {
+  const fromKeys = from.map((v) => JSON.stringify(v))
+  const toKeys = to.map((v) => JSON.stringify(v))
+
+  // Skip unchanged leading and trailing elements
+  let start = 0
+  while (start < from.length && start < to.length && fromKeys[start] === toKeys[start]) {
+    start++
+  }
+  let fromEnd = from.length
+  let toEnd = to.length
+  while (fromEnd > start && toEnd > start && fromKeys[fromEnd - 1] === toKeys[toEnd - 1]) {
+    fromEnd--
+    toEnd--
+  }
+
+  const n = fromEnd - start
+  const m = toEnd - start
+
+  if (n * m > MAX_LCS_CELLS) {
+    // Too large for LCS: patch overlapping positions in place, then trim or extend
+    const shared = Math.min(n, m)
+    for (let k = 0; k < shared; k++) {
+      diffValue(from[start + k]!, to[start + k]!, `${path}/${start + k}`, ops)
+    }
+    for (let k = n - 1; k >= shared; k--) {
+      ops.push({ op: 'remove', path: `${path}/${start + k}` })
+    }
+    for (let k = shared; k < m; k++) {
+      ops.push({ op: 'add', path: `${path}/${start + k}`, value: to[start + k]! })
+    }
+    return
+  }
+
+  // lcs[i][j] = length of longest common subsequence of from[start+i..] and to[start+j..]
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        fromKeys[start + i] === toKeys[start + j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!)
+    }
+  }
+
+  // Walk the table, tracking the index in the partially patched array
+  let i = 0
+  let j = 0
+  let position = start
+  while (i < n || j < m) {
+    if (i < n && j < m && fromKeys[start + i] === toKeys[start + j]) {
+      i++
+      j++
+      position++
+    } else if (i < n && j < m && lcs[i + 1]![j + 1] === lcs[i]![j]) {
+      // Element changed in place: recurse so only the changed fields are sent
+      diffValue(from[start + i]!, to[start + j]!, `${path}/${position}`, ops)
+      i++
+      j++
+      position++
+    } else if (i < n && (j === m || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      ops.push({ op: 'remove', path: `${path}/${position}` })
+      i++
+    } else {
+      ops.push({ op: 'add', path: `${path}/${position}`, value: to[start + j]! })
+      j++
+      position++
+    }
+  }
+}
+
+function resolveParent(
+  root: JsonValue,
+  tokens: string[]
+): JsonValue[] | { [key: string]: JsonValue } {
+  let node = root
+  for (const token of tokens.slice(0, -1)) {
+    const next = Array.isArray(node)
+      ? node[Number(token)]
+      : isObject(node)
+        ? node[token]
+        : undefined
+    if (next === undefined) {
+      throw new Error(`Patch path not found: /${tokens.join('/')}`)
+    }
+    node = next
+  }
+
+  if (!Array.isArray(node) && !isObject(node)) {
+    throw new Error(`Patch path is not a container: /${tokens.join('/')}`)
+  }
+  return node
+}
+
+function parsePointer(path: string): string[] {
+  if (path === '') return []
+  if (!path.startsWith('/')) throw new Error(`Invalid JSON pointer: ${path}`)
+  return path
+    .slice(1)
+    .split('/')
+    .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+function escapeToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+function isObject(value: JsonValue | undefined): value is { [key: string]: JsonValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isEqual(a: JsonValue, b: JsonValue): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  return JSON.stringify(a) === JSON.stringify(b)
+}